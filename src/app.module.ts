@@ -7,7 +7,16 @@ import { ScheduleModule } from '@nestjs/schedule';
 import { UsersModule } from './modules/users/users.module';
 import { TasksModule } from './modules/tasks/tasks.module';
 import { AuthModule } from './modules/auth/auth.module';
+import { CommentsModule } from './modules/comments/comments.module';
+import { TagsModule } from './modules/tags/tags.module';
+import { ProjectsModule } from './modules/projects/projects.module';
+import { AttachmentsModule } from './modules/attachments/attachments.module';
+import { ViewsModule } from './modules/views/views.module';
+import { CustomFieldsModule } from './modules/custom-fields/custom-fields.module';
+import { TimeTrackingModule } from './modules/time-tracking/time-tracking.module';
+import { NotificationsModule } from './modules/notifications/notifications.module';
 import { TaskProcessorModule } from './queues/task-processor/task-processor.module';
+import { MailProcessorModule } from './queues/mail-processor/mail-processor.module';
 import { ScheduledTasksModule } from './queues/scheduled-tasks/scheduled-tasks.module';
 import { CacheService } from './common/services/cache.service';
 import { APP_GUARD } from '@nestjs/core';
@@ -70,12 +79,21 @@ import { LoggerModule } from '@modules/logger/logger.module';
     UsersModule,
     TasksModule,
     AuthModule,
+    CommentsModule,
+    TagsModule,
+    ProjectsModule,
+    AttachmentsModule,
+    ViewsModule,
+    CustomFieldsModule,
+    TimeTrackingModule,
+    NotificationsModule,
 
     // Logging module
     LoggerModule,
 
     // Queue processing modules
     TaskProcessorModule,
+    MailProcessorModule,
     ScheduledTasksModule,
   ],
   providers: [
@@ -0,0 +1,178 @@
+import { BadRequestException } from '@nestjs/common';
+import { CursorPage } from '../../types/pagination.interface';
+
+export interface SortKey<F extends string = string> {
+  field: F;
+  direction: 'ASC' | 'DESC';
+  // Sorts on this SQL expression instead of the alias.field column; readValue reads the same
+  // value from a loaded row so cursors can be built
+  expression?: string;
+  readValue?: (row: Record<string, any>) => unknown;
+}
+
+interface Cursor {
+  // The sort the cursor was created for; a cursor cannot be reused with another sort
+  sort: string;
+  values: unknown[];
+  id: string;
+}
+
+// Parses "dueDate:asc,priority:desc"; the direction defaults to ascending. isDynamicField
+// accepts fields that are not known up front, such as custom fields.
+export function parseSort<F extends string>(
+  input: string | undefined,
+  fields: readonly F[],
+  fallback: SortKey<F>[],
+  isDynamicField: (field: string) => boolean = () => false,
+): SortKey<F>[] {
+  if (!input || !input.trim()) {
+    return fallback;
+  }
+
+  const keys = input.split(',').map(part => {
+    const [field, direction = 'asc', ...rest] = part.trim().split(':');
+    if (!fields.includes(field as F) && !isDynamicField(field)) {
+      throw new BadRequestException(
+        `Invalid sort field "${field}", expected one of: ${fields.join(', ')}`,
+      );
+    }
+    const order = direction.toUpperCase();
+    if (rest.length > 0 || (order !== 'ASC' && order !== 'DESC')) {
+      throw new BadRequestException(`Invalid sort direction for "${field}", use asc or desc`);
+    }
+    return { field: field as F, direction: order as SortKey['direction'] };
+  });
+
+  if (new Set(keys.map(key => key.field)).size !== keys.length) {
+    throw new BadRequestException('Each sort field may only be used once');
+  }
+  return keys;
+}
+
+export function encodeCursor(row: Record<string, any>, sort: SortKey[]): string {
+  const cursor: Cursor = {
+    sort: sortSignature(sort),
+    values: sort.map(key => {
+      const value = key.readValue ? key.readValue(row) : row[key.field];
+      return value instanceof Date ? { date: value.toISOString() } : (value ?? null);
+    }),
+    id: row.id,
+  };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+// Expects up to pageSize + 1 rows, the extra row only tells whether another page exists
+export function toCursorPage<T extends Record<string, any>>(
+  rows: T[],
+  pageSize: number,
+  sort: SortKey[],
+): CursorPage<T> {
+  const data = rows.slice(0, pageSize);
+  const hasMore = rows.length > pageSize;
+  return {
+    data,
+    nextCursor: hasMore ? encodeCursor(data[data.length - 1], sort) : null,
+    hasMore,
+  };
+}
+
+// Orders by the sort keys, with empty values last, and by id as the tie-breaker. With a
+// cursor only rows after it are kept: rows that match the cursor on the first n keys and
+// come after it on key n + 1, or that match on every key and have a larger id.
+export function applySortAndCursor(
+  query: any,
+  alias: string,
+  sort: SortKey[],
+  cursor?: string,
+): void {
+  const expressions = sort.map(key => key.expression ?? timestampExpression(query, alias, key));
+
+  sort.forEach((key, index) => {
+    let column = `${alias}.${key.field}`;
+    if (expressions[index]) {
+      // Ordering by a selected alias keeps TypeORM's pagination subquery working
+      column = `sort_${index}`;
+      query.addSelect(expressions[index], column);
+    }
+    if (index === 0) {
+      query.orderBy(column, key.direction, 'NULLS LAST');
+    } else {
+      query.addOrderBy(column, key.direction, 'NULLS LAST');
+    }
+  });
+  query.addOrderBy(`${alias}.id`, 'ASC');
+
+  if (!cursor) {
+    return;
+  }
+
+  const { values, id } = decodeCursor(cursor, sort);
+  const parameters: Record<string, unknown> = { cursorId: id };
+  const equal: string[] = [];
+  const after: string[] = [];
+
+  sort.forEach((key, index) => {
+    const column = expressions[index] ?? `${alias}.${key.field}`;
+    const value = values[index];
+    if (value === null) {
+      // Empty values sort last, so only other empty values can follow
+      equal.push(`${column} IS NULL`);
+      return;
+    }
+
+    const param = `cursor${index}`;
+    const operator = key.direction === 'ASC' ? '>' : '<';
+    parameters[param] = value;
+    after.push([...equal, `(${column} ${operator} :${param} OR ${column} IS NULL)`].join(' AND '));
+    equal.push(`${column} = :${param}`);
+  });
+  after.push([...equal, `${alias}.id > :cursorId`].join(' AND '));
+
+  query.andWhere(`(${after.map(condition => `(${condition})`).join(' OR ')})`, parameters);
+}
+
+// Postgres timestamps keep microseconds, but a loaded Date and so the cursor only milliseconds.
+// Timestamp columns are sorted and compared at millisecond precision, otherwise rows within
+// the millisecond of the cursor would be skipped.
+function timestampExpression(query: any, alias: string, key: SortKey): string | undefined {
+  const target = query.expressionMap?.aliases?.find((entry: any) => entry.name === alias);
+  const column = target?.hasMetadata
+    ? target.metadata.findColumnWithPropertyName(key.field)
+    : undefined;
+  if (column && (column.type === Date || /^timestamp/.test(String(column.type)))) {
+    return `date_trunc('milliseconds', ${alias}.${key.field})`;
+  }
+  return undefined;
+}
+
+function decodeCursor(cursor: string, sort: SortKey[]): Cursor {
+  let decoded: Cursor;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new BadRequestException('Invalid cursor');
+  }
+
+  if (
+    !decoded ||
+    typeof decoded.id !== 'string' ||
+    !Array.isArray(decoded.values) ||
+    decoded.values.length !== sort.length
+  ) {
+    throw new BadRequestException('Invalid cursor');
+  }
+  if (decoded.sort !== sortSignature(sort)) {
+    throw new BadRequestException('Cursor does not match the requested sort order');
+  }
+
+  return {
+    ...decoded,
+    values: decoded.values.map((value: any) =>
+      value && typeof value === 'object' && 'date' in value ? new Date(value.date) : value,
+    ),
+  };
+}
+
+function sortSignature(sort: SortKey[]): string {
+  return sort.map(key => `${key.field}:${key.direction}`).join(',');
+}
@@ -0,0 +1,18 @@
+import { BadRequestException } from '@nestjs/common';
+
+export function toETag(version: number): string {
+  return `"${version}"`;
+}
+
+// Returns the version an If-Match header expects, or undefined when any version is accepted
+export function parseIfMatch(header?: string): number | undefined {
+  if (header === undefined || header.trim() === '*') {
+    return undefined;
+  }
+
+  const match = /^(?:W\/)?"?(\d+)"?$/.exec(header.trim());
+  if (!match) {
+    throw new BadRequestException('If-Match must be an ETag returned by GET /tasks/:id');
+  }
+  return Number(match[1]);
+}
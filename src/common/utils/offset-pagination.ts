@@ -0,0 +1,36 @@
+import { BadRequestException } from '@nestjs/common';
+import { PaginatedResponse, PaginationOptions } from '../../types/pagination.interface';
+
+export const MAX_PAGE_SIZE = 100;
+
+// Validates page numbers (1-based) and caps the page size
+export function resolvePagination(options: PaginationOptions): { page: number; limit: number } {
+  const page = Number(options.page ?? 1);
+  const limit = Number(options.limit ?? 10);
+
+  if (!Number.isInteger(page) || page < 1) {
+    throw new BadRequestException('Page must be a positive integer');
+  }
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new BadRequestException('Invalid pagination limit');
+  }
+
+  return { page, limit: Math.min(limit, MAX_PAGE_SIZE) };
+}
+
+export function toPaginatedResponse<T>(
+  data: T[],
+  total: number,
+  page: number,
+  limit: number,
+): PaginatedResponse<T> {
+  return {
+    data,
+    meta: {
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
+}
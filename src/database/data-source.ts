@@ -2,6 +2,27 @@ import { DataSource, DataSourceOptions } from 'typeorm';
 import * as dotenv from 'dotenv';
 import { CreateInitialSchema1710752400000 } from './migrations/1710752400000-CreateInitialSchema';
 import { Migration1750509167632 } from './migrations/1750509167632-Migration';
+import { CreateTaskComments1792400000000 } from './migrations/1792400000000-CreateTaskComments';
+import { AddTaskParent1792400100000 } from './migrations/1792400100000-AddTaskParent';
+import { CreateTaskDependencies1792400200000 } from './migrations/1792400200000-CreateTaskDependencies';
+import { CreateTaskSeries1792400300000 } from './migrations/1792400300000-CreateTaskSeries';
+import { CreateTags1792400400000 } from './migrations/1792400400000-CreateTags';
+import { CreateProjects1792400500000 } from './migrations/1792400500000-CreateProjects';
+import { SplitTaskCreatorAndAssignee1792400600000 } from './migrations/1792400600000-SplitTaskCreatorAndAssignee';
+import { CreateTaskAttachments1792400700000 } from './migrations/1792400700000-CreateTaskAttachments';
+import { CreateTaskEvents1792400800000 } from './migrations/1792400800000-CreateTaskEvents';
+import { AddTaskSoftDelete1792400900000 } from './migrations/1792400900000-AddTaskSoftDelete';
+import { AddTaskSearchVector1792401000000 } from './migrations/1792401000000-AddTaskSearchVector';
+import { CreateSavedViews1792401100000 } from './migrations/1792401100000-CreateSavedViews';
+import { AddTaskVersion1792401200000 } from './migrations/1792401200000-AddTaskVersion';
+import { AddTaskWorkflowStatuses1792401300000 } from './migrations/1792401300000-AddTaskWorkflowStatuses';
+import { CreateCustomFields1792401400000 } from './migrations/1792401400000-CreateCustomFields';
+import { CreateTimeEntries1792401500000 } from './migrations/1792401500000-CreateTimeEntries';
+import { AddTaskEstimates1792401600000 } from './migrations/1792401600000-AddTaskEstimates';
+import { AddTaskRank1792401700000 } from './migrations/1792401700000-AddTaskRank';
+import { AddDueReminders1792401800000 } from './migrations/1792401800000-AddDueReminders';
+import { CreateTaskEscalations1792401900000 } from './migrations/1792401900000-CreateTaskEscalations';
+import { CreateNotifications1792402000000 } from './migrations/1792402000000-CreateNotifications';
 
 // Load environment variables
 dotenv.config();
@@ -14,7 +35,30 @@ export const dataSourceOptions: DataSourceOptions = {
   password: process.env.DB_PASSWORD || 'postgres',
   database: process.env.DB_DATABASE || 'taskflow',
   entities: [__dirname + '/../**/*.entity{.ts,.js}'],
-  migrations: [Migration1750509167632],
+  migrations: [
+    Migration1750509167632,
+    CreateTaskComments1792400000000,
+    AddTaskParent1792400100000,
+    CreateTaskDependencies1792400200000,
+    CreateTaskSeries1792400300000,
+    CreateTags1792400400000,
+    CreateProjects1792400500000,
+    SplitTaskCreatorAndAssignee1792400600000,
+    CreateTaskAttachments1792400700000,
+    CreateTaskEvents1792400800000,
+    AddTaskSoftDelete1792400900000,
+    AddTaskSearchVector1792401000000,
+    CreateSavedViews1792401100000,
+    AddTaskVersion1792401200000,
+    AddTaskWorkflowStatuses1792401300000,
+    CreateCustomFields1792401400000,
+    CreateTimeEntries1792401500000,
+    AddTaskEstimates1792401600000,
+    AddTaskRank1792401700000,
+    AddDueReminders1792401800000,
+    CreateTaskEscalations1792401900000,
+    CreateNotifications1792402000000,
+  ],
   migrationsTableName: 'migrations',
   synchronize: false, // Important: Set to false for production
   logging: process.env.NODE_ENV === 'development',
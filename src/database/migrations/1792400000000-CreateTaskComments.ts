@@ -0,0 +1,42 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateTaskComments1792400000000 implements MigrationInterface {
+  name = 'CreateTaskComments1792400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "task_comments" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "body" text NOT NULL,
+        "task_id" uuid NOT NULL,
+        "author_id" uuid NOT NULL,
+        "parent_id" uuid,
+        "is_edited" boolean NOT NULL DEFAULT false,
+        "edited_at" TIMESTAMP,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_task_comments" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_task_comments_tasks" FOREIGN KEY ("task_id") REFERENCES "tasks"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_task_comments_users" FOREIGN KEY ("author_id") REFERENCES "users"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_task_comments_parent" FOREIGN KEY ("parent_id") REFERENCES "task_comments"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_task_comments_task_id" ON "task_comments" ("task_id")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_task_comments_author_id" ON "task_comments" ("author_id")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_task_comments_parent_id" ON "task_comments" ("parent_id")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_task_comments_created_at" ON "task_comments" ("created_at")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "task_comments"`);
+  }
+}
@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTaskParent1792400100000 implements MigrationInterface {
+  name = 'AddTaskParent1792400100000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "tasks" ADD "parent_id" uuid`);
+    await queryRunner.query(`
+      ALTER TABLE "tasks" ADD CONSTRAINT "FK_tasks_parent" FOREIGN KEY ("parent_id") REFERENCES "tasks"("id") ON DELETE SET NULL
+    `);
+    await queryRunner.query(`CREATE INDEX "IDX_tasks_parent_id" ON "tasks" ("parent_id")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_tasks_parent_id"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP CONSTRAINT "FK_tasks_parent"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN "parent_id"`);
+  }
+}
@@ -0,0 +1,35 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateTaskDependencies1792400200000 implements MigrationInterface {
+  name = 'CreateTaskDependencies1792400200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "tasks" ADD "is_blocked" boolean NOT NULL DEFAULT false`);
+
+    await queryRunner.query(`
+      CREATE TABLE "task_dependencies" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "blocker_id" uuid NOT NULL,
+        "blocked_id" uuid NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_task_dependencies" PRIMARY KEY ("id"),
+        CONSTRAINT "UQ_task_dependencies_edge" UNIQUE ("blocker_id", "blocked_id"),
+        CONSTRAINT "CHK_task_dependencies_not_self" CHECK ("blocker_id" <> "blocked_id"),
+        CONSTRAINT "FK_task_dependencies_blocker" FOREIGN KEY ("blocker_id") REFERENCES "tasks"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_task_dependencies_blocked" FOREIGN KEY ("blocked_id") REFERENCES "tasks"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_task_dependencies_blocker_id" ON "task_dependencies" ("blocker_id")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_task_dependencies_blocked_id" ON "task_dependencies" ("blocked_id")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "task_dependencies"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN "is_blocked"`);
+  }
+}
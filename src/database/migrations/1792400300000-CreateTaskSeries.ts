@@ -0,0 +1,53 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateTaskSeries1792400300000 implements MigrationInterface {
+  name = 'CreateTaskSeries1792400300000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."task_series_priority_enum" AS ENUM('LOW', 'MEDIUM', 'HIGH')`,
+    );
+    await queryRunner.query(`
+      CREATE TABLE "task_series" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "recurrence_rule" character varying NOT NULL,
+        "starts_at" TIMESTAMP NOT NULL,
+        "title" character varying NOT NULL,
+        "description" text,
+        "priority" "public"."task_series_priority_enum" NOT NULL DEFAULT 'MEDIUM',
+        "user_id" uuid NOT NULL,
+        "last_occurrence_at" TIMESTAMP,
+        "next_occurrence_at" TIMESTAMP,
+        "active" boolean NOT NULL DEFAULT true,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_task_series" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_task_series_users" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+      )
+    `);
+    await queryRunner.query(`CREATE INDEX "IDX_task_series_user_id" ON "task_series" ("user_id")`);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_task_series_next_occurrence_at" ON "task_series" ("active", "next_occurrence_at")`,
+    );
+
+    await queryRunner.query(`ALTER TABLE "tasks" ADD "series_id" uuid`);
+    await queryRunner.query(`ALTER TABLE "tasks" ADD "occurrence_at" TIMESTAMP`);
+    await queryRunner.query(`
+      ALTER TABLE "tasks" ADD CONSTRAINT "FK_tasks_series" FOREIGN KEY ("series_id") REFERENCES "task_series"("id") ON DELETE SET NULL
+    `);
+    await queryRunner.query(`CREATE INDEX "IDX_tasks_series_id" ON "tasks" ("series_id")`);
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "UQ_tasks_series_occurrence" ON "tasks" ("series_id", "occurrence_at")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "UQ_tasks_series_occurrence"`);
+    await queryRunner.query(`DROP INDEX "IDX_tasks_series_id"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP CONSTRAINT "FK_tasks_series"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN "occurrence_at"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN "series_id"`);
+    await queryRunner.query(`DROP TABLE "task_series"`);
+    await queryRunner.query(`DROP TYPE "public"."task_series_priority_enum"`);
+  }
+}
@@ -0,0 +1,38 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateTags1792400400000 implements MigrationInterface {
+  name = 'CreateTags1792400400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "tags" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "name" character varying(50) NOT NULL,
+        "color" character varying(7) NOT NULL DEFAULT '#808080',
+        "user_id" uuid NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_tags" PRIMARY KEY ("id"),
+        CONSTRAINT "UQ_tags_user_name" UNIQUE ("user_id", "name"),
+        CONSTRAINT "FK_tags_users" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+      )
+    `);
+    await queryRunner.query(`CREATE INDEX "IDX_tags_user_id" ON "tags" ("user_id")`);
+
+    await queryRunner.query(`
+      CREATE TABLE "task_tags" (
+        "task_id" uuid NOT NULL,
+        "tag_id" uuid NOT NULL,
+        CONSTRAINT "PK_task_tags" PRIMARY KEY ("task_id", "tag_id"),
+        CONSTRAINT "FK_task_tags_tasks" FOREIGN KEY ("task_id") REFERENCES "tasks"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_task_tags_tags" FOREIGN KEY ("tag_id") REFERENCES "tags"("id") ON DELETE CASCADE
+      )
+    `);
+    await queryRunner.query(`CREATE INDEX "IDX_task_tags_tag_id" ON "task_tags" ("tag_id")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "task_tags"`);
+    await queryRunner.query(`DROP TABLE "tags"`);
+  }
+}
@@ -0,0 +1,60 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateProjects1792400500000 implements MigrationInterface {
+  name = 'CreateProjects1792400500000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "projects" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "name" character varying NOT NULL,
+        "description" text,
+        "owner_id" uuid NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_projects" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_projects_owner" FOREIGN KEY ("owner_id") REFERENCES "users"("id") ON DELETE CASCADE
+      )
+    `);
+    await queryRunner.query(`CREATE INDEX "IDX_projects_owner_id" ON "projects" ("owner_id")`);
+
+    await queryRunner.query(
+      `CREATE TYPE "public"."project_members_role_enum" AS ENUM('owner', 'manager', 'member', 'viewer')`,
+    );
+    await queryRunner.query(`
+      CREATE TABLE "project_members" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "project_id" uuid NOT NULL,
+        "user_id" uuid NOT NULL,
+        "role" "public"."project_members_role_enum" NOT NULL DEFAULT 'member',
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_project_members" PRIMARY KEY ("id"),
+        CONSTRAINT "UQ_project_members_project_user" UNIQUE ("project_id", "user_id"),
+        CONSTRAINT "FK_project_members_projects" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_project_members_users" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_project_members_project_id" ON "project_members" ("project_id")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_project_members_user_id" ON "project_members" ("user_id")`,
+    );
+
+    await queryRunner.query(`ALTER TABLE "tasks" ADD "project_id" uuid`);
+    await queryRunner.query(`CREATE INDEX "IDX_tasks_project_id" ON "tasks" ("project_id")`);
+    await queryRunner.query(`
+      ALTER TABLE "tasks"
+      ADD CONSTRAINT "FK_tasks_projects" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE SET NULL
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "tasks" DROP CONSTRAINT "FK_tasks_projects"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_tasks_project_id"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN "project_id"`);
+    await queryRunner.query(`DROP TABLE "project_members"`);
+    await queryRunner.query(`DROP TYPE "public"."project_members_role_enum"`);
+    await queryRunner.query(`DROP TABLE "projects"`);
+  }
+}
@@ -0,0 +1,47 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class SplitTaskCreatorAndAssignee1792400600000 implements MigrationInterface {
+  name = 'SplitTaskCreatorAndAssignee1792400600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "tasks" ADD "created_by" uuid`);
+    await queryRunner.query(`ALTER TABLE "tasks" ADD "assignee_id" uuid`);
+    await queryRunner.query(
+      `UPDATE "tasks" SET "created_by" = "user_id", "assignee_id" = "user_id"`,
+    );
+    await queryRunner.query(`ALTER TABLE "tasks" ALTER COLUMN "created_by" SET NOT NULL`);
+
+    // Dropping the column also drops its foreign key and index
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN "user_id"`);
+
+    await queryRunner.query(`CREATE INDEX "IDX_tasks_created_by" ON "tasks" ("created_by")`);
+    await queryRunner.query(`CREATE INDEX "IDX_tasks_assignee_id" ON "tasks" ("assignee_id")`);
+    await queryRunner.query(`
+      ALTER TABLE "tasks"
+      ADD CONSTRAINT "FK_tasks_created_by" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE CASCADE
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "tasks"
+      ADD CONSTRAINT "FK_tasks_assignee" FOREIGN KEY ("assignee_id") REFERENCES "users"("id") ON DELETE SET NULL
+    `);
+
+    await queryRunner.query(`ALTER TABLE "task_series" ADD "assignee_id" uuid`);
+    await queryRunner.query(`UPDATE "task_series" SET "assignee_id" = "user_id"`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "task_series" DROP COLUMN "assignee_id"`);
+
+    await queryRunner.query(`ALTER TABLE "tasks" ADD "user_id" uuid`);
+    await queryRunner.query(`UPDATE "tasks" SET "user_id" = "created_by"`);
+    await queryRunner.query(`ALTER TABLE "tasks" ALTER COLUMN "user_id" SET NOT NULL`);
+    await queryRunner.query(`
+      ALTER TABLE "tasks"
+      ADD CONSTRAINT "FK_tasks_users" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+    `);
+    await queryRunner.query(`CREATE INDEX "IDX_tasks_user_id" ON "tasks" ("user_id")`);
+
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN "assignee_id"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN "created_by"`);
+  }
+}
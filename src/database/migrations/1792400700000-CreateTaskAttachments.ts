@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateTaskAttachments1792400700000 implements MigrationInterface {
+  name = 'CreateTaskAttachments1792400700000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "task_attachments" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "task_id" uuid NOT NULL,
+        "uploaded_by" uuid,
+        "file_name" character varying NOT NULL,
+        "content_type" character varying NOT NULL,
+        "size" integer NOT NULL,
+        "storage_key" character varying NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_task_attachments" PRIMARY KEY ("id"),
+        CONSTRAINT "UQ_task_attachments_storage_key" UNIQUE ("storage_key"),
+        CONSTRAINT "FK_task_attachments_tasks" FOREIGN KEY ("task_id") REFERENCES "tasks"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_task_attachments_users" FOREIGN KEY ("uploaded_by") REFERENCES "users"("id") ON DELETE SET NULL
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_task_attachments_task_id" ON "task_attachments" ("task_id")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "task_attachments"`);
+  }
+}
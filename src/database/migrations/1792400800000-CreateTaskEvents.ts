@@ -0,0 +1,36 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateTaskEvents1792400800000 implements MigrationInterface {
+  name = 'CreateTaskEvents1792400800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."task_events_type_enum" AS ENUM('created', 'updated', 'deleted')`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."task_events_source_enum" AS ENUM('http', 'queue')`,
+    );
+    await queryRunner.query(`
+      CREATE TABLE "task_events" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "task_id" uuid NOT NULL,
+        "type" "public"."task_events_type_enum" NOT NULL,
+        "source" "public"."task_events_source_enum" NOT NULL,
+        "actor_id" uuid,
+        "changes" jsonb NOT NULL DEFAULT '{}',
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_task_events" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_task_events_actor" FOREIGN KEY ("actor_id") REFERENCES "users"("id") ON DELETE SET NULL
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_task_events_task_id_created_at" ON "task_events" ("task_id", "created_at")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "task_events"`);
+    await queryRunner.query(`DROP TYPE "public"."task_events_source_enum"`);
+    await queryRunner.query(`DROP TYPE "public"."task_events_type_enum"`);
+  }
+}
@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTaskSoftDelete1792400900000 implements MigrationInterface {
+  name = 'AddTaskSoftDelete1792400900000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "tasks" ADD "deleted_at" TIMESTAMP`);
+    await queryRunner.query(`CREATE INDEX "IDX_tasks_deleted_at" ON "tasks" ("deleted_at")`);
+    await queryRunner.query(`ALTER TYPE "public"."task_events_type_enum" ADD VALUE 'restored'`);
+    await queryRunner.query(`ALTER TYPE "public"."task_events_type_enum" ADD VALUE 'purged'`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DELETE FROM "task_events" WHERE "type" IN ('restored', 'purged')`);
+    await queryRunner.query(
+      `ALTER TYPE "public"."task_events_type_enum" RENAME TO "task_events_type_enum_old"`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."task_events_type_enum" AS ENUM('created', 'updated', 'deleted')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "task_events" ALTER COLUMN "type" TYPE "public"."task_events_type_enum" USING "type"::text::"public"."task_events_type_enum"`,
+    );
+    await queryRunner.query(`DROP TYPE "public"."task_events_type_enum_old"`);
+    await queryRunner.query(`DELETE FROM "tasks" WHERE "deleted_at" IS NOT NULL`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_tasks_deleted_at"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN "deleted_at"`);
+  }
+}
@@ -0,0 +1,38 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+const SEARCH_VECTOR_EXPRESSION =
+  "setweight(to_tsvector('english', coalesce(title, '')), 'A') || " +
+  "setweight(to_tsvector('english', coalesce(description, '')), 'B')";
+
+export class AddTaskSearchVector1792401000000 implements MigrationInterface {
+  name = 'AddTaskSearchVector1792401000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "tasks" ADD "search_vector" tsvector GENERATED ALWAYS AS (${SEARCH_VECTOR_EXPRESSION}) STORED`,
+    );
+    await queryRunner.query(
+      `INSERT INTO "typeorm_metadata"("database", "schema", "table", "type", "name", "value") VALUES ($1, $2, $3, $4, $5, $6)`,
+      [
+        await queryRunner.getCurrentDatabase(),
+        'public',
+        'tasks',
+        'GENERATED_COLUMN',
+        'search_vector',
+        SEARCH_VECTOR_EXPRESSION,
+      ],
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_tasks_search_vector" ON "tasks" USING GIN ("search_vector")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."IDX_tasks_search_vector"`);
+    await queryRunner.query(
+      `DELETE FROM "typeorm_metadata" WHERE "type" = $1 AND "name" = $2 AND "table" = $3`,
+      ['GENERATED_COLUMN', 'search_vector', 'tasks'],
+    );
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN "search_vector"`);
+  }
+}
@@ -0,0 +1,36 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateSavedViews1792401100000 implements MigrationInterface {
+  name = 'CreateSavedViews1792401100000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."saved_views_sort_by_enum" AS ENUM('createdAt', 'updatedAt', 'dueDate', 'priority', 'title')`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."saved_views_sort_direction_enum" AS ENUM('ASC', 'DESC')`,
+    );
+    await queryRunner.query(`
+      CREATE TABLE "saved_views" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "name" character varying(100) NOT NULL,
+        "user_id" uuid NOT NULL,
+        "filter" jsonb NOT NULL DEFAULT '{}',
+        "sort_by" "public"."saved_views_sort_by_enum" NOT NULL DEFAULT 'createdAt',
+        "sort_direction" "public"."saved_views_sort_direction_enum" NOT NULL DEFAULT 'DESC',
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_saved_views" PRIMARY KEY ("id"),
+        CONSTRAINT "UQ_saved_views_user_name" UNIQUE ("user_id", "name"),
+        CONSTRAINT "FK_saved_views_users" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+      )
+    `);
+    await queryRunner.query(`CREATE INDEX "IDX_saved_views_user_id" ON "saved_views" ("user_id")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "saved_views"`);
+    await queryRunner.query(`DROP TYPE "public"."saved_views_sort_direction_enum"`);
+    await queryRunner.query(`DROP TYPE "public"."saved_views_sort_by_enum"`);
+  }
+}
@@ -0,0 +1,35 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTaskWorkflowStatuses1792401300000 implements MigrationInterface {
+  name = 'AddTaskWorkflowStatuses1792401300000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TYPE "public"."tasks_status_enum" ADD VALUE 'BLOCKED'`);
+    await queryRunner.query(`ALTER TYPE "public"."tasks_status_enum" ADD VALUE 'IN_REVIEW'`);
+    await queryRunner.query(`ALTER TYPE "public"."tasks_status_enum" ADD VALUE 'CANCELLED'`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `UPDATE "tasks" SET "status" = CASE "status"::text
+         WHEN 'BLOCKED' THEN 'PENDING'
+         WHEN 'IN_REVIEW' THEN 'IN_PROGRESS'
+         WHEN 'CANCELLED' THEN 'COMPLETED'
+         ELSE "status"::text
+       END::"public"."tasks_status_enum"
+       WHERE "status" IN ('BLOCKED', 'IN_REVIEW', 'CANCELLED')`,
+    );
+    await queryRunner.query(`ALTER TABLE "tasks" ALTER COLUMN "status" DROP DEFAULT`);
+    await queryRunner.query(
+      `ALTER TYPE "public"."tasks_status_enum" RENAME TO "tasks_status_enum_old"`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."tasks_status_enum" AS ENUM('PENDING', 'IN_PROGRESS', 'COMPLETED')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "tasks" ALTER COLUMN "status" TYPE "public"."tasks_status_enum" USING "status"::text::"public"."tasks_status_enum"`,
+    );
+    await queryRunner.query(`ALTER TABLE "tasks" ALTER COLUMN "status" SET DEFAULT 'PENDING'`);
+    await queryRunner.query(`DROP TYPE "public"."tasks_status_enum_old"`);
+  }
+}
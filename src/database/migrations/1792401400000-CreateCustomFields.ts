@@ -0,0 +1,32 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateCustomFields1792401400000 implements MigrationInterface {
+  name = 'CreateCustomFields1792401400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."custom_field_definitions_type_enum" AS ENUM('text', 'number', 'date', 'enum', 'boolean', 'user')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "custom_field_definitions" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "key" character varying(40) NOT NULL,
+        "label" character varying(100) NOT NULL,
+        "type" "public"."custom_field_definitions_type_enum" NOT NULL,
+        "options" jsonb,
+        "required" boolean NOT NULL DEFAULT false,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "UQ_custom_field_definitions_key" UNIQUE ("key"),
+        CONSTRAINT "PK_custom_field_definitions_id" PRIMARY KEY ("id")
+      )`,
+    );
+    await queryRunner.query(`ALTER TABLE "tasks" ADD "custom_fields" jsonb NOT NULL DEFAULT '{}'`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN "custom_fields"`);
+    await queryRunner.query(`DROP TABLE "custom_field_definitions"`);
+    await queryRunner.query(`DROP TYPE "public"."custom_field_definitions_type_enum"`);
+  }
+}
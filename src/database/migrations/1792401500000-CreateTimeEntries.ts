@@ -0,0 +1,43 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateTimeEntries1792401500000 implements MigrationInterface {
+  name = 'CreateTimeEntries1792401500000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "time_entries" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "task_id" uuid NOT NULL,
+        "user_id" uuid NOT NULL,
+        "started_at" TIMESTAMP NOT NULL,
+        "ended_at" TIMESTAMP,
+        "duration_seconds" integer,
+        "note" character varying(500),
+        "auto_stopped" boolean NOT NULL DEFAULT false,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_time_entries" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_time_entries_tasks" FOREIGN KEY ("task_id") REFERENCES "tasks"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_time_entries_users" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_time_entries_task_id" ON "time_entries" ("task_id")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_time_entries_user_id" ON "time_entries" ("user_id")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_time_entries_started_at" ON "time_entries" ("started_at")`,
+    );
+    // At most one running timer per user
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_time_entries_running_timer" ON "time_entries" ("user_id") WHERE "ended_at" IS NULL`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "time_entries"`);
+  }
+}
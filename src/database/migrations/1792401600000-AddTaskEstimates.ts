@@ -0,0 +1,15 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTaskEstimates1792401600000 implements MigrationInterface {
+  name = 'AddTaskEstimates1792401600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "tasks" ADD "estimate_minutes" integer`);
+    await queryRunner.query(`ALTER TABLE "tasks" ADD "story_points" integer`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN "story_points"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN "estimate_minutes"`);
+  }
+}
@@ -0,0 +1,16 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTaskRank1792401700000 implements MigrationInterface {
+  name = 'AddTaskRank1792401700000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Ranks are compared byte by byte, whatever the database collation is
+    await queryRunner.query(`ALTER TABLE "tasks" ADD "rank" character varying COLLATE "C"`);
+    await queryRunner.query(`CREATE INDEX "IDX_tasks_status_rank" ON "tasks" ("status", "rank")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."IDX_tasks_status_rank"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN "rank"`);
+  }
+}
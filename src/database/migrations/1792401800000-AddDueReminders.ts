@@ -0,0 +1,17 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddDueReminders1792401800000 implements MigrationInterface {
+  name = 'AddDueReminders1792401800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "tasks" ADD "reminder_offsets" integer array`);
+    await queryRunner.query(
+      `ALTER TABLE "users" ADD "reminder_offsets" integer array NOT NULL DEFAULT '{1440,60,15}'`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "users" DROP COLUMN "reminder_offsets"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN "reminder_offsets"`);
+  }
+}
@@ -0,0 +1,28 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateTaskEscalations1792401900000 implements MigrationInterface {
+  name = 'CreateTaskEscalations1792401900000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "task_escalations" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "task_id" uuid NOT NULL,
+        "step" character varying(60) NOT NULL,
+        "due_date" TIMESTAMP NOT NULL,
+        "fired_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_task_escalations" PRIMARY KEY ("id"),
+        CONSTRAINT "UQ_task_escalations_step" UNIQUE ("task_id", "step", "due_date"),
+        CONSTRAINT "FK_task_escalations_tasks" FOREIGN KEY ("task_id") REFERENCES "tasks"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_task_escalations_task_id" ON "task_escalations" ("task_id")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "task_escalations"`);
+  }
+}
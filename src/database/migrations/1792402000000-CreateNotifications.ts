@@ -0,0 +1,43 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateNotifications1792402000000 implements MigrationInterface {
+  name = 'CreateNotifications1792402000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."notifications_type_enum" AS ENUM('assigned', 'due_soon', 'overdue', 'escalated', 'status_changed', 'mentioned')`,
+    );
+    await queryRunner.query(`
+      CREATE TABLE "notifications" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid NOT NULL,
+        "type" "public"."notifications_type_enum" NOT NULL,
+        "task_id" uuid,
+        "actor_id" uuid,
+        "title" character varying(300) NOT NULL,
+        "data" jsonb NOT NULL DEFAULT '{}',
+        "dedupe_key" character varying(200),
+        "read_at" TIMESTAMP,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_notifications" PRIMARY KEY ("id"),
+        CONSTRAINT "UQ_notifications_dedupe_key" UNIQUE ("user_id", "dedupe_key"),
+        CONSTRAINT "FK_notifications_users" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_notifications_tasks" FOREIGN KEY ("task_id") REFERENCES "tasks"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_notifications_actors" FOREIGN KEY ("actor_id") REFERENCES "users"("id") ON DELETE SET NULL
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_notifications_user_created_at" ON "notifications" ("user_id", "created_at")`,
+    );
+    // Keeps the unread count cheap
+    await queryRunner.query(
+      `CREATE INDEX "IDX_notifications_unread" ON "notifications" ("user_id") WHERE "read_at" IS NULL`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "notifications"`);
+    await queryRunner.query(`DROP TYPE "public"."notifications_type_enum"`);
+  }
+}
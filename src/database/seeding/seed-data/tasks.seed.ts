@@ -9,7 +9,8 @@ export const tasks = [
     status: TaskStatus.IN_PROGRESS,
     priority: TaskPriority.HIGH,
     dueDate: new Date(new Date().setDate(new Date().getDate() + 7)), // Due in 7 days
-    userId: '550e8400-e29b-41d4-a716-446655440000', // Admin user
+    createdBy: '550e8400-e29b-41d4-a716-446655440000', // Admin user
+    assigneeId: '550e8400-e29b-41d4-a716-446655440000',
   },
   {
     id: '660e8400-e29b-41d4-a716-446655440001',
@@ -18,7 +19,8 @@ export const tasks = [
     status: TaskStatus.COMPLETED,
     priority: TaskPriority.HIGH,
     dueDate: new Date(new Date().setDate(new Date().getDate() - 3)), // Due 3 days ago
-    userId: '550e8400-e29b-41d4-a716-446655440000', // Admin user
+    createdBy: '550e8400-e29b-41d4-a716-446655440000', // Admin user
+    assigneeId: '550e8400-e29b-41d4-a716-446655440000',
   },
   {
     id: '660e8400-e29b-41d4-a716-446655440002',
@@ -27,7 +29,8 @@ export const tasks = [
     status: TaskStatus.PENDING,
     priority: TaskPriority.MEDIUM,
     dueDate: new Date(new Date().setDate(new Date().getDate() + 14)), // Due in 14 days
-    userId: '550e8400-e29b-41d4-a716-446655440001', // Normal user
+    createdBy: '550e8400-e29b-41d4-a716-446655440001', // Normal user
+    assigneeId: '550e8400-e29b-41d4-a716-446655440001',
   },
   {
     id: '660e8400-e29b-41d4-a716-446655440003',
@@ -36,7 +39,8 @@ export const tasks = [
     status: TaskStatus.PENDING,
     priority: TaskPriority.LOW,
     dueDate: new Date(new Date().setDate(new Date().getDate() + 1)), // Due tomorrow
-    userId: '550e8400-e29b-41d4-a716-446655440001', // Normal user
+    createdBy: '550e8400-e29b-41d4-a716-446655440001', // Normal user
+    assigneeId: '550e8400-e29b-41d4-a716-446655440001',
   },
   {
     id: '660e8400-e29b-41d4-a716-446655440004',
@@ -45,6 +49,7 @@ export const tasks = [
     status: TaskStatus.IN_PROGRESS,
     priority: TaskPriority.MEDIUM,
     dueDate: new Date(new Date().setHours(new Date().getHours() + 5)), // Due in 5 hours
-    userId: '550e8400-e29b-41d4-a716-446655440000', // Admin user
+    createdBy: '550e8400-e29b-41d4-a716-446655440000', // Admin user
+    assigneeId: '550e8400-e29b-41d4-a716-446655440000',
   },
 ]; 
\ No newline at end of file
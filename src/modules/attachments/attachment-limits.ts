@@ -0,0 +1,35 @@
+import { ConfigService } from '@nestjs/config';
+
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+
+const DEFAULT_ALLOWED_TYPES = [
+  'application/json',
+  'application/pdf',
+  'application/zip',
+  'image/gif',
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'text/csv',
+  'text/markdown',
+  'text/plain',
+];
+
+export interface AttachmentLimits {
+  maxBytes: number;
+  allowedTypes: string[];
+}
+
+export function getAttachmentLimits(configService: ConfigService): AttachmentLimits {
+  const allowedTypes = configService.get<string>('ATTACHMENT_ALLOWED_TYPES');
+
+  return {
+    maxBytes: Number(configService.get('ATTACHMENT_MAX_BYTES') ?? DEFAULT_MAX_BYTES),
+    allowedTypes: allowedTypes
+      ? allowedTypes
+          .split(',')
+          .map(type => type.trim().toLowerCase())
+          .filter(Boolean)
+      : DEFAULT_ALLOWED_TYPES,
+  };
+}
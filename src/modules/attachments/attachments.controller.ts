@@ -0,0 +1,93 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Delete,
+  UseGuards,
+  HttpStatus,
+  ParseUUIDPipe,
+  StreamableFile,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiBearerAuth, ApiBody, ApiConsumes, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { JwtAuthGuard } from '@modules/auth/guards/jwt-auth.guard';
+import { CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { AttachmentsService } from './attachments.service';
+
+@ApiTags('attachments')
+@Controller('tasks/:taskId/attachments')
+@UseGuards(JwtAuthGuard, RateLimitGuard)
+@RateLimit({ limit: 100, windowMs: 60000 })
+@ApiBearerAuth()
+export class AttachmentsController {
+  constructor(private readonly attachmentsService: AttachmentsService) {}
+
+  @Post()
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Upload a file to a task' })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: { file: { type: 'string', format: 'binary' } },
+      required: ['file'],
+    },
+  })
+  @UseInterceptors(FileInterceptor('file'))
+  upload(
+    @Param('taskId', ParseUUIDPipe) taskId: string,
+    @UploadedFile() file: Express.Multer.File,
+    @CurrentUser() user: any,
+  ) {
+    return this.attachmentsService.upload(taskId, file, user);
+  }
+
+  @Get()
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'List attachments of a task' })
+  findAll(@Param('taskId', ParseUUIDPipe) taskId: string, @CurrentUser() user: any) {
+    return this.attachmentsService.findForTask(taskId, user);
+  }
+
+  @Get(':attachmentId')
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Download an attachment' })
+  async download(
+    @Param('taskId', ParseUUIDPipe) taskId: string,
+    @Param('attachmentId', ParseUUIDPipe) attachmentId: string,
+    @CurrentUser() user: any,
+  ) {
+    const { attachment, stream } = await this.attachmentsService.download(
+      taskId,
+      attachmentId,
+      user,
+    );
+
+    return new StreamableFile(stream, {
+      type: attachment.contentType,
+      length: attachment.size,
+      disposition: `attachment; filename="${encodeURIComponent(attachment.fileName)}"`,
+    });
+  }
+
+  @Delete(':attachmentId')
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Delete an attachment' })
+  async remove(
+    @Param('taskId', ParseUUIDPipe) taskId: string,
+    @Param('attachmentId', ParseUUIDPipe) attachmentId: string,
+    @CurrentUser() user: any,
+  ) {
+    await this.attachmentsService.remove(taskId, attachmentId, user);
+    return {
+      statusCode: HttpStatus.OK,
+      message: 'Attachment successfully deleted',
+    };
+  }
+}
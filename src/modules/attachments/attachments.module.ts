@@ -0,0 +1,41 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { MulterModule } from '@nestjs/platform-express';
+import { TasksModule } from '../tasks/tasks.module';
+import { AttachmentsService } from './attachments.service';
+import { AttachmentsController } from './attachments.controller';
+import { Attachment } from './entities/attachment.entity';
+import { TypeOrmAttachmentRepository } from './infrastructure/typeorm-attachment.repository';
+import { createStorageDriver } from './infrastructure/storage-driver.factory';
+import { getAttachmentLimits } from './attachment-limits';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Attachment]),
+    TasksModule,
+    MulterModule.registerAsync({
+      imports: [ConfigModule],
+      inject: [ConfigService],
+      // Files are kept in memory only until the storage driver has written them
+      useFactory: (configService: ConfigService) => ({
+        limits: { fileSize: getAttachmentLimits(configService).maxBytes, files: 1 },
+      }),
+    }),
+  ],
+  controllers: [AttachmentsController],
+  providers: [
+    AttachmentsService,
+    {
+      provide: 'IAttachmentRepository',
+      useClass: TypeOrmAttachmentRepository,
+    },
+    {
+      provide: 'IStorageDriver',
+      inject: [ConfigService],
+      useFactory: createStorageDriver,
+    },
+  ],
+  exports: [AttachmentsService],
+})
+export class AttachmentsModule {}
@@ -0,0 +1,142 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  PayloadTooLargeException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { Readable } from 'stream';
+import { TasksService } from '../tasks/tasks.service';
+import { Task } from '../tasks/entities/task.entity';
+import { canEditTask, canViewTask } from '../tasks/policies/task-access.policy';
+import { Attachment } from './entities/attachment.entity';
+import { AttachmentLimits, getAttachmentLimits } from './attachment-limits';
+import type { IAttachmentRepository } from './interfaces/attachment-repository.interface';
+import type { IStorageDriver } from './interfaces/storage-driver.interface';
+import { retry } from '@common/utils/retry';
+
+@Injectable()
+export class AttachmentsService {
+  private readonly limits: AttachmentLimits;
+
+  constructor(
+    @Inject('IAttachmentRepository')
+    private readonly attachmentsRepository: IAttachmentRepository,
+    @Inject('IStorageDriver')
+    private readonly storage: IStorageDriver,
+    private readonly tasksService: TasksService,
+    configService: ConfigService,
+  ) {
+    this.limits = getAttachmentLimits(configService);
+  }
+
+  async upload(taskId: string, file: Express.Multer.File, user: any): Promise<Attachment> {
+    await this.ensureTaskAccess(taskId, user, canEditTask);
+    this.validateFile(file);
+
+    const storageKey = `${taskId}/${randomUUID()}`;
+    await this.storage.put(storageKey, file.buffer, file.mimetype);
+
+    try {
+      const attachment = this.attachmentsRepository.create({
+        taskId,
+        uploadedById: user.id,
+        fileName: file.originalname,
+        contentType: file.mimetype,
+        size: file.size,
+        storageKey,
+      });
+      return await this.attachmentsRepository.save(attachment);
+    } catch (err) {
+      Logger.error(`Failed to save attachment for task ${taskId}:`, err);
+      await this.storage.delete(storageKey).catch(() => undefined);
+      throw err;
+    }
+  }
+
+  async findForTask(taskId: string, user: any): Promise<Attachment[]> {
+    await this.ensureTaskAccess(taskId, user, canViewTask);
+
+    return retry(() =>
+      this.attachmentsRepository.find({ where: { taskId }, order: { createdAt: 'DESC' } }),
+    );
+  }
+
+  async download(
+    taskId: string,
+    attachmentId: string,
+    user: any,
+  ): Promise<{ attachment: Attachment; stream: Readable }> {
+    await this.ensureTaskAccess(taskId, user, canViewTask);
+    const attachment = await this.findAttachment(taskId, attachmentId);
+
+    return { attachment, stream: await this.storage.get(attachment.storageKey) };
+  }
+
+  async remove(taskId: string, attachmentId: string, user: any): Promise<void> {
+    await this.ensureTaskAccess(taskId, user, canEditTask);
+    const attachment = await this.findAttachment(taskId, attachmentId);
+
+    try {
+      await retry(() => this.attachmentsRepository.delete({ id: attachment.id }));
+    } catch (err) {
+      Logger.error(`Failed to delete attachment ${attachmentId}:`, err);
+      throw err;
+    }
+
+    await this.deleteBlobs([attachment.storageKey]);
+  }
+
+  // Deleting a blob that is already gone is a no-op for every driver, so this is safe to retry
+  async deleteBlobs(storageKeys: string[]): Promise<void> {
+    const results = await Promise.allSettled(storageKeys.map(key => this.storage.delete(key)));
+    const failed = results.filter(result => result.status === 'rejected').length;
+
+    if (failed > 0) {
+      throw new Error(`Failed to delete ${failed} of ${storageKeys.length} attachment blob(s)`);
+    }
+  }
+
+  private validateFile(file: Express.Multer.File | undefined): asserts file {
+    if (!file) {
+      throw new BadRequestException('A file must be uploaded in the "file" field');
+    }
+    if (file.size > this.limits.maxBytes) {
+      throw new PayloadTooLargeException(
+        `Attachments may not be larger than ${this.limits.maxBytes} bytes`,
+      );
+    }
+    if (!this.limits.allowedTypes.includes(file.mimetype.toLowerCase())) {
+      throw new UnsupportedMediaTypeException(`Content type ${file.mimetype} is not allowed`);
+    }
+  }
+
+  private async findAttachment(taskId: string, attachmentId: string): Promise<Attachment> {
+    const attachment = await retry(() =>
+      this.attachmentsRepository.findOne({ where: { id: attachmentId, taskId } }),
+    );
+    if (!attachment) {
+      throw new NotFoundException('Attachment not found');
+    }
+    return attachment;
+  }
+
+  private async ensureTaskAccess(
+    taskId: string,
+    user: any,
+    canAccess: (task: Task, user: any) => boolean,
+  ): Promise<Task> {
+    const task = await this.tasksService.findOne(taskId);
+
+    if (!canAccess(task, user)) {
+      throw new ForbiddenException('You are not allowed to access attachments on this task');
+    }
+
+    return task;
+  }
+}
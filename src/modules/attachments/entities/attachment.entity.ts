@@ -0,0 +1,47 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { Task } from '../../tasks/entities/task.entity';
+import { User } from '../../users/entities/user.entity';
+
+@Entity('task_attachments')
+export class Attachment {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column({ name: 'task_id' })
+  taskId: string;
+
+  @ManyToOne(() => Task, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'task_id' })
+  task: Task;
+
+  @Column({ name: 'uploaded_by', type: 'uuid', nullable: true })
+  uploadedById: string | null;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'uploaded_by' })
+  uploadedBy: User | null;
+
+  @Column({ name: 'file_name' })
+  fileName: string;
+
+  @Column({ name: 'content_type' })
+  contentType: string;
+
+  @Column({ type: 'int' })
+  size: number;
+
+  @Column({ name: 'storage_key', unique: true })
+  storageKey: string;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,43 @@
+import { NotFoundException } from '@nestjs/common';
+import { createReadStream } from 'fs';
+import { mkdir, rm, stat, writeFile } from 'fs/promises';
+import { dirname, resolve, sep } from 'path';
+import { Readable } from 'stream';
+import { IStorageDriver } from '../interfaces/storage-driver.interface';
+
+export class LocalStorageDriver implements IStorageDriver {
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = resolve(root);
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const path = this.pathFor(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, body);
+  }
+
+  async get(key: string): Promise<Readable> {
+    const path = this.pathFor(key);
+    try {
+      await stat(path);
+    } catch {
+      throw new NotFoundException('Attachment content not found');
+    }
+    return createReadStream(path);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true });
+  }
+
+  private pathFor(key: string): string {
+    const path = resolve(this.root, key);
+    // Keys are generated server-side, but never let one escape the storage root
+    if (!path.startsWith(this.root + sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path;
+  }
+}
@@ -0,0 +1,26 @@
+import { ConfigService } from '@nestjs/config';
+import { IStorageDriver } from '../interfaces/storage-driver.interface';
+import { LocalStorageDriver } from './local-storage.driver';
+import { S3StorageDriver } from './s3-storage.driver';
+
+export function createStorageDriver(configService: ConfigService): IStorageDriver {
+  const driver = configService.get<string>('STORAGE_DRIVER') ?? 'local';
+
+  switch (driver) {
+    case 'local':
+      return new LocalStorageDriver(
+        configService.get<string>('STORAGE_LOCAL_PATH') ?? './storage/attachments',
+      );
+    case 's3':
+      return new S3StorageDriver({
+        bucket: configService.getOrThrow<string>('S3_BUCKET'),
+        region: configService.get<string>('S3_REGION') ?? 'us-east-1',
+        endpoint: configService.get<string>('S3_ENDPOINT'),
+        accessKeyId: configService.get<string>('S3_ACCESS_KEY_ID'),
+        secretAccessKey: configService.get<string>('S3_SECRET_ACCESS_KEY'),
+        forcePathStyle: configService.get<string>('S3_FORCE_PATH_STYLE') === 'true',
+      });
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER: ${driver}`);
+  }
+}
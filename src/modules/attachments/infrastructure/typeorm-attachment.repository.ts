@@ -0,0 +1,33 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Attachment } from '../entities/attachment.entity';
+import { IAttachmentRepository } from '../interfaces/attachment-repository.interface';
+
+@Injectable()
+export class TypeOrmAttachmentRepository implements IAttachmentRepository {
+  constructor(
+    @InjectRepository(Attachment)
+    private readonly repository: Repository<Attachment>,
+  ) {}
+
+  create(data: Partial<Attachment>): Attachment {
+    return this.repository.create(data);
+  }
+
+  save(attachment: Attachment): Promise<Attachment> {
+    return this.repository.save(attachment);
+  }
+
+  find(options?: any): Promise<Attachment[]> {
+    return this.repository.find(options);
+  }
+
+  findOne(options: any): Promise<Attachment | null> {
+    return this.repository.findOne(options);
+  }
+
+  delete(criteria: any): Promise<any> {
+    return this.repository.delete(criteria);
+  }
+}
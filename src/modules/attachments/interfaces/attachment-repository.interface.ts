@@ -0,0 +1,9 @@
+import { Attachment } from '../entities/attachment.entity';
+
+export interface IAttachmentRepository {
+  create(data: Partial<Attachment>): Attachment;
+  save(attachment: Attachment): Promise<Attachment>;
+  find(options?: any): Promise<Attachment[]>;
+  findOne(options: any): Promise<Attachment | null>;
+  delete(criteria: any): Promise<any>;
+}
@@ -0,0 +1,7 @@
+import { Readable } from 'stream';
+
+export interface IStorageDriver {
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Readable>;
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,117 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  Query,
+  HttpStatus,
+  UsePipes,
+  ValidationPipe,
+  BadRequestException,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { JwtAuthGuard } from '@modules/auth/guards/jwt-auth.guard';
+import { CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { CommentsService } from './comments.service';
+import { CreateCommentDto } from './dto/create-comment.dto';
+import { UpdateCommentDto } from './dto/update-comment.dto';
+
+@ApiTags('comments')
+@Controller('tasks/:taskId/comments')
+@UseGuards(JwtAuthGuard, RateLimitGuard)
+@RateLimit({ limit: 100, windowMs: 60000 })
+@ApiBearerAuth()
+@UsePipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
+export class CommentsController {
+  constructor(private readonly commentsService: CommentsService) {}
+
+  @Post()
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Add a comment or reply to a task' })
+  create(
+    @Param('taskId', ParseUUIDPipe) taskId: string,
+    @Body() createCommentDto: CreateCommentDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.commentsService.create(taskId, createCommentDto, user);
+  }
+
+  @Get()
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'List comments on a task' })
+  @ApiQuery({
+    name: 'parentId',
+    required: false,
+    description: 'List replies to this comment instead of top-level comments',
+  })
+  @ApiQuery({
+    name: 'cursor',
+    required: false,
+    description: 'nextCursor returned with the previous page',
+  })
+  @ApiQuery({ name: 'limit', required: false })
+  async findAll(
+    @Param('taskId', ParseUUIDPipe) taskId: string,
+    @CurrentUser() user: any,
+    @Query('parentId') parentId?: string,
+    @Query('cursor') cursor?: string,
+    @Query('limit') limit?: number,
+  ) {
+    const pageSize = limit ? parseInt(limit as any, 10) : 20;
+    if (isNaN(pageSize) || pageSize <= 0) {
+      throw new BadRequestException('Invalid pagination limit');
+    }
+
+    const cappedPageSize = Math.min(pageSize, 100);
+    const { data, nextCursor, hasMore } = await this.commentsService.findAll(
+      taskId,
+      user,
+      cursor,
+      cappedPageSize,
+      parentId,
+    );
+
+    return {
+      data,
+      count: data.length,
+      limit: cappedPageSize,
+      nextCursor,
+      hasMore,
+    };
+  }
+
+  @Patch(':commentId')
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Edit a comment' })
+  update(
+    @Param('taskId', ParseUUIDPipe) taskId: string,
+    @Param('commentId', ParseUUIDPipe) commentId: string,
+    @Body() updateCommentDto: UpdateCommentDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.commentsService.update(taskId, commentId, updateCommentDto, user);
+  }
+
+  @Delete(':commentId')
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Delete a comment and its replies' })
+  async remove(
+    @Param('taskId', ParseUUIDPipe) taskId: string,
+    @Param('commentId', ParseUUIDPipe) commentId: string,
+    @CurrentUser() user: any,
+  ) {
+    await this.commentsService.remove(taskId, commentId, user);
+    return {
+      statusCode: HttpStatus.OK,
+      message: 'Comment successfully deleted',
+    };
+  }
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { TasksModule } from '../tasks/tasks.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { CommentsService } from './comments.service';
+import { CommentsController } from './comments.controller';
+import { TaskComment } from './entities/task-comment.entity';
+import { TypeOrmCommentRepository } from './infrastructure/typeorm-comment.repository';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([TaskComment]), TasksModule, NotificationsModule],
+  controllers: [CommentsController],
+  providers: [
+    CommentsService,
+    {
+      provide: 'ICommentRepository',
+      useClass: TypeOrmCommentRepository,
+    },
+  ],
+  exports: [CommentsService],
+})
+export class CommentsModule {}
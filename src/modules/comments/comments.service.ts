@@ -0,0 +1,194 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { TasksService } from '../tasks/tasks.service';
+import { Task } from '../tasks/entities/task.entity';
+import { Role } from '../auth/enums/role.enum';
+import { canViewTask } from '../tasks/policies/task-access.policy';
+import { User } from '../users/entities/user.entity';
+import { NotificationsService } from '../notifications/notifications.service';
+import { NotificationType } from '../notifications/enums/notification-type.enum';
+import { TaskComment } from './entities/task-comment.entity';
+import { CreateCommentDto } from './dto/create-comment.dto';
+import { UpdateCommentDto } from './dto/update-comment.dto';
+import type { ICommentRepository } from './interfaces/comment-repository.interface';
+import { extractMentions } from './utils/mentions';
+import { retry } from '@common/utils/retry';
+import { SortKey, applySortAndCursor, toCursorPage } from '@common/utils/cursor-pagination';
+import { CursorPage } from '../../types/pagination.interface';
+
+// Threads read top to bottom, oldest comment first
+const THREAD_SORT: SortKey[] = [{ field: 'createdAt', direction: 'ASC' }];
+
+@Injectable()
+export class CommentsService {
+  constructor(
+    @Inject('ICommentRepository')
+    private readonly commentsRepository: ICommentRepository,
+    private readonly tasksService: TasksService,
+    private readonly notificationsService: NotificationsService,
+  ) {}
+
+  async create(taskId: string, dto: CreateCommentDto, user: any): Promise<TaskComment> {
+    const task = await this.ensureTaskAccess(taskId, user);
+
+    if (dto.parentId) {
+      const parent = await retry(() =>
+        this.commentsRepository.findOne({ where: { id: dto.parentId, taskId } }),
+      );
+      if (!parent) {
+        throw new BadRequestException('Parent comment does not belong to this task');
+      }
+    }
+
+    try {
+      const comment = this.commentsRepository.create({
+        body: dto.body,
+        taskId,
+        authorId: user.id,
+        parentId: dto.parentId ?? null,
+      });
+      const saved = await this.commentsRepository.save(comment);
+      await this.notifyMentions(task, saved, user);
+      return saved;
+    } catch (err) {
+      Logger.error(`Failed to create comment on task ${taskId}:`, err);
+      throw err;
+    }
+  }
+
+  async findAll(
+    taskId: string,
+    user: any,
+    cursor: string | undefined,
+    pageSize: number,
+    parentId?: string,
+  ): Promise<CursorPage<TaskComment>> {
+    await this.ensureTaskAccess(taskId, user);
+
+    const query = this.commentsRepository
+      .createQueryBuilder('comment')
+      .leftJoin('comment.author', 'author')
+      .addSelect(['author.id', 'author.name'])
+      .loadRelationCountAndMap('comment.replyCount', 'comment.replies')
+      .where('comment.taskId = :taskId', { taskId })
+      .take(pageSize + 1);
+
+    if (parentId) {
+      query.andWhere('comment.parentId = :parentId', { parentId });
+    } else {
+      query.andWhere('comment.parentId IS NULL');
+    }
+
+    applySortAndCursor(query, 'comment', THREAD_SORT, cursor);
+
+    try {
+      const comments: TaskComment[] = await retry(() => query.getMany());
+      return toCursorPage(comments, pageSize, THREAD_SORT);
+    } catch (err) {
+      Logger.error(`Error fetching comments for task ${taskId}:`, err);
+      return { data: [], nextCursor: null, hasMore: false };
+    }
+  }
+
+  async update(
+    taskId: string,
+    commentId: string,
+    dto: UpdateCommentDto,
+    user: any,
+  ): Promise<TaskComment> {
+    const task = await this.ensureTaskAccess(taskId, user);
+    const comment = await this.findComment(taskId, commentId);
+
+    if (comment.authorId !== user.id) {
+      throw new ForbiddenException('Only the author can edit this comment');
+    }
+
+    if (comment.body === dto.body) {
+      return comment;
+    }
+
+    comment.body = dto.body;
+    comment.isEdited = true;
+    comment.editedAt = new Date();
+
+    try {
+      const saved = await retry(() => this.commentsRepository.save(comment));
+      await this.notifyMentions(task, saved, user);
+      return saved;
+    } catch (err) {
+      Logger.error(`Failed to update comment ${commentId}:`, err);
+      throw err;
+    }
+  }
+
+  async remove(taskId: string, commentId: string, user: any): Promise<void> {
+    await this.ensureTaskAccess(taskId, user);
+    const comment = await this.findComment(taskId, commentId);
+
+    if (user.role !== Role.Admin && comment.authorId !== user.id) {
+      throw new ForbiddenException('Only the author can delete this comment');
+    }
+
+    try {
+      // Replies are removed by the ON DELETE CASCADE on parent_id
+      await retry(() => this.commentsRepository.delete({ id: comment.id }));
+    } catch (err) {
+      Logger.error(`Failed to delete comment ${commentId}:`, err);
+      throw err;
+    }
+  }
+
+  // Mentioned users who can see the task are told once per comment, however often it is edited
+  private async notifyMentions(task: Task, comment: TaskComment, author: any): Promise<void> {
+    const emails = extractMentions(comment.body);
+    if (emails.length === 0) {
+      return;
+    }
+
+    const users: User[] = await retry(() =>
+      this.commentsRepository.manager
+        .createQueryBuilder(User, 'user')
+        .where('LOWER(user.email) IN (:...emails)', { emails })
+        .getMany(),
+    );
+    await this.notificationsService.notify(
+      users
+        .filter(mentioned => canViewTask(task, mentioned))
+        .map(mentioned => ({
+          userId: mentioned.id,
+          type: NotificationType.MENTIONED,
+          taskId: task.id,
+          actorId: author.id,
+          title: `${author.name ?? 'Someone'} mentioned you on "${task.title}"`,
+          data: { commentId: comment.id },
+          dedupeKey: `mention:${comment.id}`,
+        })),
+    );
+  }
+
+  private async findComment(taskId: string, commentId: string): Promise<TaskComment> {
+    const comment = await retry(() =>
+      this.commentsRepository.findOne({ where: { id: commentId, taskId } }),
+    );
+    if (!comment) {
+      throw new NotFoundException('Comment not found');
+    }
+    return comment;
+  }
+
+  private async ensureTaskAccess(taskId: string, user: any): Promise<Task> {
+    const task = await this.tasksService.findOne(taskId);
+
+    if (!canViewTask(task, user)) {
+      throw new ForbiddenException('You are not allowed to access comments on this task');
+    }
+
+    return task;
+  }
+}
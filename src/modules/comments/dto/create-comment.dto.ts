@@ -0,0 +1,19 @@
+import { IsNotEmpty, IsOptional, IsString, IsUUID, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateCommentDto {
+  @ApiProperty({ example: 'Can we split the API docs into a separate task?' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(10000)
+  body: string;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+    description: 'ID of the comment being replied to',
+  })
+  @IsUUID()
+  @IsOptional()
+  parentId?: string;
+}
@@ -0,0 +1,10 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UpdateCommentDto {
+  @ApiProperty({ example: 'Updated: let us split the API docs into a separate task.' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(10000)
+  body: string;
+}
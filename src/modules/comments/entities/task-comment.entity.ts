@@ -0,0 +1,64 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  OneToMany,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { Task } from '../../tasks/entities/task.entity';
+import { User } from '../../users/entities/user.entity';
+
+@Entity('task_comments')
+export class TaskComment {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'text' })
+  body: string;
+
+  @Index()
+  @Column({ name: 'task_id' })
+  taskId: string;
+
+  @ManyToOne(() => Task, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'task_id' })
+  task: Task;
+
+  @Index()
+  @Column({ name: 'author_id' })
+  authorId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'author_id' })
+  author: User;
+
+  @Index()
+  @Column({ name: 'parent_id', type: 'uuid', nullable: true })
+  parentId: string | null;
+
+  @ManyToOne(() => TaskComment, comment => comment.replies, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'parent_id' })
+  parent: TaskComment | null;
+
+  @OneToMany(() => TaskComment, comment => comment.parent)
+  replies: TaskComment[];
+
+  replyCount?: number;
+
+  @Column({ name: 'is_edited', default: false })
+  isEdited: boolean;
+
+  @Column({ name: 'edited_at', type: 'timestamp', nullable: true })
+  editedAt: Date | null;
+
+  @Index()
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
@@ -0,0 +1,37 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { TaskComment } from '../entities/task-comment.entity';
+import { ICommentRepository } from '../interfaces/comment-repository.interface';
+
+@Injectable()
+export class TypeOrmCommentRepository implements ICommentRepository {
+  constructor(
+    @InjectRepository(TaskComment)
+    private readonly repository: Repository<TaskComment>,
+  ) {}
+
+  create(data: Partial<TaskComment>): TaskComment {
+    return this.repository.create(data);
+  }
+
+  save(comment: TaskComment): Promise<TaskComment> {
+    return this.repository.save(comment);
+  }
+
+  findOne(options: any): Promise<TaskComment | null> {
+    return this.repository.findOne(options);
+  }
+
+  createQueryBuilder(alias: string) {
+    return this.repository.createQueryBuilder(alias);
+  }
+
+  delete(criteria: any): Promise<any> {
+    return this.repository.delete(criteria);
+  }
+
+  get manager() {
+    return this.repository.manager;
+  }
+}
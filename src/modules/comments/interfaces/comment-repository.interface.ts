@@ -0,0 +1,10 @@
+import { TaskComment } from '../entities/task-comment.entity';
+
+export interface ICommentRepository {
+  create(data: Partial<TaskComment>): TaskComment;
+  save(comment: TaskComment): Promise<TaskComment>;
+  findOne(options: any): Promise<TaskComment | null>;
+  createQueryBuilder(alias: string): any;
+  delete(criteria: any): Promise<any>;
+  manager: any;
+}
@@ -0,0 +1,13 @@
+// Users are mentioned by email, e.g. "@jane.doe@example.com". The @ has to start a word so
+// plain email addresses in the text are not taken for mentions.
+const MENTION_PATTERN = /(?:^|[^\w.@+-])@([\w.+-]+@[\w-]+(?:\.[\w-]+)+)/g;
+
+const MAX_MENTIONS = 20;
+
+export function extractMentions(body: string): string[] {
+  const emails = new Set<string>();
+  for (const match of body.matchAll(MENTION_PATTERN)) {
+    emails.add(match[1].replace(/\.+$/, '').toLowerCase());
+  }
+  return [...emails].slice(0, MAX_MENTIONS);
+}
@@ -0,0 +1,87 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  HttpStatus,
+  UsePipes,
+  ValidationPipe,
+  ParseUUIDPipe,
+  ForbiddenException,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { JwtAuthGuard } from '@modules/auth/guards/jwt-auth.guard';
+import { CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { Role } from '@modules/auth/enums/role.enum';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { CustomFieldsService } from './custom-fields.service';
+import { CreateCustomFieldDto } from './dto/create-custom-field.dto';
+import { UpdateCustomFieldDto } from './dto/update-custom-field.dto';
+
+@ApiTags('custom-fields')
+@Controller('custom-fields')
+@UseGuards(JwtAuthGuard, RateLimitGuard)
+@RateLimit({ limit: 100, windowMs: 60000 })
+@ApiBearerAuth()
+@UsePipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
+export class CustomFieldsController {
+  constructor(private readonly customFieldsService: CustomFieldsService) {}
+
+  @Post()
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Define a custom task field (admin only)' })
+  create(@Body() createCustomFieldDto: CreateCustomFieldDto, @CurrentUser() user: any) {
+    this.ensureAdmin(user);
+    return this.customFieldsService.create(createCustomFieldDto);
+  }
+
+  @Get()
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'List custom task fields' })
+  findAll() {
+    return this.customFieldsService.findAll();
+  }
+
+  @Get(':id')
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Find a custom task field by ID' })
+  findOne(@Param('id', ParseUUIDPipe) id: string) {
+    return this.customFieldsService.findOne(id);
+  }
+
+  @Patch(':id')
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Update a custom task field (admin only)' })
+  update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateCustomFieldDto: UpdateCustomFieldDto,
+    @CurrentUser() user: any,
+  ) {
+    this.ensureAdmin(user);
+    return this.customFieldsService.update(id, updateCustomFieldDto);
+  }
+
+  @Delete(':id')
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Delete a custom task field and its values (admin only)' })
+  async remove(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: any) {
+    this.ensureAdmin(user);
+    await this.customFieldsService.remove(id);
+    return {
+      statusCode: HttpStatus.OK,
+      message: 'Custom field successfully deleted',
+    };
+  }
+
+  private ensureAdmin(user: any): void {
+    if (user.role !== Role.Admin) {
+      throw new ForbiddenException('Only admins can manage custom fields');
+    }
+  }
+}
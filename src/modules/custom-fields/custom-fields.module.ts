@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { CustomFieldsService } from './custom-fields.service';
+import { CustomFieldsController } from './custom-fields.controller';
+import { CustomFieldDefinition } from './entities/custom-field-definition.entity';
+import { TypeOrmCustomFieldRepository } from './infrastructure/typeorm-custom-field.repository';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([CustomFieldDefinition])],
+  controllers: [CustomFieldsController],
+  providers: [
+    CustomFieldsService,
+    {
+      provide: 'ICustomFieldRepository',
+      useClass: TypeOrmCustomFieldRepository,
+    },
+  ],
+  exports: [CustomFieldsService],
+})
+export class CustomFieldsModule {}
@@ -0,0 +1,104 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { CustomFieldDefinition } from './entities/custom-field-definition.entity';
+import { CustomFieldType } from './enums/custom-field-type.enum';
+import { CreateCustomFieldDto } from './dto/create-custom-field.dto';
+import { UpdateCustomFieldDto } from './dto/update-custom-field.dto';
+import type { ICustomFieldRepository } from './interfaces/custom-field-repository.interface';
+import { retry } from '@common/utils/retry';
+
+@Injectable()
+export class CustomFieldsService {
+  constructor(
+    @Inject('ICustomFieldRepository')
+    private readonly customFieldsRepository: ICustomFieldRepository,
+  ) {}
+
+  async create(createCustomFieldDto: CreateCustomFieldDto): Promise<CustomFieldDefinition> {
+    this.ensureOptionsMatchType(createCustomFieldDto.type, createCustomFieldDto.options);
+
+    const existing = await retry(() =>
+      this.customFieldsRepository.findOne({ where: { key: createCustomFieldDto.key } }),
+    );
+    if (existing) {
+      throw new ConflictException(`A custom field with key "${createCustomFieldDto.key}" exists`);
+    }
+
+    try {
+      const definition = this.customFieldsRepository.create({
+        ...createCustomFieldDto,
+        options: createCustomFieldDto.options ?? null,
+      });
+      return await this.customFieldsRepository.save(definition);
+    } catch (err) {
+      Logger.error(`Failed to create custom field ${createCustomFieldDto.key}:`, err);
+      throw err;
+    }
+  }
+
+  async findAll(): Promise<CustomFieldDefinition[]> {
+    try {
+      return await retry(() => this.customFieldsRepository.find({ order: { key: 'ASC' } }));
+    } catch (err) {
+      Logger.error('Error fetching custom fields:', err);
+      return [];
+    }
+  }
+
+  async findOne(id: string): Promise<CustomFieldDefinition> {
+    const definition = await retry(() => this.customFieldsRepository.findOne({ where: { id } }));
+    if (!definition) {
+      throw new NotFoundException('Custom field not found');
+    }
+    return definition;
+  }
+
+  async update(
+    id: string,
+    updateCustomFieldDto: UpdateCustomFieldDto,
+  ): Promise<CustomFieldDefinition> {
+    const definition = await this.findOne(id);
+    this.ensureOptionsMatchType(definition.type, updateCustomFieldDto.options);
+
+    try {
+      // Values already stored on tasks are kept when enum options are removed
+      this.customFieldsRepository.merge(definition, updateCustomFieldDto);
+      return await retry(() => this.customFieldsRepository.save(definition));
+    } catch (err) {
+      Logger.error(`Failed to update custom field ${id}:`, err);
+      throw err;
+    }
+  }
+
+  async remove(id: string): Promise<void> {
+    const definition = await this.findOne(id);
+
+    try {
+      await this.customFieldsRepository.manager.transaction(async (manager: any) => {
+        await manager.delete(CustomFieldDefinition, { id });
+        await manager.query(
+          `UPDATE tasks SET custom_fields = custom_fields - $1 WHERE custom_fields ? $1`,
+          [definition.key],
+        );
+      });
+    } catch (err) {
+      Logger.error(`Failed to delete custom field ${id}:`, err);
+      throw err;
+    }
+  }
+
+  private ensureOptionsMatchType(type: CustomFieldType, options: string[] | undefined): void {
+    if (type !== CustomFieldType.ENUM && options !== undefined) {
+      throw new BadRequestException('Only enum fields take options');
+    }
+    if (options && new Set(options).size !== options.length) {
+      throw new BadRequestException('Options must be unique');
+    }
+  }
+}
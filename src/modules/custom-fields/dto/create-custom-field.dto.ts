@@ -0,0 +1,53 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { CustomFieldType } from '../enums/custom-field-type.enum';
+import { CUSTOM_FIELD_KEY_PATTERN } from '../utils/custom-field-values';
+
+export class CreateCustomFieldDto {
+  @ApiProperty({
+    example: 'severity',
+    description: 'Property name in task.customFields: lowercase letters, digits and underscores',
+  })
+  @Matches(CUSTOM_FIELD_KEY_PATTERN, {
+    message: 'key must start with a lowercase letter and contain only a-z, 0-9 and _',
+  })
+  key: string;
+
+  @ApiProperty({ example: 'Severity' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  label: string;
+
+  @ApiProperty({ enum: CustomFieldType, example: CustomFieldType.ENUM })
+  @IsEnum(CustomFieldType)
+  type: CustomFieldType;
+
+  @ApiProperty({
+    example: ['low', 'high', 'critical'],
+    required: false,
+    description: 'Allowed values, required for enum fields',
+  })
+  @ValidateIf(dto => dto.type === CustomFieldType.ENUM || dto.options !== undefined)
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  @MaxLength(100, { each: true })
+  options?: string[];
+
+  @ApiProperty({ required: false, default: false })
+  @IsBoolean()
+  @IsOptional()
+  required?: boolean;
+}
@@ -0,0 +1,7 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { CreateCustomFieldDto } from './create-custom-field.dto';
+
+// Changing the key or type would orphan the values already stored on tasks
+export class UpdateCustomFieldDto extends PartialType(
+  OmitType(CreateCustomFieldDto, ['key', 'type'] as const),
+) {}
@@ -0,0 +1,37 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { CustomFieldType } from '../enums/custom-field-type.enum';
+
+@Entity('custom_field_definitions')
+export class CustomFieldDefinition {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // Name of the property in Task.customFields
+  @Column({ length: 40, unique: true })
+  key: string;
+
+  @Column({ length: 100 })
+  label: string;
+
+  @Column({ type: 'enum', enum: CustomFieldType })
+  type: CustomFieldType;
+
+  // Allowed values of enum fields
+  @Column({ type: 'jsonb', nullable: true })
+  options: string[] | null;
+
+  @Column({ default: false })
+  required: boolean;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
@@ -0,0 +1,8 @@
+export enum CustomFieldType {
+  TEXT = 'text',
+  NUMBER = 'number',
+  DATE = 'date',
+  ENUM = 'enum',
+  BOOLEAN = 'boolean',
+  USER = 'user',
+}
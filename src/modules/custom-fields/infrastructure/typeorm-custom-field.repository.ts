@@ -0,0 +1,44 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { CustomFieldDefinition } from '../entities/custom-field-definition.entity';
+import { ICustomFieldRepository } from '../interfaces/custom-field-repository.interface';
+
+@Injectable()
+export class TypeOrmCustomFieldRepository implements ICustomFieldRepository {
+  constructor(
+    @InjectRepository(CustomFieldDefinition)
+    private readonly repository: Repository<CustomFieldDefinition>,
+  ) {}
+
+  get manager() {
+    return this.repository.manager;
+  }
+
+  create(data: Partial<CustomFieldDefinition>): CustomFieldDefinition {
+    return this.repository.create(data);
+  }
+
+  save(definition: CustomFieldDefinition): Promise<CustomFieldDefinition> {
+    return this.repository.save(definition);
+  }
+
+  findOne(options: any): Promise<CustomFieldDefinition | null> {
+    return this.repository.findOne(options);
+  }
+
+  find(options?: any): Promise<CustomFieldDefinition[]> {
+    return this.repository.find(options);
+  }
+
+  merge(
+    definition: CustomFieldDefinition,
+    data: Partial<CustomFieldDefinition>,
+  ): CustomFieldDefinition {
+    return this.repository.merge(definition, data);
+  }
+
+  delete(criteria: any): Promise<any> {
+    return this.repository.delete(criteria);
+  }
+}
@@ -0,0 +1,14 @@
+import { CustomFieldDefinition } from '../entities/custom-field-definition.entity';
+
+export interface ICustomFieldRepository {
+  create(data: Partial<CustomFieldDefinition>): CustomFieldDefinition;
+  save(definition: CustomFieldDefinition): Promise<CustomFieldDefinition>;
+  findOne(options: any): Promise<CustomFieldDefinition | null>;
+  find(options?: any): Promise<CustomFieldDefinition[]>;
+  merge(
+    definition: CustomFieldDefinition,
+    data: Partial<CustomFieldDefinition>,
+  ): CustomFieldDefinition;
+  delete(criteria: any): Promise<any>;
+  manager: any;
+}
@@ -0,0 +1,98 @@
+import { BadRequestException } from '@nestjs/common';
+import { CustomFieldDefinition } from '../entities/custom-field-definition.entity';
+import { CustomFieldType } from '../enums/custom-field-type.enum';
+
+export type CustomFieldValue = string | number | boolean;
+
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+export const CUSTOM_FIELD_KEY_PATTERN = /^[a-z][a-z0-9_]{0,39}$/;
+
+const MAX_TEXT_LENGTH = 1000;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Applies `changes` on top of `existing`: a null value clears the field. Dates are stored as
+// ISO strings so they sort and compare as text. Throws one BadRequest listing every problem.
+export function mergeCustomFieldValues(
+  definitions: CustomFieldDefinition[],
+  existing: CustomFieldValues,
+  changes: Record<string, unknown>,
+): CustomFieldValues {
+  const byKey = new Map(definitions.map(definition => [definition.key, definition]));
+  const merged: CustomFieldValues = { ...existing };
+  const errors: string[] = [];
+
+  for (const [key, value] of Object.entries(changes)) {
+    const definition = byKey.get(key);
+    if (!definition) {
+      errors.push(`Unknown custom field "${key}"`);
+      continue;
+    }
+    if (value === null) {
+      delete merged[key];
+      continue;
+    }
+
+    const normalized = normalizeValue(definition, value);
+    if (normalized === undefined) {
+      errors.push(`Custom field "${key}" ${describeType(definition)}`);
+    } else {
+      merged[key] = normalized;
+    }
+  }
+
+  for (const definition of definitions) {
+    if (definition.required && merged[definition.key] === undefined) {
+      errors.push(`Custom field "${definition.key}" is required`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new BadRequestException(errors);
+  }
+  return merged;
+}
+
+function normalizeValue(
+  definition: CustomFieldDefinition,
+  value: unknown,
+): CustomFieldValue | undefined {
+  switch (definition.type) {
+    case CustomFieldType.TEXT:
+      return typeof value === 'string' && value.length <= MAX_TEXT_LENGTH ? value : undefined;
+    case CustomFieldType.NUMBER:
+      return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+    case CustomFieldType.BOOLEAN:
+      return typeof value === 'boolean' ? value : undefined;
+    case CustomFieldType.ENUM:
+      return typeof value === 'string' && (definition.options ?? []).includes(value)
+        ? value
+        : undefined;
+    case CustomFieldType.USER:
+      return typeof value === 'string' && UUID_PATTERN.test(value) ? value : undefined;
+    case CustomFieldType.DATE: {
+      if (typeof value !== 'string') {
+        return undefined;
+      }
+      const date = new Date(value);
+      return isNaN(date.getTime()) ? undefined : date.toISOString();
+    }
+  }
+}
+
+function describeType(definition: CustomFieldDefinition): string {
+  switch (definition.type) {
+    case CustomFieldType.TEXT:
+      return `must be a string of at most ${MAX_TEXT_LENGTH} characters`;
+    case CustomFieldType.NUMBER:
+      return 'must be a number';
+    case CustomFieldType.BOOLEAN:
+      return 'must be true or false';
+    case CustomFieldType.ENUM:
+      return `must be one of: ${(definition.options ?? []).join(', ')}`;
+    case CustomFieldType.USER:
+      return 'must be a user id';
+    case CustomFieldType.DATE:
+      return 'must be an ISO 8601 date';
+  }
+}
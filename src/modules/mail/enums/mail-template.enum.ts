@@ -0,0 +1,6 @@
+export enum MailTemplate {
+  ASSIGNMENT = 'assignment',
+  REMINDER = 'reminder',
+  OVERDUE = 'overdue',
+  DIGEST = 'digest',
+}
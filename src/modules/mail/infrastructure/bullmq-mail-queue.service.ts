@@ -0,0 +1,29 @@
+import { InjectQueue } from '@nestjs/bullmq';
+import { Injectable, Logger } from '@nestjs/common';
+import { Queue } from 'bullmq';
+import { IMailQueueService, MailJob } from '../interfaces/mail-queue.interface';
+
+@Injectable()
+export class BullMqMailQueueService implements IMailQueueService {
+  constructor(@InjectQueue('mail') private readonly queue: Queue) {}
+
+  async enqueueMail(job: MailJob, jobId?: string): Promise<void> {
+    try {
+      await this.queue.add('send-mail', job, {
+        jobId,
+        attempts: 8,
+        backoff: {
+          type: 'exponential',
+          delay: 30000,
+        },
+        removeOnComplete: true,
+        removeOnFail: 500,
+      });
+    } catch (error) {
+      Logger.warn(
+        `Failed to enqueue ${job.template} mail:`,
+        error instanceof Error ? error.message : error,
+      );
+    }
+  }
+}
@@ -0,0 +1,26 @@
+import { ConfigService } from '@nestjs/config';
+import { IMailTransport } from '../interfaces/mail-transport.interface';
+import { OutboxMailTransport } from './outbox-mail.transport';
+import { SmtpMailTransport } from './smtp-mail.transport';
+
+export function createMailTransport(configService: ConfigService): IMailTransport {
+  const transport = configService.get<string>('MAIL_TRANSPORT') ?? 'smtp';
+
+  switch (transport) {
+    case 'smtp':
+      return new SmtpMailTransport({
+        host: configService.get<string>('SMTP_HOST') ?? 'localhost',
+        port: Number(configService.get<string>('SMTP_PORT') ?? 1025),
+        secure: configService.get<string>('SMTP_SECURE') === 'true',
+        user: configService.get<string>('SMTP_USER') || undefined,
+        pass: configService.get<string>('SMTP_PASS') || undefined,
+        allowInsecureAuth: configService.get<string>('SMTP_ALLOW_INSECURE_AUTH') === 'true',
+      });
+    case 'outbox':
+      return new OutboxMailTransport(
+        configService.get<string>('MAIL_OUTBOX_PATH') ?? './storage/outbox',
+      );
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${transport}`);
+  }
+}
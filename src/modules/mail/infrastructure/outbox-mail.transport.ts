@@ -0,0 +1,24 @@
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { IMailTransport, MailMessage } from '../interfaces/mail-transport.interface';
+
+// Writes every message to a JSON file instead of sending it, for tests and local runs
+// without an SMTP server. Names start with the send time so they list in order.
+export class OutboxMailTransport implements IMailTransport {
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = resolve(root);
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.root, { recursive: true });
+    const sentAt = new Date();
+    const name = `${sentAt.toISOString().replace(/[:.]/g, '-')}-${randomUUID()}.json`;
+    await writeFile(
+      join(this.root, name),
+      JSON.stringify({ ...message, sentAt: sentAt.toISOString() }, null, 2),
+    );
+  }
+}
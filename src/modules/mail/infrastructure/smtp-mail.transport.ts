@@ -0,0 +1,159 @@
+import { Socket, connect as connectTcp } from 'net';
+import { connect as connectTls } from 'tls';
+import { hostname } from 'os';
+import { IMailTransport, MailMessage } from '../interfaces/mail-transport.interface';
+import { buildMimeMessage, mailboxAddress } from '../utils/mime';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // Implicit TLS (usually port 465); STARTTLS is not supported
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  // Allows AUTH over a plain connection, for local relays only
+  allowInsecureAuth?: boolean;
+  timeoutMs?: number;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+// Speaks just enough SMTP to hand one message to a relay or a local catcher such as
+// MailHog: one connection per message, optional AUTH PLAIN.
+export class SmtpMailTransport implements IMailTransport {
+  constructor(private readonly options: SmtpOptions) {
+    if (options.user && !options.secure && !options.allowInsecureAuth) {
+      throw new Error(
+        'Refusing to send SMTP credentials over an unencrypted connection; enable SMTP_SECURE ' +
+          'or set SMTP_ALLOW_INSECURE_AUTH=true',
+      );
+    }
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const connection = await SmtpConnection.open(this.options);
+    try {
+      await connection.expect(220);
+      const ehlo = await connection.command(`EHLO ${hostname() || 'localhost'}`, 250);
+
+      if (this.options.user) {
+        if (!ehlo.lines.some(line => /^AUTH\b.*\bPLAIN\b/i.test(line))) {
+          throw new Error('SMTP server does not offer AUTH PLAIN');
+        }
+        const credentials = Buffer.from(
+          `\0${this.options.user}\0${this.options.pass ?? ''}`,
+          'utf8',
+        ).toString('base64');
+        await connection.command(`AUTH PLAIN ${credentials}`, 235);
+      }
+
+      await connection.command(`MAIL FROM:<${mailboxAddress(message.from)}>`, 250);
+      await connection.command(`RCPT TO:<${mailboxAddress(message.to)}>`, 250, 251);
+      await connection.command('DATA', 354);
+      // Lines starting with a dot are escaped so they cannot end the message early
+      const body = buildMimeMessage(message).replace(/^\./gm, '..');
+      await connection.command(`${body}\r\n.`, 250);
+      await connection.command('QUIT', 221).catch(() => undefined);
+    } finally {
+      connection.close();
+    }
+  }
+}
+
+class SmtpConnection {
+  private buffer = '';
+  private pending: string[] = [];
+  private waiting: ((reply: SmtpReply) => void) | null = null;
+  private failure: Error | null = null;
+  private failed: ((error: Error) => void) | null = null;
+
+  private constructor(private readonly socket: Socket) {
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => this.receive(chunk));
+    socket.on('error', error => this.fail(error));
+    socket.on('timeout', () => this.fail(new Error('SMTP connection timed out')));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  static open(options: SmtpOptions): Promise<SmtpConnection> {
+    return new Promise((resolve, reject) => {
+      const socket = options.secure
+        ? connectTls({ host: options.host, port: options.port, servername: options.host })
+        : connectTcp({ host: options.host, port: options.port });
+      socket.setTimeout(options.timeoutMs ?? 30000);
+      socket.once(options.secure ? 'secureConnect' : 'connect', () => {
+        socket.off('error', reject);
+        resolve(new SmtpConnection(socket));
+      });
+      socket.once('error', reject);
+    });
+  }
+
+  async command(line: string, ...expected: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(...expected);
+  }
+
+  async expect(...expected: number[]): Promise<SmtpReply> {
+    const reply = await this.nextReply();
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP error ${reply.code}: ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+
+  private nextReply(): Promise<SmtpReply> {
+    const reply = this.takeReply();
+    if (reply) {
+      return Promise.resolve(reply);
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting = resolve;
+      this.failed = reject;
+    });
+  }
+
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+    const lines = this.buffer.split('\r\n');
+    this.buffer = lines.pop() ?? '';
+    this.pending.push(...lines);
+
+    const reply = this.waiting && this.takeReply();
+    if (reply) {
+      const resolve = this.waiting!;
+      this.waiting = this.failed = null;
+      resolve(reply);
+    }
+  }
+
+  // A reply is complete at the line whose code is followed by a space instead of a dash
+  private takeReply(): SmtpReply | null {
+    const last = this.pending.findIndex(line => line.length < 4 || line[3] !== '-');
+    if (last === -1) {
+      return null;
+    }
+    const lines = this.pending.splice(0, last + 1);
+    return { code: Number(lines[last].slice(0, 3)), lines: lines.map(line => line.slice(4)) };
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    this.socket.destroy();
+    if (this.failed) {
+      const reject = this.failed;
+      this.waiting = this.failed = null;
+      reject(error);
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import { MailTemplate } from '../enums/mail-template.enum';
+
+export interface TaskMailData {
+  recipientName: string;
+  taskId: string;
+  taskTitle: string;
+  dueDate?: string | null;
+  actorName?: string | null;
+  offsetMinutes?: number | null;
+}
+
+export interface DigestMailData {
+  recipientName: string;
+  // Unread notifications in the period; `notifications` may list only the newest of them
+  unreadCount: number;
+  notifications: { title: string; taskId: string | null; createdAt: string }[];
+}
+
+export type MailJob =
+  | {
+      template: MailTemplate.ASSIGNMENT | MailTemplate.REMINDER | MailTemplate.OVERDUE;
+      to: string;
+      data: TaskMailData;
+    }
+  | { template: MailTemplate.DIGEST; to: string; data: DigestMailData };
+
+export interface IMailQueueService {
+  // jobId makes the send idempotent: a job with the same id is only queued once
+  enqueueMail(job: MailJob, jobId?: string): Promise<void>;
+}
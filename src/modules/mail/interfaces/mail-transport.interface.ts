@@ -0,0 +1,11 @@
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface IMailTransport {
+  send(message: MailMessage): Promise<void>;
+}
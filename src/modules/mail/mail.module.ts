@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BullModule } from '@nestjs/bullmq';
+import { BullMqMailQueueService } from './infrastructure/bullmq-mail-queue.service';
+import { createMailTransport } from './infrastructure/mail-transport.factory';
+
+@Module({
+  imports: [
+    BullModule.registerQueue({
+      name: 'mail',
+    }),
+  ],
+  providers: [
+    {
+      provide: 'IMailQueueService',
+      useClass: BullMqMailQueueService,
+    },
+    {
+      provide: 'IMailTransport',
+      inject: [ConfigService],
+      useFactory: createMailTransport,
+    },
+  ],
+  exports: ['IMailQueueService', 'IMailTransport'],
+})
+export class MailModule {}
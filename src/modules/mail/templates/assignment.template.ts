@@ -0,0 +1,30 @@
+import { TaskMailData } from '../interfaces/mail-queue.interface';
+import {
+  MailContext,
+  RenderedMail,
+  escapeHtml,
+  formatDate,
+  renderTaskMail,
+  taskUrl,
+} from './layout';
+
+export function renderAssignmentMail(data: TaskMailData, context: MailContext): RenderedMail {
+  const by = data.actorName ? ` by ${data.actorName}` : '';
+  const lines = [
+    {
+      text: `You were assigned "${data.taskTitle}"${by}.`,
+      html: `You were assigned <strong>${escapeHtml(data.taskTitle)}</strong>${escapeHtml(by)}.`,
+    },
+  ];
+  if (data.dueDate) {
+    const due = formatDate(data.dueDate);
+    lines.push({ text: `It is due ${due}.`, html: `It is due ${escapeHtml(due)}.` });
+  }
+
+  return renderTaskMail(
+    `You were assigned "${data.taskTitle}"`,
+    data.recipientName,
+    lines,
+    taskUrl(context, data.taskId),
+  );
+}
@@ -0,0 +1,43 @@
+import { DigestMailData } from '../interfaces/mail-queue.interface';
+import { MailContext, RenderedMail, escapeHtml, formatDate, renderLayout, taskUrl } from './layout';
+
+export function renderDigestMail(data: DigestMailData, context: MailContext): RenderedMail {
+  const count = data.unreadCount;
+  const more = count - data.notifications.length;
+  const subject = `You have ${count} unread notification${count === 1 ? '' : 's'}`;
+  const items = data.notifications.map(notification => ({
+    ...notification,
+    url: notification.taskId ? taskUrl(context, notification.taskId) : null,
+    when: formatDate(notification.createdAt),
+  }));
+
+  return {
+    subject,
+    text: [
+      `Hi ${data.recipientName},`,
+      '',
+      `${subject}:`,
+      '',
+      ...items.map(item => `- ${item.title} (${item.when})${item.url ? `\n  ${item.url}` : ''}`),
+      ...(more > 0 ? [`...and ${more} more`] : []),
+      '',
+      `All notifications: ${context.appUrl}/notifications`,
+    ].join('\n'),
+    html: renderLayout(
+      subject,
+      [
+        `<p>Hi ${escapeHtml(data.recipientName)},</p>`,
+        `<p>${escapeHtml(subject)}:</p>`,
+        '<ul>',
+        ...items.map(item => {
+          const title = escapeHtml(item.title);
+          const link = item.url ? `<a href="${escapeHtml(item.url)}">${title}</a>` : title;
+          return `<li>${link} <span style="color: #888;">${escapeHtml(item.when)}</span></li>`;
+        }),
+        '</ul>',
+        ...(more > 0 ? [`<p>...and ${more} more</p>`] : []),
+        `<p><a href="${escapeHtml(context.appUrl)}/notifications">All notifications</a></p>`,
+      ].join('\n'),
+    ),
+  };
+}
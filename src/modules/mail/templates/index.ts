@@ -0,0 +1,24 @@
+import { MailTemplate } from '../enums/mail-template.enum';
+import { MailJob } from '../interfaces/mail-queue.interface';
+import { MailContext, RenderedMail } from './layout';
+import { renderAssignmentMail } from './assignment.template';
+import { renderReminderMail } from './reminder.template';
+import { renderOverdueMail } from './overdue.template';
+import { renderDigestMail } from './digest.template';
+
+export type { MailContext, RenderedMail } from './layout';
+
+export function renderMail(job: MailJob, context: MailContext): RenderedMail {
+  switch (job.template) {
+    case MailTemplate.ASSIGNMENT:
+      return renderAssignmentMail(job.data, context);
+    case MailTemplate.REMINDER:
+      return renderReminderMail(job.data, context);
+    case MailTemplate.OVERDUE:
+      return renderOverdueMail(job.data, context);
+    case MailTemplate.DIGEST:
+      return renderDigestMail(job.data, context);
+    default:
+      throw new Error(`Unknown mail template: ${(job as MailJob).template}`);
+  }
+}
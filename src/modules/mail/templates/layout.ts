@@ -0,0 +1,65 @@
+import { escapeHtml } from '@common/utils/html';
+
+export { escapeHtml };
+
+export interface RenderedMail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface MailContext {
+  // Base URL links in mails point to, without a trailing slash
+  appUrl: string;
+}
+
+export function taskUrl(context: MailContext, taskId: string): string {
+  return `${context.appUrl}/tasks/${encodeURIComponent(taskId)}`;
+}
+
+// "2026-03-10 14:30 UTC"; mails are read in many time zones, so it is spelled out
+export function formatDate(value: string | Date): string {
+  return `${new Date(value).toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+// Wraps the body of a mail in the shared HTML skeleton. `body` must already be escaped.
+export function renderLayout(subject: string, body: string): string {
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head><meta charset="utf-8">',
+    `<title>${escapeHtml(subject)}</title></head>`,
+    '<body style="font-family: Arial, sans-serif; color: #222; line-height: 1.5;">',
+    body,
+    '<p style="color: #888; font-size: 12px;">You receive this mail because of your task notifications.</p>',
+    '</body>',
+    '</html>',
+  ].join('\n');
+}
+
+// A mail about a single task: the text version keeps the same lines as the HTML one
+export function renderTaskMail(
+  subject: string,
+  recipientName: string,
+  lines: { text: string; html: string }[],
+  url: string,
+): RenderedMail {
+  return {
+    subject,
+    text: [
+      `Hi ${recipientName},`,
+      '',
+      ...lines.map(line => line.text),
+      '',
+      `View the task: ${url}`,
+    ].join('\n'),
+    html: renderLayout(
+      subject,
+      [
+        `<p>Hi ${escapeHtml(recipientName)},</p>`,
+        ...lines.map(line => `<p>${line.html}</p>`),
+        `<p><a href="${escapeHtml(url)}">View the task</a></p>`,
+      ].join('\n'),
+    ),
+  };
+}
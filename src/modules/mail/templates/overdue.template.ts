@@ -0,0 +1,25 @@
+import { TaskMailData } from '../interfaces/mail-queue.interface';
+import {
+  MailContext,
+  RenderedMail,
+  escapeHtml,
+  formatDate,
+  renderTaskMail,
+  taskUrl,
+} from './layout';
+
+export function renderOverdueMail(data: TaskMailData, context: MailContext): RenderedMail {
+  const since = data.dueDate ? ` since ${formatDate(data.dueDate)}` : '';
+
+  return renderTaskMail(
+    `"${data.taskTitle}" is overdue`,
+    data.recipientName,
+    [
+      {
+        text: `"${data.taskTitle}" has been overdue${since}.`,
+        html: `<strong>${escapeHtml(data.taskTitle)}</strong> has been overdue${escapeHtml(since)}.`,
+      },
+    ],
+    taskUrl(context, data.taskId),
+  );
+}
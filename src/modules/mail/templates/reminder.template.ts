@@ -0,0 +1,27 @@
+import { TaskMailData } from '../interfaces/mail-queue.interface';
+import { describeReminderOffset } from '../../tasks/utils/due-reminders';
+import {
+  MailContext,
+  RenderedMail,
+  escapeHtml,
+  formatDate,
+  renderTaskMail,
+  taskUrl,
+} from './layout';
+
+export function renderReminderMail(data: TaskMailData, context: MailContext): RenderedMail {
+  const dueIn = data.offsetMinutes ? ` in ${describeReminderOffset(data.offsetMinutes)}` : ' soon';
+  const due = data.dueDate ? ` (${formatDate(data.dueDate)})` : '';
+
+  return renderTaskMail(
+    `"${data.taskTitle}" is due${dueIn}`,
+    data.recipientName,
+    [
+      {
+        text: `Your task "${data.taskTitle}" is due${dueIn}${due}.`,
+        html: `Your task <strong>${escapeHtml(data.taskTitle)}</strong> is due${escapeHtml(dueIn + due)}.`,
+      },
+    ],
+    taskUrl(context, data.taskId),
+  );
+}
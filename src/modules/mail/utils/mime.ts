@@ -0,0 +1,55 @@
+import { randomUUID } from 'crypto';
+import { MailMessage } from '../interfaces/mail-transport.interface';
+
+// Builds a multipart/alternative message with a plain-text and an HTML part. Bodies are
+// base64 encoded, so only header values need care.
+export function buildMimeMessage(message: MailMessage, date = new Date()): string {
+  const boundary = `=_${randomUUID()}`;
+  const domain = mailboxAddress(message.from).split('@')[1] ?? 'localhost';
+
+  return [
+    `From: ${headerValue(message.from)}`,
+    `To: ${headerValue(message.to)}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    ...bodyPart('text/plain', message.text),
+    `--${boundary}`,
+    ...bodyPart('text/html', message.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+// "Jane <jane@example.com>" -> "jane@example.com"
+export function mailboxAddress(address: string): string {
+  const match = /<([^>]+)>/.exec(address);
+  return (match ? match[1] : address).trim();
+}
+
+function bodyPart(contentType: string, body: string): string[] {
+  const encoded = Buffer.from(body, 'utf8').toString('base64');
+  return [
+    `Content-Type: ${contentType}; charset=utf-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    ...(encoded.match(/.{1,76}/g) ?? []),
+  ];
+}
+
+// Line breaks in a header value would start a new header
+function headerValue(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ');
+}
+
+function encodeHeader(value: string): string {
+  const flat = headerValue(value);
+  if (/^[\x20-\x7e]*$/.test(flat)) {
+    return flat;
+  }
+  return `=?UTF-8?B?${Buffer.from(flat, 'utf8').toString('base64')}?=`;
+}
@@ -0,0 +1,67 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  Unique,
+} from 'typeorm';
+import { Exclude } from 'class-transformer';
+import { User } from '../../users/entities/user.entity';
+import { Task } from '../../tasks/entities/task.entity';
+import { NotificationType } from '../enums/notification-type.enum';
+
+@Entity('notifications')
+@Index('IDX_notifications_user_created_at', ['userId', 'createdAt'])
+@Index('IDX_notifications_unread', ['userId'], { where: '"read_at" IS NULL' })
+@Unique('UQ_notifications_dedupe_key', ['userId', 'dedupeKey'])
+export class Notification {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // The recipient; nobody else ever sees the notification
+  @Column({ name: 'user_id' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Column({ type: 'enum', enum: NotificationType })
+  type: NotificationType;
+
+  @Column({ name: 'task_id', type: 'uuid', nullable: true })
+  taskId: string | null;
+
+  @ManyToOne(() => Task, { nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'task_id' })
+  task: Task | null;
+
+  // Who caused it; null for the system
+  @Column({ name: 'actor_id', type: 'uuid', nullable: true })
+  actorId: string | null;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'actor_id' })
+  actor: User | null;
+
+  @Column({ type: 'varchar', length: 300 })
+  title: string;
+
+  @Column({ type: 'jsonb', default: {} })
+  data: Record<string, unknown>;
+
+  // Events that may be reported more than once, like a task being overdue, carry a key so each
+  // recipient is told only once
+  @Exclude({ toPlainOnly: true })
+  @Column({ name: 'dedupe_key', type: 'varchar', length: 200, nullable: true })
+  dedupeKey: string | null;
+
+  @Column({ name: 'read_at', type: 'timestamp', nullable: true })
+  readAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
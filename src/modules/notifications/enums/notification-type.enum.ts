@@ -0,0 +1,8 @@
+export enum NotificationType {
+  ASSIGNED = 'assigned',
+  DUE_SOON = 'due_soon',
+  OVERDUE = 'overdue',
+  ESCALATED = 'escalated',
+  STATUS_CHANGED = 'status_changed',
+  MENTIONED = 'mentioned',
+}
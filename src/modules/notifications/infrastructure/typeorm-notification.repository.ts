@@ -0,0 +1,37 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Notification } from '../entities/notification.entity';
+import { INotificationRepository } from '../interfaces/notification-repository.interface';
+
+@Injectable()
+export class TypeOrmNotificationRepository implements INotificationRepository {
+  constructor(
+    @InjectRepository(Notification)
+    private readonly repository: Repository<Notification>,
+  ) {}
+
+  findOne(options: any): Promise<Notification | null> {
+    return this.repository.findOne(options);
+  }
+
+  save(notification: Notification): Promise<Notification> {
+    return this.repository.save(notification);
+  }
+
+  count(options?: any): Promise<number> {
+    return this.repository.count(options);
+  }
+
+  update(criteria: any, partialEntity: any): Promise<any> {
+    return this.repository.update(criteria, partialEntity);
+  }
+
+  createQueryBuilder(alias: string) {
+    return this.repository.createQueryBuilder(alias);
+  }
+
+  get manager() {
+    return this.repository.manager;
+  }
+}
@@ -0,0 +1,10 @@
+import { Notification } from '../entities/notification.entity';
+
+export interface INotificationRepository {
+  findOne(options: any): Promise<Notification | null>;
+  save(notification: Notification): Promise<Notification>;
+  count(options?: any): Promise<number>;
+  update(criteria: any, partialEntity: any): Promise<any>;
+  createQueryBuilder(alias: string): any;
+  manager: any;
+}
@@ -0,0 +1,80 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Param,
+  Query,
+  UseGuards,
+  UsePipes,
+  ValidationPipe,
+  ParseUUIDPipe,
+  BadRequestException,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { JwtAuthGuard } from '@modules/auth/guards/jwt-auth.guard';
+import { CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { MAX_PAGE_SIZE } from '@common/utils/offset-pagination';
+import { NotificationsService } from './notifications.service';
+
+@ApiTags('notifications')
+@Controller('notifications')
+@UseGuards(JwtAuthGuard, RateLimitGuard)
+@RateLimit({ limit: 100, windowMs: 60000 })
+@ApiBearerAuth()
+@UsePipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
+export class NotificationsController {
+  constructor(private readonly notificationsService: NotificationsService) {}
+
+  @Get()
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'List your notifications, newest first' })
+  @ApiQuery({ name: 'unread', required: false, description: 'Only list unread notifications' })
+  @ApiQuery({
+    name: 'cursor',
+    required: false,
+    description: 'nextCursor returned with the previous page',
+  })
+  @ApiQuery({ name: 'limit', required: false })
+  findAll(
+    @CurrentUser() user: any,
+    @Query('unread') unread?: string,
+    @Query('cursor') cursor?: string,
+    @Query('limit') limit?: number,
+  ) {
+    const pageSize = limit ? parseInt(limit as any, 10) : 20;
+    if (isNaN(pageSize) || pageSize <= 0) {
+      throw new BadRequestException('Invalid pagination limit');
+    }
+    return this.notificationsService.findAll(
+      user.id,
+      Math.min(pageSize, MAX_PAGE_SIZE),
+      cursor,
+      unread === 'true',
+    );
+  }
+
+  @Get('unread-count')
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Count your unread notifications' })
+  async countUnread(@CurrentUser() user: any) {
+    return { count: await this.notificationsService.countUnread(user.id) };
+  }
+
+  @Post('read-all')
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Mark all of your notifications as read' })
+  async markAllRead(@CurrentUser() user: any) {
+    return { updated: await this.notificationsService.markAllRead(user.id) };
+  }
+
+  @Patch(':id/read')
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Mark a notification as read' })
+  markRead(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: any) {
+    return this.notificationsService.markRead(user.id, id);
+  }
+}
@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { NotificationsService } from './notifications.service';
+import { NotificationsController } from './notifications.controller';
+import { Notification } from './entities/notification.entity';
+import { TypeOrmNotificationRepository } from './infrastructure/typeorm-notification.repository';
+import { MailModule } from '../mail/mail.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Notification]), MailModule],
+  controllers: [NotificationsController],
+  providers: [
+    NotificationsService,
+    {
+      provide: 'INotificationRepository',
+      useClass: TypeOrmNotificationRepository,
+    },
+  ],
+  exports: [NotificationsService],
+})
+export class NotificationsModule {}
@@ -0,0 +1,272 @@
+import { Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { In, IsNull } from 'typeorm';
+import { Notification } from './entities/notification.entity';
+import { NotificationType } from './enums/notification-type.enum';
+import type { INotificationRepository } from './interfaces/notification-repository.interface';
+import { User } from '../users/entities/user.entity';
+import { Task } from '../tasks/entities/task.entity';
+import { MailTemplate } from '../mail/enums/mail-template.enum';
+import type { IMailQueueService } from '../mail/interfaces/mail-queue.interface';
+import { SortKey, applySortAndCursor, toCursorPage } from '@common/utils/cursor-pagination';
+import { retry } from '@common/utils/retry';
+import { CursorPage } from '../../types/pagination.interface';
+
+export interface NewNotification {
+  userId: string;
+  type: NotificationType;
+  title: string;
+  taskId?: string | null;
+  actorId?: string | null;
+  data?: Record<string, unknown>;
+  dedupeKey?: string | null;
+}
+
+const INBOX_SORT: SortKey[] = [{ field: 'createdAt', direction: 'DESC' }];
+
+// Notifications that are also sent by email right away; the rest only show up in the digest
+const EMAIL_TEMPLATES: Partial<
+  Record<NotificationType, MailTemplate.ASSIGNMENT | MailTemplate.REMINDER | MailTemplate.OVERDUE>
+> = {
+  [NotificationType.ASSIGNED]: MailTemplate.ASSIGNMENT,
+  [NotificationType.DUE_SOON]: MailTemplate.REMINDER,
+  [NotificationType.OVERDUE]: MailTemplate.OVERDUE,
+  [NotificationType.ESCALATED]: MailTemplate.OVERDUE,
+};
+
+const DIGEST_MAX_ITEMS = 20;
+
+@Injectable()
+export class NotificationsService {
+  constructor(
+    @Inject('INotificationRepository')
+    private readonly notificationsRepository: INotificationRepository,
+    @Inject('IMailQueueService')
+    private readonly mailQueueService: IMailQueueService,
+  ) {}
+
+  // Nobody is notified about their own actions. Pass the manager of a running transaction to
+  // write the notifications together with the change they report; emails are then left to the
+  // caller, who passes the returned rows to sendEmails once the transaction has committed.
+  async notify(notifications: NewNotification[], manager?: any): Promise<NewNotification[]> {
+    const recipients = new Set<string>();
+    const rows = notifications.filter(notification => {
+      if (notification.userId === notification.actorId || recipients.has(notification.userId)) {
+        return false;
+      }
+      recipients.add(notification.userId);
+      return true;
+    });
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const entityManager = manager ?? this.notificationsRepository.manager;
+    let inserted: string[];
+    try {
+      const result = await entityManager
+        .createQueryBuilder()
+        .insert()
+        .into(Notification)
+        .values(
+          rows.map(row => ({
+            ...row,
+            taskId: row.taskId ?? null,
+            actorId: row.actorId ?? null,
+            data: row.data ?? {},
+            dedupeKey: row.dedupeKey ?? null,
+          })),
+        )
+        .orIgnore()
+        .returning(['userId'])
+        .execute();
+      // Raw rows carry column names; duplicates skipped by the dedupe key are not returned
+      inserted = (result.raw as { user_id: string }[]).map(row => row.user_id);
+    } catch (err) {
+      Logger.error(`Failed to write ${rows.length} notification(s):`, err);
+      throw err;
+    }
+
+    const created = rows.filter(row => inserted.includes(row.userId));
+    if (!manager) {
+      await this.sendEmails(created);
+    }
+    return created;
+  }
+
+  // Only queues the mails, sending happens on the mail queue. Notifications are already
+  // stored at this point, so failures are logged rather than thrown.
+  async sendEmails(notifications: NewNotification[]): Promise<void> {
+    const emailed = notifications.filter(row => EMAIL_TEMPLATES[row.type] && row.taskId);
+    if (emailed.length === 0) {
+      return;
+    }
+
+    try {
+      await this.enqueueEmails(emailed);
+    } catch (error) {
+      Logger.warn(
+        `Failed to queue ${emailed.length} notification email(s):`,
+        error instanceof Error ? error.message : error,
+      );
+    }
+  }
+
+  private async enqueueEmails(emailed: NewNotification[]): Promise<void> {
+    const manager = this.notificationsRepository.manager;
+
+    const userIds = [
+      ...new Set(emailed.flatMap(row => (row.actorId ? [row.userId, row.actorId] : [row.userId]))),
+    ];
+    const taskIds = [...new Set(emailed.map(row => row.taskId!))];
+    const [users, tasks]: [User[], Task[]] = await Promise.all([
+      retry<User[]>(() =>
+        manager.find(User, {
+          select: { id: true, email: true, name: true },
+          where: { id: In(userIds) },
+        }),
+      ),
+      retry<Task[]>(() =>
+        manager.find(Task, {
+          select: { id: true, title: true, dueDate: true },
+          where: { id: In(taskIds) },
+          withDeleted: true,
+        }),
+      ),
+    ]);
+    const usersById = new Map(users.map(user => [user.id, user]));
+    const tasksById = new Map(tasks.map(task => [task.id, task]));
+
+    for (const row of emailed) {
+      const recipient = usersById.get(row.userId);
+      const task = tasksById.get(row.taskId!);
+      if (!recipient?.email || !task) {
+        continue;
+      }
+      const offsetMinutes = row.data?.offsetMinutes;
+      await this.mailQueueService.enqueueMail(
+        {
+          template: EMAIL_TEMPLATES[row.type]!,
+          to: recipient.email,
+          data: {
+            recipientName: recipient.name,
+            taskId: task.id,
+            taskTitle: task.title,
+            dueDate: task.dueDate ? new Date(task.dueDate).toISOString() : null,
+            actorName: row.actorId ? (usersById.get(row.actorId)?.name ?? null) : null,
+            offsetMinutes: typeof offsetMinutes === 'number' ? offsetMinutes : null,
+          },
+        },
+        row.dedupeKey ? `mail:${row.userId}:${row.dedupeKey}` : undefined,
+      );
+    }
+  }
+
+  // Queues one mail per user with unread notifications created since `since`. The job id
+  // includes the day, so running it twice on the same day sends nothing new.
+  async sendDigests(since: Date, now = new Date()): Promise<number> {
+    let notifications: Notification[];
+    try {
+      notifications = await retry<Notification[]>(() =>
+        this.notificationsRepository
+          .createQueryBuilder('notification')
+          .innerJoinAndSelect('notification.user', 'user')
+          .where('notification.readAt IS NULL')
+          .andWhere('notification.createdAt >= :since', { since })
+          .orderBy('notification.userId')
+          .addOrderBy('notification.createdAt', 'DESC')
+          .getMany(),
+      );
+    } catch (err) {
+      Logger.error('Error fetching notifications for the digest:', err);
+      throw err;
+    }
+
+    const byUser = new Map<string, Notification[]>();
+    for (const notification of notifications) {
+      byUser.set(notification.userId, [...(byUser.get(notification.userId) ?? []), notification]);
+    }
+
+    const day = now.toISOString().slice(0, 10);
+    for (const [userId, unread] of byUser) {
+      const { user } = unread[0];
+      await this.mailQueueService.enqueueMail(
+        {
+          template: MailTemplate.DIGEST,
+          to: user.email,
+          data: {
+            recipientName: user.name,
+            unreadCount: unread.length,
+            notifications: unread.slice(0, DIGEST_MAX_ITEMS).map(notification => ({
+              title: notification.title,
+              taskId: notification.taskId,
+              createdAt: notification.createdAt.toISOString(),
+            })),
+          },
+        },
+        `digest:${userId}:${day}`,
+      );
+    }
+    return byUser.size;
+  }
+
+  async findAll(
+    userId: string,
+    pageSize: number,
+    cursor?: string,
+    unreadOnly = false,
+  ): Promise<CursorPage<Notification>> {
+    const query = this.notificationsRepository
+      .createQueryBuilder('notification')
+      .where('notification.userId = :userId', { userId })
+      .take(pageSize + 1);
+
+    if (unreadOnly) {
+      query.andWhere('notification.readAt IS NULL');
+    }
+    applySortAndCursor(query, 'notification', INBOX_SORT, cursor);
+
+    try {
+      const notifications = await retry<Notification[]>(() => query.getMany());
+      return toCursorPage(notifications, pageSize, INBOX_SORT);
+    } catch (err) {
+      Logger.error(`Error fetching notifications of user ${userId}:`, err);
+      throw err;
+    }
+  }
+
+  async countUnread(userId: string): Promise<number> {
+    return retry(() => this.notificationsRepository.count({ where: { userId, readAt: IsNull() } }));
+  }
+
+  async markRead(userId: string, id: string): Promise<Notification> {
+    const notification = await retry(() =>
+      this.notificationsRepository.findOne({ where: { id, userId } }),
+    );
+    if (!notification) {
+      throw new NotFoundException('Notification not found');
+    }
+    if (notification.readAt) {
+      return notification;
+    }
+
+    notification.readAt = new Date();
+    try {
+      return await retry(() => this.notificationsRepository.save(notification));
+    } catch (err) {
+      Logger.error(`Failed to mark notification ${id} as read:`, err);
+      throw err;
+    }
+  }
+
+  async markAllRead(userId: string): Promise<number> {
+    try {
+      const result = await retry(() =>
+        this.notificationsRepository.update({ userId, readAt: IsNull() }, { readAt: new Date() }),
+      );
+      return result.affected ?? 0;
+    } catch (err) {
+      Logger.error(`Failed to mark notifications of user ${userId} as read:`, err);
+      throw err;
+    }
+  }
+}
@@ -0,0 +1,15 @@
+import { IsEnum, IsNotEmpty, IsOptional, IsUUID } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { ProjectRole } from '../enums/project-role.enum';
+
+export class AddProjectMemberDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  @IsUUID()
+  @IsNotEmpty()
+  userId: string;
+
+  @ApiProperty({ enum: ProjectRole, example: ProjectRole.Member, required: false })
+  @IsEnum(ProjectRole)
+  @IsOptional()
+  role?: ProjectRole;
+}
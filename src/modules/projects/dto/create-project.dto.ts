@@ -0,0 +1,15 @@
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateProjectDto {
+  @ApiProperty({ example: 'Website relaunch' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  name: string;
+
+  @ApiProperty({ example: 'Everything needed to ship the new marketing site', required: false })
+  @IsString()
+  @IsOptional()
+  description?: string;
+}
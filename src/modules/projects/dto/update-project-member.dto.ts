@@ -0,0 +1,9 @@
+import { IsEnum } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { ProjectRole } from '../enums/project-role.enum';
+
+export class UpdateProjectMemberDto {
+  @ApiProperty({ enum: ProjectRole, example: ProjectRole.Manager })
+  @IsEnum(ProjectRole)
+  role: ProjectRole;
+}
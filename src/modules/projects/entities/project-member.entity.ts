@@ -0,0 +1,47 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  Unique,
+} from 'typeorm';
+import type { Relation } from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { ProjectRole } from '../enums/project-role.enum';
+import { Project } from './project.entity';
+
+@Entity('project_members')
+@Unique('UQ_project_members_project_user', ['projectId', 'userId'])
+export class ProjectMember {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column({ name: 'project_id' })
+  projectId: string;
+
+  @ManyToOne(() => Project, project => project.members, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'project_id' })
+  project: Relation<Project>;
+
+  @Index()
+  @Column({ name: 'user_id' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Column({
+    type: 'enum',
+    enum: ProjectRole,
+    default: ProjectRole.Member,
+  })
+  role: ProjectRole;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,6 @@
+export enum ProjectRole {
+  Owner = 'owner',
+  Manager = 'manager',
+  Member = 'member',
+  Viewer = 'viewer',
+}
@@ -0,0 +1,41 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Project } from '../entities/project.entity';
+import { IProjectRepository } from '../interfaces/project-repository.interface';
+
+@Injectable()
+export class TypeOrmProjectRepository implements IProjectRepository {
+  constructor(
+    @InjectRepository(Project)
+    private readonly repository: Repository<Project>,
+  ) {}
+
+  create(data: Partial<Project>): Project {
+    return this.repository.create(data);
+  }
+
+  merge(project: Project, data: Partial<Project>): Project {
+    return this.repository.merge(project, data);
+  }
+
+  save(project: Project): Promise<Project> {
+    return this.repository.save(project);
+  }
+
+  findOne(options: any): Promise<Project | null> {
+    return this.repository.findOne(options);
+  }
+
+  createQueryBuilder(alias: string) {
+    return this.repository.createQueryBuilder(alias);
+  }
+
+  delete(criteria: any): Promise<any> {
+    return this.repository.delete(criteria);
+  }
+
+  get manager() {
+    return this.repository.manager;
+  }
+}
@@ -0,0 +1,11 @@
+import { Project } from '../entities/project.entity';
+
+export interface IProjectRepository {
+  create(data: Partial<Project>): Project;
+  merge(project: Project, data: Partial<Project>): Project;
+  save(project: Project): Promise<Project>;
+  findOne(options: any): Promise<Project | null>;
+  createQueryBuilder(alias: string): any;
+  delete(criteria: any): Promise<any>;
+  manager: any;
+}
@@ -0,0 +1,190 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  Query,
+  HttpStatus,
+  UsePipes,
+  ValidationPipe,
+  ParseUUIDPipe,
+  BadRequestException,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { JwtAuthGuard } from '@modules/auth/guards/jwt-auth.guard';
+import { CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { TasksService } from '../tasks/tasks.service';
+import { TaskFilterDto } from '../tasks/dto/task-filter.dto';
+import { TaskStatus } from '../tasks/enums/task-status.enum';
+import { TaskPriority } from '../tasks/enums/task-priority.enum';
+import { TagMatchMode } from '../tasks/enums/tag-match-mode.enum';
+import { parseTaskSort } from '../tasks/utils/task-sort';
+import { ProjectsService } from './projects.service';
+import { CreateProjectDto } from './dto/create-project.dto';
+import { UpdateProjectDto } from './dto/update-project.dto';
+import { AddProjectMemberDto } from './dto/add-project-member.dto';
+import { UpdateProjectMemberDto } from './dto/update-project-member.dto';
+
+@ApiTags('projects')
+@Controller('projects')
+@UseGuards(JwtAuthGuard, RateLimitGuard)
+@RateLimit({ limit: 100, windowMs: 60000 })
+@ApiBearerAuth()
+@UsePipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
+export class ProjectsController {
+  constructor(
+    private readonly projectsService: ProjectsService,
+    private readonly tasksService: TasksService,
+  ) {}
+
+  @Post()
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Create a project owned by the current user' })
+  create(@Body() createProjectDto: CreateProjectDto, @CurrentUser() user: any) {
+    return this.projectsService.create(user.id, createProjectDto);
+  }
+
+  @Get()
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'List projects you are a member of' })
+  findAll(@CurrentUser() user: any) {
+    return this.projectsService.findAllForUser(user);
+  }
+
+  @Get(':id')
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Find a project by ID' })
+  findOne(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: any) {
+    return this.projectsService.findOne(id, user);
+  }
+
+  @Patch(':id')
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Update a project' })
+  update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateProjectDto: UpdateProjectDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.projectsService.update(id, user, updateProjectDto);
+  }
+
+  @Delete(':id')
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Delete a project; its tasks are kept without a project' })
+  async remove(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: any) {
+    await this.projectsService.remove(id, user);
+    return {
+      statusCode: HttpStatus.OK,
+      message: 'Project successfully deleted',
+    };
+  }
+
+  @Post(':id/members')
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Add a member to a project' })
+  addMember(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() addMemberDto: AddProjectMemberDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.projectsService.addMember(id, user, addMemberDto);
+  }
+
+  @Patch(':id/members/:userId')
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: "Change a project member's role" })
+  updateMember(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('userId', ParseUUIDPipe) memberUserId: string,
+    @Body() updateMemberDto: UpdateProjectMemberDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.projectsService.updateMember(id, memberUserId, user, updateMemberDto);
+  }
+
+  @Delete(':id/members/:userId')
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Remove a member from a project' })
+  async removeMember(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('userId', ParseUUIDPipe) memberUserId: string,
+    @CurrentUser() user: any,
+  ) {
+    await this.projectsService.removeMember(id, memberUserId, user);
+    return {
+      statusCode: HttpStatus.OK,
+      message: 'Member successfully removed',
+    };
+  }
+
+  @Get(':id/tasks')
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'List tasks in a project with optional filtering' })
+  @ApiQuery({ name: 'status', required: false })
+  @ApiQuery({ name: 'priority', required: false })
+  @ApiQuery({
+    name: 'cursor',
+    required: false,
+    description: 'nextCursor returned with the previous page',
+  })
+  @ApiQuery({ name: 'limit', required: false })
+  @ApiQuery({ name: 'sort', required: false, description: 'Same format as GET /tasks' })
+  @ApiQuery({ name: 'tags', required: false, description: 'Comma-separated tag IDs' })
+  @ApiQuery({ name: 'tagMatch', required: false, enum: TagMatchMode })
+  @ApiQuery({
+    name: 'assignee',
+    required: false,
+    description: 'Assignee user ID, "me" or "none" for unassigned tasks',
+  })
+  async findTasks(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: any,
+    @Query('status') status?: string,
+    @Query('priority') priority?: string,
+    @Query('cursor') cursor?: string,
+    @Query('limit') limit?: number,
+    @Query('tags') tags?: string,
+    @Query('tagMatch') tagMatch?: string,
+    @Query('assignee') assignee?: string,
+    @Query('sort') sort?: string,
+  ) {
+    const pageSize = limit ? parseInt(limit as any, 10) : 10;
+    if (isNaN(pageSize) || pageSize <= 0) {
+      throw new BadRequestException('Invalid pagination limit');
+    }
+
+    await this.projectsService.findOne(id, user);
+
+    const filter: TaskFilterDto = {
+      status: status as TaskStatus,
+      priority: priority as TaskPriority,
+      tags: tags ? tags.split(',').filter(Boolean) : undefined,
+      tagMatch: tagMatch as TagMatchMode,
+      assignee: assignee === 'me' ? user.id : assignee,
+    };
+
+    const { data, nextCursor, hasMore } = await this.tasksService.findAllByProject(
+      id,
+      filter,
+      parseTaskSort(sort),
+      cursor,
+      Math.min(pageSize, 100),
+    );
+
+    return {
+      data,
+      count: data.length,
+      limit: pageSize,
+      nextCursor,
+      hasMore,
+    };
+  }
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { TasksModule } from '../tasks/tasks.module';
+import { ProjectsService } from './projects.service';
+import { ProjectsController } from './projects.controller';
+import { Project } from './entities/project.entity';
+import { ProjectMember } from './entities/project-member.entity';
+import { TypeOrmProjectRepository } from './infrastructure/typeorm-project.repository';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Project, ProjectMember]), TasksModule],
+  controllers: [ProjectsController],
+  providers: [
+    ProjectsService,
+    {
+      provide: 'IProjectRepository',
+      useClass: TypeOrmProjectRepository,
+    },
+  ],
+  exports: [ProjectsService],
+})
+export class ProjectsModule {}
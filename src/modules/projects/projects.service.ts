@@ -0,0 +1,202 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Role } from '@modules/auth/enums/role.enum';
+import { User } from '../users/entities/user.entity';
+import { Project } from './entities/project.entity';
+import { ProjectMember } from './entities/project-member.entity';
+import { ProjectRole } from './enums/project-role.enum';
+import { CreateProjectDto } from './dto/create-project.dto';
+import { UpdateProjectDto } from './dto/update-project.dto';
+import { AddProjectMemberDto } from './dto/add-project-member.dto';
+import { UpdateProjectMemberDto } from './dto/update-project-member.dto';
+import type { IProjectRepository } from './interfaces/project-repository.interface';
+import { retry } from '@common/utils/retry';
+
+const MANAGE_ROLES = [ProjectRole.Owner, ProjectRole.Manager];
+
+@Injectable()
+export class ProjectsService {
+  constructor(
+    @Inject('IProjectRepository')
+    private readonly projectsRepository: IProjectRepository,
+  ) {}
+
+  async create(userId: string, createProjectDto: CreateProjectDto): Promise<Project> {
+    const queryRunner = this.projectsRepository.manager.connection.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
+    try {
+      const project = await queryRunner.manager.save(
+        this.projectsRepository.create({ ...createProjectDto, ownerId: userId }),
+      );
+      const owner = queryRunner.manager.create(ProjectMember, {
+        projectId: project.id,
+        userId,
+        role: ProjectRole.Owner,
+      });
+      project.members = [await queryRunner.manager.save(owner)];
+
+      await queryRunner.commitTransaction();
+      return project;
+    } catch (err) {
+      await queryRunner.rollbackTransaction();
+      Logger.error(`Failed to create project for user ${userId}:`, err);
+      throw err;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  async findAllForUser(user: any): Promise<Project[]> {
+    const query = this.projectsRepository
+      .createQueryBuilder('project')
+      .leftJoinAndSelect('project.members', 'member')
+      .orderBy('project.createdAt', 'DESC');
+
+    if (user.role !== Role.Admin) {
+      query.where(
+        'project.id IN (SELECT pm.project_id FROM project_members pm WHERE pm.user_id = :userId)',
+        { userId: user.id },
+      );
+    }
+
+    try {
+      return await retry(() => query.getMany());
+    } catch (err) {
+      Logger.error(`Error fetching projects for user ${user.id}:`, err);
+      return [];
+    }
+  }
+
+  async findOne(id: string, user: any): Promise<Project> {
+    const project = await retry(() =>
+      this.projectsRepository.findOne({ where: { id }, relations: ['members'] }),
+    );
+    if (!project) {
+      throw new NotFoundException('Project not found');
+    }
+
+    if (user.role !== Role.Admin && !this.roleOf(project, user.id)) {
+      throw new ForbiddenException('You are not a member of this project');
+    }
+
+    return project;
+  }
+
+  async update(id: string, user: any, updateProjectDto: UpdateProjectDto): Promise<Project> {
+    const project = await this.findOne(id, user);
+    this.ensureRole(project, user, MANAGE_ROLES);
+
+    try {
+      this.projectsRepository.merge(project, updateProjectDto);
+      return await retry(() => this.projectsRepository.save(project));
+    } catch (err) {
+      Logger.error(`Failed to update project ${id}:`, err);
+      throw err;
+    }
+  }
+
+  async remove(id: string, user: any): Promise<void> {
+    const project = await this.findOne(id, user);
+    this.ensureRole(project, user, [ProjectRole.Owner]);
+
+    try {
+      await retry(() => this.projectsRepository.delete({ id }));
+    } catch (err) {
+      Logger.error(`Failed to delete project ${id}:`, err);
+      throw err;
+    }
+  }
+
+  async addMember(
+    id: string,
+    user: any,
+    addMemberDto: AddProjectMemberDto,
+  ): Promise<ProjectMember> {
+    const project = await this.findOne(id, user);
+    this.ensureRole(project, user, MANAGE_ROLES);
+
+    if (addMemberDto.role === ProjectRole.Owner) {
+      throw new BadRequestException('A project can only have one owner');
+    }
+    if (this.roleOf(project, addMemberDto.userId)) {
+      throw new ConflictException('User is already a member of this project');
+    }
+
+    const manager = this.projectsRepository.manager;
+    const exists = await manager.count(User, { where: { id: addMemberDto.userId } });
+    if (!exists) {
+      throw new NotFoundException('User not found');
+    }
+
+    const member = manager.create(ProjectMember, {
+      projectId: project.id,
+      userId: addMemberDto.userId,
+      role: addMemberDto.role ?? ProjectRole.Member,
+    });
+    return manager.save(member);
+  }
+
+  async updateMember(
+    id: string,
+    memberUserId: string,
+    user: any,
+    updateMemberDto: UpdateProjectMemberDto,
+  ): Promise<ProjectMember> {
+    const project = await this.findOne(id, user);
+    this.ensureRole(project, user, MANAGE_ROLES);
+    const member = this.findMember(project, memberUserId);
+
+    if (member.role === ProjectRole.Owner || updateMemberDto.role === ProjectRole.Owner) {
+      throw new BadRequestException('The project owner role cannot be reassigned');
+    }
+
+    member.role = updateMemberDto.role;
+    return this.projectsRepository.manager.save(member);
+  }
+
+  async removeMember(id: string, memberUserId: string, user: any): Promise<void> {
+    const project = await this.findOne(id, user);
+    // Members may always leave a project on their own
+    if (memberUserId !== user.id) {
+      this.ensureRole(project, user, MANAGE_ROLES);
+    }
+    const member = this.findMember(project, memberUserId);
+
+    if (member.role === ProjectRole.Owner) {
+      throw new BadRequestException('The project owner cannot be removed');
+    }
+
+    await this.projectsRepository.manager.delete(ProjectMember, { id: member.id });
+  }
+
+  private roleOf(project: Project, userId: string): ProjectRole | undefined {
+    return project.members?.find(member => member.userId === userId)?.role;
+  }
+
+  private findMember(project: Project, userId: string): ProjectMember {
+    const member = project.members?.find(m => m.userId === userId);
+    if (!member) {
+      throw new NotFoundException('Project member not found');
+    }
+    return member;
+  }
+
+  private ensureRole(project: Project, user: any, roles: ProjectRole[]): void {
+    if (user.role === Role.Admin) {
+      return;
+    }
+
+    const role = this.roleOf(project, user.id);
+    if (!role || !roles.includes(role)) {
+      throw new ForbiddenException('You do not have permission to manage this project');
+    }
+  }
+}
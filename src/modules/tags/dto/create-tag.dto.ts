@@ -0,0 +1,15 @@
+import { IsHexColor, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateTagDto {
+  @ApiProperty({ example: 'backend' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  name: string;
+
+  @ApiProperty({ example: '#1E90FF', required: false })
+  @IsHexColor()
+  @IsOptional()
+  color?: string;
+}
@@ -0,0 +1,37 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Tag } from '../entities/tag.entity';
+import { ITagRepository } from '../interfaces/tag-repository.interface';
+
+@Injectable()
+export class TypeOrmTagRepository implements ITagRepository {
+  constructor(
+    @InjectRepository(Tag)
+    private readonly repository: Repository<Tag>,
+  ) {}
+
+  create(data: Partial<Tag>): Tag {
+    return this.repository.create(data);
+  }
+
+  save(tag: Tag): Promise<Tag> {
+    return this.repository.save(tag);
+  }
+
+  findOne(options: any): Promise<Tag | null> {
+    return this.repository.findOne(options);
+  }
+
+  find(options?: any): Promise<Tag[]> {
+    return this.repository.find(options);
+  }
+
+  merge(tag: Tag, data: Partial<Tag>): Tag {
+    return this.repository.merge(tag, data);
+  }
+
+  delete(criteria: any): Promise<any> {
+    return this.repository.delete(criteria);
+  }
+}
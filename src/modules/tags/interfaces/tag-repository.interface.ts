@@ -0,0 +1,10 @@
+import { Tag } from '../entities/tag.entity';
+
+export interface ITagRepository {
+  create(data: Partial<Tag>): Tag;
+  save(tag: Tag): Promise<Tag>;
+  findOne(options: any): Promise<Tag | null>;
+  find(options?: any): Promise<Tag[]>;
+  merge(tag: Tag, data: Partial<Tag>): Tag;
+  delete(criteria: any): Promise<any>;
+}
@@ -0,0 +1,76 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  HttpStatus,
+  UsePipes,
+  ValidationPipe,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { JwtAuthGuard } from '@modules/auth/guards/jwt-auth.guard';
+import { CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { TagsService } from './tags.service';
+import { CreateTagDto } from './dto/create-tag.dto';
+import { UpdateTagDto } from './dto/update-tag.dto';
+
+@ApiTags('tags')
+@Controller('tags')
+@UseGuards(JwtAuthGuard, RateLimitGuard)
+@RateLimit({ limit: 100, windowMs: 60000 })
+@ApiBearerAuth()
+@UsePipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
+export class TagsController {
+  constructor(private readonly tagsService: TagsService) {}
+
+  @Post()
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Create a tag' })
+  create(@Body() createTagDto: CreateTagDto, @CurrentUser() user: any) {
+    return this.tagsService.create(user.id, createTagDto);
+  }
+
+  @Get()
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'List your tags' })
+  findAll(@CurrentUser() user: any) {
+    return this.tagsService.findAll(user.id);
+  }
+
+  @Get(':id')
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Find a tag by ID' })
+  findOne(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: any) {
+    return this.tagsService.findOne(user.id, id);
+  }
+
+  @Patch(':id')
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Update a tag' })
+  update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateTagDto: UpdateTagDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.tagsService.update(user.id, id, updateTagDto);
+  }
+
+  @Delete(':id')
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Delete a tag and detach it from all tasks' })
+  async remove(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: any) {
+    await this.tagsService.remove(user.id, id);
+    return {
+      statusCode: HttpStatus.OK,
+      message: 'Tag successfully deleted',
+    };
+  }
+}
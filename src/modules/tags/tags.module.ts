@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { TagsService } from './tags.service';
+import { TagsController } from './tags.controller';
+import { Tag } from './entities/tag.entity';
+import { TypeOrmTagRepository } from './infrastructure/typeorm-tag.repository';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Tag])],
+  controllers: [TagsController],
+  providers: [
+    TagsService,
+    {
+      provide: 'ITagRepository',
+      useClass: TypeOrmTagRepository,
+    },
+  ],
+  exports: [TagsService],
+})
+export class TagsModule {}
@@ -0,0 +1,80 @@
+import { ConflictException, Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Tag } from './entities/tag.entity';
+import { CreateTagDto } from './dto/create-tag.dto';
+import { UpdateTagDto } from './dto/update-tag.dto';
+import type { ITagRepository } from './interfaces/tag-repository.interface';
+import { retry } from '@common/utils/retry';
+
+@Injectable()
+export class TagsService {
+  constructor(
+    @Inject('ITagRepository')
+    private readonly tagsRepository: ITagRepository,
+  ) {}
+
+  async create(userId: string, createTagDto: CreateTagDto): Promise<Tag> {
+    await this.ensureNameAvailable(userId, createTagDto.name);
+
+    try {
+      const tag = this.tagsRepository.create({ ...createTagDto, userId });
+      return await this.tagsRepository.save(tag);
+    } catch (err) {
+      Logger.error(`Failed to create tag for user ${userId}:`, err);
+      throw err;
+    }
+  }
+
+  async findAll(userId: string): Promise<Tag[]> {
+    try {
+      return await retry(() =>
+        this.tagsRepository.find({ where: { userId }, order: { name: 'ASC' } }),
+      );
+    } catch (err) {
+      Logger.error(`Error fetching tags for user ${userId}:`, err);
+      return [];
+    }
+  }
+
+  async findOne(userId: string, id: string): Promise<Tag> {
+    const tag = await retry(() => this.tagsRepository.findOne({ where: { id, userId } }));
+    if (!tag) {
+      throw new NotFoundException('Tag not found');
+    }
+    return tag;
+  }
+
+  async update(userId: string, id: string, updateTagDto: UpdateTagDto): Promise<Tag> {
+    const tag = await this.findOne(userId, id);
+
+    if (updateTagDto.name && updateTagDto.name !== tag.name) {
+      await this.ensureNameAvailable(userId, updateTagDto.name);
+    }
+
+    try {
+      this.tagsRepository.merge(tag, updateTagDto);
+      return await retry(() => this.tagsRepository.save(tag));
+    } catch (err) {
+      Logger.error(`Failed to update tag ${id}:`, err);
+      throw err;
+    }
+  }
+
+  async remove(userId: string, id: string): Promise<void> {
+    try {
+      const deleteResult = await retry(() => this.tagsRepository.delete({ id, userId }));
+      if (deleteResult.affected === 0) {
+        throw new NotFoundException('Tag not found for deletion');
+      }
+    } catch (err) {
+      Logger.error(`Failed to delete tag ${id}:`, err);
+      throw err;
+    }
+  }
+
+  private async ensureNameAvailable(userId: string, name: string): Promise<void> {
+    const existing = await retry(() => this.tagsRepository.findOne({ where: { userId, name } }));
+    if (existing) {
+      throw new ConflictException(`A tag named "${name}" already exists`);
+    }
+  }
+}
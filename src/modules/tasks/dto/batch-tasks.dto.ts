@@ -0,0 +1,47 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsEnum,
+  IsObject,
+  IsOptional,
+  IsUUID,
+  ValidateIf,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { BatchAction } from '../enums/batch-action.enum';
+
+export class BatchTasksDto {
+  @ApiProperty({
+    type: [String],
+    example: ['123e4567-e89b-12d3-a456-426614174000'],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsUUID('all', { each: true })
+  tasks: string[];
+
+  @ApiProperty({ enum: BatchAction, example: BatchAction.COMPLETE })
+  @IsEnum(BatchAction)
+  action: BatchAction;
+
+  @ApiProperty({
+    type: [String],
+    required: false,
+    example: ['123e4567-e89b-12d3-a456-426614174000'],
+    description: 'Tags to add or remove; required for the tag and untag actions',
+  })
+  @ValidateIf(dto => dto.action === BatchAction.TAG || dto.action === BatchAction.UNTAG)
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsUUID('all', { each: true })
+  tagIds?: string[];
+
+  @ApiProperty({
+    required: false,
+    example: { '123e4567-e89b-12d3-a456-426614174000': 3 },
+    description: 'Expected version per task id; the batch fails if any of them changed',
+  })
+  @IsObject()
+  @IsOptional()
+  versions?: Record<string, number>;
+}
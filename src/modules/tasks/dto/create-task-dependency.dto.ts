@@ -0,0 +1,12 @@
+import { IsNotEmpty, IsUUID } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateTaskDependencyDto {
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'ID of the task that must be completed first',
+  })
+  @IsUUID()
+  @IsNotEmpty()
+  blockerId: string;
+}
@@ -0,0 +1,21 @@
+import { IsDateString, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateTaskRecurrenceDto {
+  @ApiProperty({
+    example: 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR',
+    description: 'iCalendar RRULE without DTSTART',
+  })
+  @IsString()
+  @IsNotEmpty()
+  recurrenceRule: string;
+
+  @ApiProperty({
+    example: '2025-01-06T09:00:00Z',
+    required: false,
+    description: 'First occurrence; defaults to the task due date',
+  })
+  @IsDateString()
+  @IsOptional()
+  startsAt?: string;
+}
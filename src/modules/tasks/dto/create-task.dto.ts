@@ -1,7 +1,22 @@
-import { IsDateString, IsEnum, IsNotEmpty, IsOptional, IsString, IsUUID } from 'class-validator';
+import {
+  ArrayUnique,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import { TaskStatus } from '../enums/task-status.enum';
 import { TaskPriority } from '../enums/task-priority.enum';
+import { REMINDER_OFFSETS } from '../utils/due-reminders';
 
 export class CreateTaskDto {
   @ApiProperty({ example: 'Complete project documentation' })
@@ -29,8 +44,69 @@ export class CreateTaskDto {
   @IsOptional()
   dueDate?: Date;
 
-  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  @ApiProperty({
+    example: [1440, 60],
+    required: false,
+    nullable: true,
+    description: `Minutes before dueDate to be reminded at, any of ${REMINDER_OFFSETS.join(', ')}; null uses the assignee's preference`,
+  })
+  @IsArray()
+  @ArrayUnique()
+  @IsIn(REMINDER_OFFSETS, { each: true })
+  @IsOptional()
+  reminderOffsets?: number[] | null;
+
+  @ApiProperty({ example: 240, required: false, nullable: true, description: 'Estimated effort' })
+  @IsInt()
+  @Min(0)
+  @Max(100000)
+  @IsOptional()
+  estimateMinutes?: number | null;
+
+  @ApiProperty({ example: 3, required: false, nullable: true })
+  @IsInt()
+  @Min(0)
+  @Max(1000)
+  @IsOptional()
+  storyPoints?: number | null;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+    nullable: true,
+    description: 'ID of the user the task is assigned to; defaults to the creator',
+  })
   @IsUUID()
-  @IsNotEmpty()
-  userId: string;
-} 
\ No newline at end of file
+  @IsOptional()
+  assigneeId?: string | null;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+    nullable: true,
+    description: 'ID of the parent task when creating a subtask',
+  })
+  @IsUUID()
+  @IsOptional()
+  parentId?: string | null;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+    nullable: true,
+    description: 'ID of the project the task belongs to',
+  })
+  @IsUUID()
+  @IsOptional()
+  projectId?: string | null;
+
+  @ApiProperty({
+    example: { severity: 'high', customer_id: 'ACME-42' },
+    required: false,
+    description:
+      'Values keyed by custom field key; checked against GET /custom-fields. On update, null clears a field',
+  })
+  @IsObject()
+  @IsOptional()
+  customFields?: Record<string, unknown>;
+}
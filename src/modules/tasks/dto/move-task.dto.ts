@@ -0,0 +1,33 @@
+import { IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { TaskStatus } from '../enums/task-status.enum';
+
+export class MoveTaskDto {
+  @ApiProperty({
+    enum: TaskStatus,
+    example: TaskStatus.IN_PROGRESS,
+    description: 'Column to move the task to; use its current status to only reorder it',
+  })
+  @IsEnum(TaskStatus)
+  status: TaskStatus;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+    nullable: true,
+    description: 'Task that ends up directly above it',
+  })
+  @IsUUID()
+  @IsOptional()
+  beforeId?: string | null;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+    nullable: true,
+    description: 'Task that ends up directly below it; without neighbours it goes last',
+  })
+  @IsUUID()
+  @IsOptional()
+  afterId?: string | null;
+}
@@ -1,7 +1,12 @@
 import { ApiProperty } from '@nestjs/swagger';
 import { TaskStatus } from '../enums/task-status.enum';
 import { TaskPriority } from '../enums/task-priority.enum';
-import { IsEnum, IsOptional, IsString } from 'class-validator';
+import { TagMatchMode } from '../enums/tag-match-mode.enum';
+import { IsArray, IsEnum, IsOptional, IsString, IsUUID, Matches, MaxLength } from 'class-validator';
+import { DATE_TOKEN_PATTERN } from '../utils/date-token';
+
+const ASSIGNEE_PATTERN =
+  /^(me|none|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/i;
 
 export class TaskFilterDto {
   @ApiProperty({ required: false, enum: TaskStatus })
@@ -14,23 +19,96 @@ export class TaskFilterDto {
   @IsEnum(TaskPriority)
   priority?: TaskPriority;
 
-  @ApiProperty({ required: false, description: 'Search keyword for task title or description' })
+  @ApiProperty({
+    required: false,
+    description: 'Full-text search over task title and description',
+  })
   @IsOptional()
   @IsString()
   search?: string;
 
-  @ApiProperty({ required: false, description: 'Filter tasks created from this date' })
+  @ApiProperty({
+    required: false,
+    description: 'Filter expression, e.g. status:PENDING,IN_PROGRESS due<+7d -tag:blocked',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  q?: string;
+
+  @ApiProperty({
+    required: false,
+    enum: TaskStatus,
+    isArray: true,
+    description: 'Leave out tasks in any of these statuses',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(TaskStatus, { each: true })
+  excludeStatuses?: TaskStatus[];
+
+  @ApiProperty({
+    required: false,
+    description: 'Filter tasks created from this date; accepts relative tokens such as "today"',
+  })
   @IsOptional()
   @IsString()
+  @Matches(DATE_TOKEN_PATTERN, { message: 'fromDate must be a date or a relative date token' })
   fromDate?: string;
 
-  @ApiProperty({ required: false, description: 'Filter tasks created up to this date' })
+  @ApiProperty({
+    required: false,
+    description: 'Filter tasks created up to this date; accepts relative tokens such as "-1d"',
+  })
   @IsOptional()
   @IsString()
+  @Matches(DATE_TOKEN_PATTERN, { message: 'toDate must be a date or a relative date token' })
   toDate?: string;
 
+  @ApiProperty({
+    required: false,
+    description: 'Filter tasks due from this date; accepts relative tokens such as "today"',
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(DATE_TOKEN_PATTERN, { message: 'dueFrom must be a date or a relative date token' })
+  dueFrom?: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Filter tasks due up to this date; accepts relative tokens such as "+7d"',
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(DATE_TOKEN_PATTERN, { message: 'dueTo must be a date or a relative date token' })
+  dueTo?: string;
+
   @ApiProperty({ required: false, description: 'Filter tasks by user ID (admin use only)' })
   @IsOptional()
   @IsString()
   userId?: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Filter by assignee ID, "me" or "none" for unassigned tasks',
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(ASSIGNEE_PATTERN, { message: 'assignee must be a user ID, "me" or "none"' })
+  assignee?: string;
+
+  @ApiProperty({ required: false, type: [String], description: 'Filter tasks by tag IDs' })
+  @IsOptional()
+  @IsArray()
+  @IsUUID('all', { each: true })
+  tags?: string[];
+
+  @ApiProperty({
+    required: false,
+    enum: TagMatchMode,
+    description: 'Match tasks having any (default) or all of the given tags',
+  })
+  @IsOptional()
+  @IsEnum(TagMatchMode)
+  tagMatch?: TagMatchMode;
 }
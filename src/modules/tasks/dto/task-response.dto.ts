@@ -21,8 +21,36 @@ export class TaskResponseDto {
   @ApiProperty({ example: '2023-12-31T23:59:59Z' })
   dueDate: Date;
 
+  @ApiProperty({ example: [1440, 60], nullable: true })
+  reminderOffsets: number[] | null;
+
+  @ApiProperty({ example: 240, nullable: true })
+  estimateMinutes: number | null;
+
+  @ApiProperty({ example: 3, nullable: true })
+  storyPoints: number | null;
+
+  @ApiProperty({
+    example: 'i',
+    nullable: true,
+    description: 'Position within its status column; sort=rank:asc lists a board column in order',
+  })
+  rank: string | null;
+
   @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
-  userId: string;
+  createdBy: string;
+
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000', nullable: true })
+  assigneeId: string | null;
+
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000', nullable: true })
+  parentId: string | null;
+
+  @ApiProperty({ example: false, description: 'Whether an unfinished dependency blocks the task' })
+  isBlocked: boolean;
+
+  @ApiProperty({ type: () => [TaskResponseDto], required: false })
+  children?: TaskResponseDto[];
 
   @ApiProperty({ example: '2023-01-01T00:00:00.000Z' })
   createdAt: Date;
@@ -0,0 +1,36 @@
+import { IsEnum, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { RecurrenceScope } from '../enums/recurrence-scope.enum';
+import { TaskPriority } from '../enums/task-priority.enum';
+
+export class UpdateTaskRecurrenceDto {
+  @ApiProperty({
+    enum: RecurrenceScope,
+    example: RecurrenceScope.FUTURE,
+    description: 'Edit only this occurrence, or this and all future occurrences',
+  })
+  @IsEnum(RecurrenceScope)
+  scope: RecurrenceScope;
+
+  @ApiProperty({ example: 'FREQ=MONTHLY;BYDAY=1MO', required: false })
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  recurrenceRule?: string;
+
+  @ApiProperty({ example: 'Weekly status report', required: false })
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  title?: string;
+
+  @ApiProperty({ example: 'Summarise progress for stakeholders', required: false })
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @ApiProperty({ enum: TaskPriority, required: false })
+  @IsEnum(TaskPriority)
+  @IsOptional()
+  priority?: TaskPriority;
+}
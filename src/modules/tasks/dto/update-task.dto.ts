@@ -1,4 +1,14 @@
-import { PartialType } from '@nestjs/swagger';
+import { ApiProperty, OmitType, PartialType } from '@nestjs/swagger';
+import { IsBoolean, IsOptional } from 'class-validator';
 import { CreateTaskDto } from './create-task.dto';
 
-export class UpdateTaskDto extends PartialType(CreateTaskDto) {} 
\ No newline at end of file
+// Assignment goes through the dedicated assign/unassign endpoints
+export class UpdateTaskDto extends PartialType(OmitType(CreateTaskDto, ['assigneeId'] as const)) {
+  @ApiProperty({
+    required: false,
+    description: 'When completing a parent task, also complete all of its open subtasks',
+  })
+  @IsBoolean()
+  @IsOptional()
+  cascadeToSubtasks?: boolean;
+}
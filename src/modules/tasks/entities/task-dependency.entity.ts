@@ -0,0 +1,38 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  Unique,
+} from 'typeorm';
+import { Task } from './task.entity';
+
+// Directed edge: the blocker must be completed before the blocked task can start
+@Entity('task_dependencies')
+@Unique('UQ_task_dependencies_edge', ['blockerId', 'blockedId'])
+export class TaskDependency {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column({ name: 'blocker_id' })
+  blockerId: string;
+
+  @ManyToOne(() => Task, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'blocker_id' })
+  blocker: Task;
+
+  @Index()
+  @Column({ name: 'blocked_id' })
+  blockedId: string;
+
+  @ManyToOne(() => Task, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'blocked_id' })
+  blocked: Task;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,37 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  Unique,
+} from 'typeorm';
+import { Task } from './task.entity';
+
+// An escalation step that fired for a task. Steps are tracked per due date, so moving the due
+// date starts the escalation over.
+@Entity('task_escalations')
+@Unique('UQ_task_escalations_step', ['taskId', 'step', 'dueDate'])
+export class TaskEscalation {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column({ name: 'task_id' })
+  taskId: string;
+
+  @ManyToOne(() => Task, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'task_id' })
+  task: Task;
+
+  @Column({ type: 'varchar', length: 60 })
+  step: string;
+
+  @Column({ name: 'due_date', type: 'timestamp' })
+  dueDate: Date;
+
+  @CreateDateColumn({ name: 'fired_at' })
+  firedAt: Date;
+}
@@ -0,0 +1,44 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { TaskEventType } from '../enums/task-event-type.enum';
+import { TaskEventSource } from '../enums/task-event-source.enum';
+
+export type TaskFieldChanges = Record<string, { from: unknown; to: unknown }>;
+
+// No foreign key to tasks: the history of a deleted task is kept
+@Entity('task_events')
+@Index(['taskId', 'createdAt'])
+export class TaskEvent {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'task_id', type: 'uuid' })
+  taskId: string;
+
+  @Column({ type: 'enum', enum: TaskEventType })
+  type: TaskEventType;
+
+  @Column({ type: 'enum', enum: TaskEventSource })
+  source: TaskEventSource;
+
+  @Column({ name: 'actor_id', type: 'uuid', nullable: true })
+  actorId: string | null;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'actor_id' })
+  actor: User | null;
+
+  @Column({ type: 'jsonb', default: {} })
+  changes: TaskFieldChanges;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
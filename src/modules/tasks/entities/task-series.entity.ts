@@ -0,0 +1,71 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  OneToMany,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { TaskPriority } from '../enums/task-priority.enum';
+import { Task } from './task.entity';
+
+@Entity('task_series')
+export class TaskSeries {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // RRULE body without DTSTART, e.g. FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR
+  @Column({ name: 'recurrence_rule' })
+  recurrenceRule: string;
+
+  @Column({ name: 'starts_at', type: 'timestamp' })
+  startsAt: Date;
+
+  @Column()
+  title: string;
+
+  @Column({ type: 'text', nullable: true })
+  description: string | null;
+
+  @Column({
+    type: 'enum',
+    enum: TaskPriority,
+    default: TaskPriority.MEDIUM,
+  })
+  priority: TaskPriority;
+
+  @Index()
+  @Column({ name: 'user_id' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Column({ name: 'assignee_id', type: 'uuid', nullable: true })
+  assigneeId: string | null;
+
+  @Column({ name: 'last_occurrence_at', type: 'timestamp', nullable: true })
+  lastOccurrenceAt: Date | null;
+
+  @Index()
+  @Column({ name: 'next_occurrence_at', type: 'timestamp', nullable: true })
+  nextOccurrenceAt: Date | null;
+
+  @Index()
+  @Column({ default: true })
+  active: boolean;
+
+  @OneToMany(() => Task, task => task.series)
+  occurrences: Task[];
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
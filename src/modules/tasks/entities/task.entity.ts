@@ -1,18 +1,32 @@
 import {
   Column,
   CreateDateColumn,
+  DeleteDateColumn,
   Entity,
   Index,
   JoinColumn,
+  JoinTable,
+  ManyToMany,
   ManyToOne,
+  OneToMany,
   PrimaryGeneratedColumn,
   UpdateDateColumn,
+  VersionColumn,
 } from 'typeorm';
 import { User } from '../../users/entities/user.entity';
 import { TaskStatus } from '../enums/task-status.enum';
 import { TaskPriority } from '../enums/task-priority.enum';
+import { TaskSeries } from './task-series.entity';
+import { Tag } from '../../tags/entities/tag.entity';
+import { Project } from '../../projects/entities/project.entity';
+import type { CustomFieldValues } from '../../custom-fields/utils/custom-field-values';
+
+export const TASK_SEARCH_VECTOR =
+  "setweight(to_tsvector('english', coalesce(title, '')), 'A') || " +
+  "setweight(to_tsvector('english', coalesce(description, '')), 'B')";
 
 @Entity('tasks')
+@Index(['status', 'rank'])
 export class Task {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -43,13 +57,97 @@ export class Task {
   @Column({ name: 'due_date', nullable: true })
   dueDate: Date;
 
-  @Column({ name: 'user_id' })
-  userId: string;
+  // Minutes before dueDate to send reminders at; null falls back to the assignee's preference
+  @Column({ name: 'reminder_offsets', type: 'integer', array: true, nullable: true })
+  reminderOffsets: number[] | null;
+
+  @Column({ name: 'estimate_minutes', type: 'integer', nullable: true })
+  estimateMinutes: number | null;
+
+  @Column({ name: 'story_points', type: 'integer', nullable: true })
+  storyPoints: number | null;
+
+  // Position within its status column on the board, see utils/rank.ts. Tasks that were
+  // never placed have none and sort last until their column is rebalanced.
+  @Column({ type: 'varchar', nullable: true, collation: 'C' })
+  rank: string | null;
+
+  @Column({ name: 'created_by' })
+  createdBy: string;
 
   @ManyToOne(() => User, user => user.tasks)
   @Index()
-  @JoinColumn({ name: 'user_id' })
-  user: User;
+  @JoinColumn({ name: 'created_by' })
+  creator: User;
+
+  @Index()
+  @Column({ name: 'assignee_id', type: 'uuid', nullable: true })
+  assigneeId: string | null;
+
+  @ManyToOne(() => User, user => user.assignedTasks, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'assignee_id' })
+  assignee: User | null;
+
+  @Index()
+  @Column({ name: 'parent_id', type: 'uuid', nullable: true })
+  parentId: string | null;
+
+  @ManyToOne(() => Task, task => task.children, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'parent_id' })
+  parent: Task | null;
+
+  @OneToMany(() => Task, task => task.parent)
+  children: Task[];
+
+  @Column({ name: 'is_blocked', default: false })
+  isBlocked: boolean;
+
+  @Index()
+  @Column({ name: 'series_id', type: 'uuid', nullable: true })
+  seriesId: string | null;
+
+  @ManyToOne(() => TaskSeries, series => series.occurrences, {
+    nullable: true,
+    onDelete: 'SET NULL',
+  })
+  @JoinColumn({ name: 'series_id' })
+  series: TaskSeries | null;
+
+  @Column({ name: 'occurrence_at', type: 'timestamp', nullable: true })
+  occurrenceAt: Date | null;
+
+  @ManyToMany(() => Tag, tag => tag.tasks)
+  @JoinTable({
+    name: 'task_tags',
+    joinColumn: { name: 'task_id', referencedColumnName: 'id' },
+    inverseJoinColumn: { name: 'tag_id', referencedColumnName: 'id' },
+  })
+  tags: Tag[];
+
+  @Index()
+  @Column({ name: 'project_id', type: 'uuid', nullable: true })
+  projectId: string | null;
+
+  @ManyToOne(() => Project, project => project.tasks, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'project_id' })
+  project: Project | null;
+
+  // Keyed by CustomFieldDefinition.key and validated against the definitions on write
+  @Column({ name: 'custom_fields', type: 'jsonb', default: {} })
+  customFields: CustomFieldValues;
+
+  // Maintained by Postgres; the GIN index over it is created in the migration
+  @Index('IDX_tasks_search_vector', { synchronize: false })
+  @Column({
+    name: 'search_vector',
+    type: 'tsvector',
+    select: false,
+    insert: false,
+    update: false,
+    generatedType: 'STORED',
+    asExpression: TASK_SEARCH_VECTOR,
+  })
+  searchVector?: string;
 
   @Index()
   @CreateDateColumn({ name: 'created_at' })
@@ -58,4 +156,11 @@ export class Task {
   @Index()
   @UpdateDateColumn({ name: 'updated_at' })
   updatedAt: Date;
+
+  @VersionColumn({ default: 1 })
+  version: number;
+
+  @Index()
+  @DeleteDateColumn({ name: 'deleted_at', type: 'timestamp', nullable: true })
+  deletedAt: Date | null;
 }
@@ -0,0 +1,6 @@
+export enum BatchAction {
+  COMPLETE = 'complete',
+  DELETE = 'delete',
+  TAG = 'tag',
+  UNTAG = 'untag',
+}
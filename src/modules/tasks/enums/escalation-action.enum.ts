@@ -0,0 +1,5 @@
+export enum EscalationAction {
+  RAISE_PRIORITY = 'raise-priority',
+  NOTIFY_ADMINS = 'notify-admins',
+  MARK_STALE = 'mark-stale',
+}
@@ -0,0 +1,4 @@
+export enum RecurrenceScope {
+  THIS = 'this',
+  FUTURE = 'future',
+}
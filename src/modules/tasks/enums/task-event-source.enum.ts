@@ -0,0 +1,4 @@
+export enum TaskEventSource {
+  HTTP = 'http',
+  QUEUE = 'queue',
+}
@@ -0,0 +1,7 @@
+export enum TaskEventType {
+  CREATED = 'created',
+  UPDATED = 'updated',
+  DELETED = 'deleted',
+  RESTORED = 'restored',
+  PURGED = 'purged',
+}
@@ -1,5 +1,8 @@
 export enum TaskStatus {
   PENDING = 'PENDING',
   IN_PROGRESS = 'IN_PROGRESS',
+  BLOCKED = 'BLOCKED',
+  IN_REVIEW = 'IN_REVIEW',
   COMPLETED = 'COMPLETED',
-} 
\ No newline at end of file
+  CANCELLED = 'CANCELLED',
+}
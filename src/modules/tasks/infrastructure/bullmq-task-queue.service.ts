@@ -2,16 +2,21 @@ import { InjectQueue } from '@nestjs/bullmq';
 import { Injectable, Logger } from '@nestjs/common';
 import { Queue } from 'bullmq';
 import { ITaskQueueService } from '../interfaces/task-queue.interface';
+import { REMINDER_OFFSETS, planDueReminders, reminderJobId } from '../utils/due-reminders';
 
 @Injectable()
 export class BullMqTaskQueueService implements ITaskQueueService {
   constructor(@InjectQueue('task-processing') private readonly queue: Queue) { }
 
-  async enqueueStatusUpdate(taskId: string, status: string): Promise<void> {
+  async enqueueStatusUpdate(
+    taskId: string,
+    status: string,
+    actorId: string | null = null,
+  ): Promise<void> {
     try {
       await this.queue.add(
         'task-status-update',
-        { taskId, status },
+        { taskId, status, actorId },
         {
           attempts: 5,
           backoff: {
@@ -29,4 +34,119 @@ export class BullMqTaskQueueService implements ITaskQueueService {
       );
     }
   }
+
+  async enqueueDependencyRefresh(blockerId: string): Promise<void> {
+    try {
+      await this.queue.add(
+        'task-dependency-refresh',
+        { blockerId },
+        {
+          attempts: 5,
+          backoff: {
+            type: 'exponential',
+            delay: 10000,
+          },
+          removeOnComplete: true,
+          removeOnFail: 100,
+        },
+      );
+    } catch (error) {
+      Logger.warn(
+        `Failed to enqueue task-dependency-refresh for task ${blockerId}:`,
+        error instanceof Error ? error.message : error,
+      );
+    }
+  }
+
+  async enqueueAttachmentCleanup(storageKeys: string[]): Promise<void> {
+    try {
+      await this.queue.add(
+        'attachment-cleanup',
+        { storageKeys },
+        {
+          attempts: 5,
+          backoff: {
+            type: 'exponential',
+            delay: 10000,
+          },
+          removeOnComplete: true,
+          removeOnFail: 100,
+        },
+      );
+    } catch (error) {
+      Logger.warn(
+        `Failed to enqueue attachment-cleanup for ${storageKeys.length} blob(s):`,
+        error instanceof Error ? error.message : error,
+      );
+    }
+  }
+
+  async enqueueRankRebalance(status: string): Promise<void> {
+    try {
+      // One pending rebalance per column is enough, however many moves asked for it
+      await this.queue.add(
+        'rank-rebalance',
+        { status },
+        {
+          jobId: `rank-rebalance:${status}`,
+          attempts: 5,
+          backoff: {
+            type: 'exponential',
+            delay: 10000,
+          },
+          removeOnComplete: true,
+          removeOnFail: 100,
+        },
+      );
+    } catch (error) {
+      Logger.warn(
+        `Failed to enqueue rank-rebalance for ${status} tasks:`,
+        error instanceof Error ? error.message : error,
+      );
+    }
+  }
+
+  // Replaces whatever reminders were pending, so a moved due date never fires twice
+  async scheduleDueReminders(taskId: string, dueDate: Date): Promise<void> {
+    await this.cancelDueReminders(taskId);
+
+    for (const { offsetMinutes, delay } of planDueReminders(dueDate)) {
+      try {
+        await this.queue.add(
+          'task-due-reminder',
+          { taskId, dueDate: dueDate.toISOString(), offsetMinutes },
+          {
+            jobId: reminderJobId(taskId, offsetMinutes),
+            delay,
+            attempts: 5,
+            backoff: {
+              type: 'exponential',
+              delay: 10000,
+            },
+            removeOnComplete: true,
+            removeOnFail: 100,
+          },
+        );
+      } catch (error) {
+        Logger.warn(
+          `Failed to schedule task-due-reminder ${offsetMinutes}m before task ${taskId} is due:`,
+          error instanceof Error ? error.message : error,
+        );
+      }
+    }
+  }
+
+  async cancelDueReminders(taskId: string): Promise<void> {
+    for (const offsetMinutes of REMINDER_OFFSETS) {
+      try {
+        await this.queue.remove(reminderJobId(taskId, offsetMinutes));
+      } catch (error) {
+        // A reminder being processed right now is locked; it re-checks the task before sending
+        Logger.warn(
+          `Failed to cancel task-due-reminder ${offsetMinutes}m before task ${taskId} is due:`,
+          error instanceof Error ? error.message : error,
+        );
+      }
+    }
+  }
 }
@@ -0,0 +1,29 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { TaskDependency } from '../entities/task-dependency.entity';
+import { ITaskDependencyRepository } from '../interfaces/task-dependency-repository.interface';
+
+@Injectable()
+export class TypeOrmTaskDependencyRepository implements ITaskDependencyRepository {
+  constructor(
+    @InjectRepository(TaskDependency)
+    private readonly repository: Repository<TaskDependency>,
+  ) {}
+
+  find(options?: any): Promise<TaskDependency[]> {
+    return this.repository.find(options);
+  }
+
+  findOne(options: any): Promise<TaskDependency | null> {
+    return this.repository.findOne(options);
+  }
+
+  delete(criteria: any): Promise<any> {
+    return this.repository.delete(criteria);
+  }
+
+  get manager() {
+    return this.repository.manager;
+  }
+}
@@ -0,0 +1,29 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { TaskSeries } from '../entities/task-series.entity';
+import { ITaskSeriesRepository } from '../interfaces/task-series-repository.interface';
+
+@Injectable()
+export class TypeOrmTaskSeriesRepository implements ITaskSeriesRepository {
+  constructor(
+    @InjectRepository(TaskSeries)
+    private readonly repository: Repository<TaskSeries>,
+  ) {}
+
+  findOne(options: any): Promise<TaskSeries | null> {
+    return this.repository.findOne(options);
+  }
+
+  find(options?: any): Promise<TaskSeries[]> {
+    return this.repository.find(options);
+  }
+
+  createQueryBuilder(alias: string) {
+    return this.repository.createQueryBuilder(alias);
+  }
+
+  get manager() {
+    return this.repository.manager;
+  }
+}
@@ -1,9 +1,8 @@
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
-import { CreateTaskDto } from '../dto/create-task.dto';
 import { Task } from '../entities/task.entity';
-import { ITaskRepository } from '../interfaces/task-repository.interface';
+import { ITaskRepository, NewTask } from '../interfaces/task-repository.interface';
 
 @Injectable()
 export class TypeOrmTaskRepository implements ITaskRepository {
@@ -12,7 +11,7 @@ export class TypeOrmTaskRepository implements ITaskRepository {
         private readonly repository: Repository<Task>,
     ) { }
 
-    create(createTaskDto: CreateTaskDto): Promise<Task> {
+    create(createTaskDto: NewTask): Promise<Task> {
         const task = this.repository.create(createTaskDto);
         return Promise.resolve(task);
     }
@@ -44,4 +43,12 @@ export class TypeOrmTaskRepository implements ITaskRepository {
     delete(criteria: any): Promise<any> {
         return this.repository.delete(criteria);
     }
+
+    softDelete(criteria: any): Promise<any> {
+        return this.repository.softDelete(criteria);
+    }
+
+    restore(criteria: any): Promise<any> {
+        return this.repository.restore(criteria);
+    }
 }
@@ -0,0 +1,6 @@
+import { TaskEventSource } from '../enums/task-event-source.enum';
+
+export interface TaskActor {
+  userId: string | null;
+  source: TaskEventSource;
+}
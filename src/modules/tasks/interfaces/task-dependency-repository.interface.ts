@@ -0,0 +1,8 @@
+import { TaskDependency } from '../entities/task-dependency.entity';
+
+export interface ITaskDependencyRepository {
+  find(options?: any): Promise<TaskDependency[]>;
+  findOne(options: any): Promise<TaskDependency | null>;
+  delete(criteria: any): Promise<any>;
+  manager: any;
+}
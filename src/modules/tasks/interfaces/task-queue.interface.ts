@@ -1,3 +1,8 @@
 export interface ITaskQueueService {
-  enqueueStatusUpdate(taskId: string, status: string): Promise<void>;
+  enqueueStatusUpdate(taskId: string, status: string, actorId?: string | null): Promise<void>;
+  enqueueDependencyRefresh(blockerId: string): Promise<void>;
+  enqueueAttachmentCleanup(storageKeys: string[]): Promise<void>;
+  enqueueRankRebalance(status: string): Promise<void>;
+  scheduleDueReminders(taskId: string, dueDate: Date): Promise<void>;
+  cancelDueReminders(taskId: string): Promise<void>;
 }
@@ -1,8 +1,17 @@
 import { CreateTaskDto } from '../dto/create-task.dto';
 import { Task } from '../entities/task.entity';
+import { CustomFieldValues } from '../../custom-fields/utils/custom-field-values';
+
+// Custom field values are validated and the rank is picked by TasksService before the
+// task reaches the repository
+export type NewTask = Omit<CreateTaskDto, 'customFields'> & {
+  createdBy: string;
+  customFields?: CustomFieldValues;
+  rank?: string | null;
+};
 
 export interface ITaskRepository {
-  create(createTaskDto: CreateTaskDto): Promise<Task>;
+  create(createTaskDto: NewTask): Promise<Task>;
   save(task: Task): Promise<Task>;
   createQueryBuilder(alias: string): any;
   findOne(options: any): Promise<Task | undefined>;
@@ -10,4 +19,6 @@ export interface ITaskRepository {
   update(entityClass: any, ids: any, partialEntity: any): Promise<any>;
   find(options?: any): Promise<Task[]>;
   delete(criteria: any): Promise<any>;
+  softDelete(criteria: any): Promise<any>;
+  restore(criteria: any): Promise<any>;
 }
@@ -0,0 +1,10 @@
+import { Task } from '../entities/task.entity';
+
+export interface TaskSearchResult {
+  task: Task;
+  rank: number;
+  highlights: {
+    title: string;
+    description: string | null;
+  };
+}
@@ -0,0 +1,8 @@
+import { TaskSeries } from '../entities/task-series.entity';
+
+export interface ITaskSeriesRepository {
+  findOne(options: any): Promise<TaskSeries | null>;
+  find(options?: any): Promise<TaskSeries[]>;
+  createQueryBuilder(alias: string): any;
+  manager: any;
+}
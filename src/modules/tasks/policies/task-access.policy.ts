@@ -0,0 +1,51 @@
+import { Role } from '@modules/auth/enums/role.enum';
+import { ProjectRole } from '../../projects/enums/project-role.enum';
+import { Task } from '../entities/task.entity';
+import { TaskSeries } from '../entities/task-series.entity';
+
+export const PROJECT_EDIT_ROLES = [ProjectRole.Owner, ProjectRole.Manager, ProjectRole.Member];
+export const PROJECT_DELETE_ROLES = [ProjectRole.Owner, ProjectRole.Manager];
+
+// Relies on task.project.members being loaded, as TasksService.findOne does.
+function projectRoleOf(task: Task, user: any): ProjectRole | undefined {
+  return task.project?.members?.find(member => member.userId === user.id)?.role;
+}
+
+function isOwnerOrAdmin(task: Task, user: any): boolean {
+  return user.role === Role.Admin || task.createdBy === user.id;
+}
+
+function isParticipant(task: Task, user: any): boolean {
+  return isOwnerOrAdmin(task, user) || task.assigneeId === user.id;
+}
+
+export function canViewTask(task: Task, user: any): boolean {
+  return isParticipant(task, user) || projectRoleOf(task, user) !== undefined;
+}
+
+export function canEditTask(task: Task, user: any): boolean {
+  const role = projectRoleOf(task, user);
+  return isParticipant(task, user) || (!!role && PROJECT_EDIT_ROLES.includes(role));
+}
+
+export function canDeleteTask(task: Task, user: any): boolean {
+  const role = projectRoleOf(task, user);
+  return isOwnerOrAdmin(task, user) || (!!role && PROJECT_DELETE_ROLES.includes(role));
+}
+
+// Changes to a whole series rewrite or drop every future occurrence, so they take more than
+// edit rights on the one occurrence they are made from
+export function canManageSeries(series: TaskSeries, task: Task, user: any): boolean {
+  const role = projectRoleOf(task, user);
+  return (
+    user.role === Role.Admin ||
+    series.userId === user.id ||
+    (!!role && PROJECT_DELETE_ROLES.includes(role))
+  );
+}
+
+// Outside of a project tasks can only be handed to yourself; project membership of the
+// assignee is checked by TasksService
+export function canAssignTo(projectId: string | null | undefined, assigneeId: string, user: any) {
+  return user.role === Role.Admin || assigneeId === user.id || !!projectId;
+}
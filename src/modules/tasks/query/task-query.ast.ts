@@ -0,0 +1,75 @@
+import { TaskStatus } from '../enums/task-status.enum';
+import { TaskPriority } from '../enums/task-priority.enum';
+
+export type TaskQueryOperator = ':' | '<' | '<=' | '>' | '>=';
+
+interface TaskQueryTermBase {
+  negated: boolean;
+  // 1-based position of the term in the query string
+  column: number;
+}
+
+export interface StatusTerm extends TaskQueryTermBase {
+  kind: 'status';
+  values: TaskStatus[];
+}
+
+export interface PriorityTerm extends TaskQueryTermBase {
+  kind: 'priority';
+  operator: TaskQueryOperator;
+  values: TaskPriority[];
+}
+
+export interface DateTerm extends TaskQueryTermBase {
+  kind: 'date';
+  field: 'dueDate' | 'createdAt' | 'updatedAt';
+  operator: TaskQueryOperator;
+  // A date or relative date token, resolved when the query is compiled
+  value: string;
+}
+
+export interface TagTerm extends TaskQueryTermBase {
+  kind: 'tag';
+  names: string[];
+}
+
+export interface AssigneeTerm extends TaskQueryTermBase {
+  kind: 'assignee';
+  // User ids, "me" or "none"
+  values: string[];
+}
+
+export interface ProjectTerm extends TaskQueryTermBase {
+  kind: 'project';
+  // Project ids or "none"
+  values: string[];
+}
+
+export interface CustomFieldTerm extends TaskQueryTermBase {
+  kind: 'customField';
+  key: string;
+  operator: TaskQueryOperator;
+  // Checked against the field's type when the query is compiled
+  values: { text: string; column: number }[];
+}
+
+export interface TextTerm extends TaskQueryTermBase {
+  kind: 'text';
+  text: string;
+  phrase: boolean;
+}
+
+export type TaskQueryTerm =
+  | StatusTerm
+  | PriorityTerm
+  | DateTerm
+  | TagTerm
+  | AssigneeTerm
+  | ProjectTerm
+  | CustomFieldTerm
+  | TextTerm;
+
+// Every term has to match
+export interface TaskQuery {
+  terms: TaskQueryTerm[];
+}
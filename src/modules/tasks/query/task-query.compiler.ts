@@ -0,0 +1,225 @@
+import { DATE_TOKEN_PATTERN, resolveDateToken } from '../utils/date-token';
+import { SEARCH_CONFIG, buildTsQuery } from '../utils/search-query';
+import { CustomFieldDefinition } from '../../custom-fields/entities/custom-field-definition.entity';
+import { CustomFieldType } from '../../custom-fields/enums/custom-field-type.enum';
+import {
+  CustomFieldTerm,
+  DateTerm,
+  TaskQuery,
+  TaskQueryOperator,
+  TaskQueryTerm,
+} from './task-query.ast';
+import { taskQueryError } from './task-query.parser';
+
+export interface TaskQueryContext {
+  // Resolves assignee:me, without it the keyword is rejected, and limits tag: to this user's tags
+  userId?: string;
+  now?: Date;
+  // Definitions that cf.<key> terms are checked against
+  customFields?: CustomFieldDefinition[];
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type Condition = [string, Record<string, unknown>];
+
+// Adds one WHERE clause per term to a query builder whose task alias is `task`
+export function compileTaskQuery(ast: TaskQuery, query: any, context: TaskQueryContext = {}): void {
+  const now = context.now ?? new Date();
+
+  ast.terms.forEach((term, index) => {
+    const [condition, parameters] = compileTerm(term, `q${index}`, context, now);
+    // COALESCE keeps rows whose compared column is NULL when the term is negated
+    query.andWhere(
+      term.negated ? `NOT COALESCE((${condition}), false)` : `(${condition})`,
+      parameters,
+    );
+  });
+}
+
+function compileTerm(
+  term: TaskQueryTerm,
+  param: string,
+  context: TaskQueryContext,
+  now: Date,
+): Condition {
+  switch (term.kind) {
+    case 'status':
+      return [`task.status IN (:...${param})`, { [param]: term.values }];
+    case 'priority':
+      // The priority enum is declared LOW, MEDIUM, HIGH so Postgres compares it by rank
+      if (term.operator === ':') {
+        return [`task.priority IN (:...${param})`, { [param]: term.values }];
+      }
+      return [`task.priority ${term.operator} :${param}`, { [param]: term.values[0] }];
+    case 'date':
+      return compileDate(term, param, now);
+    case 'tag': {
+      // Tag names are only unique per user, another user's tag of the same name must not match
+      const owner = context.userId ? ` AND g.user_id = :${param}User` : '';
+      return [
+        `EXISTS (
+          SELECT 1 FROM task_tags tt INNER JOIN tags g ON g.id = tt.tag_id
+          WHERE tt.task_id = task.id AND lower(g.name) IN (:...${param})${owner}
+        )`,
+        { [param]: term.names, [`${param}User`]: context.userId },
+      ];
+    }
+    case 'assignee': {
+      const ids = term.values
+        .filter(value => value !== 'none')
+        .map(value => (value === 'me' ? currentUser(context, term.column) : value));
+      return compileIds('task.assigneeId', ids, term.values.includes('none'), param);
+    }
+    case 'project': {
+      const ids = term.values.filter(value => value !== 'none');
+      return compileIds('task.projectId', ids, term.values.includes('none'), param);
+    }
+    case 'customField':
+      return compileCustomField(term, param, context, now);
+    case 'text':
+      return [
+        `task.search_vector @@ to_tsquery('${SEARCH_CONFIG}', :${param})`,
+        { [param]: buildTsQuery(term.phrase ? `"${term.text}"` : term.text) },
+      ];
+  }
+}
+
+function compileDate(term: DateTerm, param: string, now: Date): Condition {
+  const column = `task.${term.field}`;
+  if (term.value === 'none') {
+    return [`${column} IS NULL`, {}];
+  }
+  return compileDateRange(column, term.operator, term.value, param, now);
+}
+
+// Day tokens cover the whole day: due<today is before midnight, due<=today includes today
+function compileDateRange(
+  column: string,
+  operator: TaskQueryOperator,
+  value: string,
+  param: string,
+  now: Date,
+): Condition {
+  const start = resolveDateToken(value, 'start', now);
+  const end = resolveDateToken(value, 'end', now);
+  switch (operator) {
+    case ':':
+      return [
+        `${column} BETWEEN :${param}Start AND :${param}End`,
+        { [`${param}Start`]: start, [`${param}End`]: end },
+      ];
+    case '<':
+    case '>=':
+      return [`${column} ${operator} :${param}`, { [param]: start }];
+    case '<=':
+    case '>':
+      return [`${column} ${operator} :${param}`, { [param]: end }];
+  }
+}
+
+// Values are compared in the field's own type; only numbers and dates can be ordered
+function compileCustomField(
+  term: CustomFieldTerm,
+  param: string,
+  context: TaskQueryContext,
+  now: Date,
+): Condition {
+  const definition = context.customFields?.find(field => field.key === term.key);
+  if (!definition) {
+    throw taskQueryError(`unknown custom field "${term.key}"`, term.column);
+  }
+
+  const keyParam = `${param}Key`;
+  const value = `(task.custom_fields ->> :${keyParam})`;
+  const withKey = ([condition, parameters]: Condition): Condition => [
+    condition,
+    { ...parameters, [keyParam]: term.key },
+  ];
+
+  if (term.values.length === 1 && term.values[0].text.toLowerCase() === 'none') {
+    if (term.operator !== ':') {
+      throw taskQueryError(`"none" can only be used as cf.${term.key}:none`, term.values[0].column);
+    }
+    return withKey([`${value} IS NULL`, {}]);
+  }
+
+  if (definition.type === CustomFieldType.NUMBER) {
+    const numbers = term.values.map(({ text, column }) => {
+      const number = Number(text);
+      if (!text.trim() || !Number.isFinite(number)) {
+        throw taskQueryError(`expected a number for cf.${term.key}`, column);
+      }
+      return number;
+    });
+    return withKey(
+      term.operator === ':'
+        ? [`${value}::numeric IN (:...${param})`, { [param]: numbers }]
+        : [`${value}::numeric ${term.operator} :${param}`, { [param]: numbers[0] }],
+    );
+  }
+
+  if (definition.type === CustomFieldType.DATE) {
+    const [{ text, column }] = term.values;
+    const token = text.toLowerCase();
+    if (term.values.length > 1 || !DATE_TOKEN_PATTERN.test(token)) {
+      throw taskQueryError(`expected a single date for cf.${term.key}`, column);
+    }
+    try {
+      return withKey(compileDateRange(`${value}::timestamptz`, term.operator, token, param, now));
+    } catch {
+      throw taskQueryError(`invalid date "${text}"`, column);
+    }
+  }
+
+  if (term.operator !== ':') {
+    throw taskQueryError(`"${term.operator}" is not supported for cf.${term.key}`, term.column);
+  }
+
+  const texts = term.values.map(({ text, column }) => {
+    switch (definition.type) {
+      case CustomFieldType.BOOLEAN:
+        if (!['true', 'false'].includes(text.toLowerCase())) {
+          throw taskQueryError(`expected true or false for cf.${term.key}`, column);
+        }
+        return text.toLowerCase();
+      case CustomFieldType.ENUM:
+        if (!(definition.options ?? []).includes(text)) {
+          throw taskQueryError(`unknown option "${text}" for cf.${term.key}`, column);
+        }
+        return text;
+      case CustomFieldType.USER:
+        if (text.toLowerCase() === 'me') {
+          return currentUser(context, column);
+        }
+        if (!UUID_PATTERN.test(text)) {
+          throw taskQueryError(`expected a user id or "me" for cf.${term.key}`, column);
+        }
+        return text.toLowerCase();
+      default:
+        return text.toLowerCase();
+    }
+  });
+
+  // Free text matches case-insensitively, everything else exactly
+  const compared = definition.type === CustomFieldType.TEXT ? `lower(${value})` : value;
+  return withKey([`${compared} IN (:...${param})`, { [param]: texts }]);
+}
+
+function compileIds(column: string, ids: string[], includeNone: boolean, param: string): Condition {
+  const conditions: string[] = [];
+  if (ids.length > 0) {
+    conditions.push(`${column} IN (:...${param})`);
+  }
+  if (includeNone) {
+    conditions.push(`${column} IS NULL`);
+  }
+  return [conditions.join(' OR '), ids.length > 0 ? { [param]: ids } : {}];
+}
+
+function currentUser(context: TaskQueryContext, column: number): string {
+  if (!context.userId) {
+    throw taskQueryError('"me" is not available here', column);
+  }
+  return context.userId;
+}
@@ -0,0 +1,257 @@
+import { BadRequestException } from '@nestjs/common';
+import { TaskStatus } from '../enums/task-status.enum';
+import { TaskPriority } from '../enums/task-priority.enum';
+import { DATE_TOKEN_PATTERN, resolveDateToken } from '../utils/date-token';
+import { buildTsQuery } from '../utils/search-query';
+import { CUSTOM_FIELD_KEY_PATTERN } from '../../custom-fields/utils/custom-field-values';
+import { DateTerm, TaskQuery, TaskQueryOperator, TaskQueryTerm } from './task-query.ast';
+
+const DATE_FIELDS: Record<string, DateTerm['field']> = {
+  due: 'dueDate',
+  created: 'createdAt',
+  updated: 'updatedAt',
+};
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface RawValue {
+  text: string;
+  column: number;
+}
+
+export function taskQueryError(message: string, column: number): BadRequestException {
+  return new BadRequestException(`Invalid query: ${message} at column ${column}`);
+}
+
+// Parses expressions such as `status:PENDING,IN_PROGRESS priority>=MEDIUM due<+7d -tag:blocked
+// "release notes" cf.severity:high`. Terms are separated by whitespace and all of them must match; a leading
+// "-" negates a term, commas list alternatives and anything that is not `field<op>value` is
+// full-text search.
+export function parseTaskQuery(input: string): TaskQuery {
+  return new TaskQueryParser(input).parse();
+}
+
+class TaskQueryParser {
+  private pos = 0;
+
+  constructor(private readonly input: string) {}
+
+  parse(): TaskQuery {
+    const terms: TaskQueryTerm[] = [];
+    for (this.skipWhitespace(); this.pos < this.input.length; this.skipWhitespace()) {
+      terms.push(this.parseTerm());
+    }
+    return { terms };
+  }
+
+  private parseTerm(): TaskQueryTerm {
+    const column = this.column();
+    const negated = this.peek() === '-' && /\S/.test(this.input[this.pos + 1] ?? ' ');
+    if (negated) {
+      this.pos++;
+    }
+
+    if (this.peek() === '"') {
+      return this.textTerm(this.readQuoted().text, true, negated, column);
+    }
+
+    const fieldColumn = this.column();
+    const field = this.readWhile(ch => !/[\s:<>",]/.test(ch));
+    const operatorColumn = this.column();
+    const operator = this.readOperator();
+
+    if (!operator) {
+      const text = field + this.readWhile(ch => !/[\s"]/.test(ch));
+      return this.textTerm(text, false, negated, column);
+    }
+    if (!field) {
+      throw taskQueryError(`expected a field name before "${operator}"`, operatorColumn);
+    }
+
+    const values = this.readValues();
+    const base = { negated, column };
+    const name = field.toLowerCase();
+
+    if (name.startsWith('cf.')) {
+      const key = name.slice(3);
+      if (!CUSTOM_FIELD_KEY_PATTERN.test(key)) {
+        throw taskQueryError(`invalid custom field "${field}"`, fieldColumn);
+      }
+      if (operator !== ':' && values.length > 1) {
+        throw taskQueryError(`"${operator}" takes a single value`, values[1].column);
+      }
+      return { ...base, kind: 'customField', key, operator, values };
+    }
+
+    if (name in DATE_FIELDS) {
+      if (values.length > 1) {
+        throw taskQueryError(`${name} takes a single value`, values[1].column);
+      }
+      return {
+        ...base,
+        kind: 'date',
+        field: DATE_FIELDS[name],
+        operator,
+        value: this.dateValue(values[0], operator, name),
+      };
+    }
+
+    switch (name) {
+      case 'status':
+        this.requireEquality(name, operator, operatorColumn);
+        return {
+          ...base,
+          kind: 'status',
+          values: values.map(value => this.enumValue(value, TaskStatus, 'status')),
+        };
+      case 'priority':
+        if (operator !== ':' && values.length > 1) {
+          throw taskQueryError(`"${operator}" takes a single value`, values[1].column);
+        }
+        return {
+          ...base,
+          kind: 'priority',
+          operator,
+          values: values.map(value => this.enumValue(value, TaskPriority, 'priority')),
+        };
+      case 'tag':
+        this.requireEquality(name, operator, operatorColumn);
+        return { ...base, kind: 'tag', names: values.map(value => value.text.toLowerCase()) };
+      case 'assignee':
+        this.requireEquality(name, operator, operatorColumn);
+        return {
+          ...base,
+          kind: 'assignee',
+          values: values.map(value =>
+            this.idValue(value, ['me', 'none'], 'a user id, "me" or "none"'),
+          ),
+        };
+      case 'project':
+        this.requireEquality(name, operator, operatorColumn);
+        return {
+          ...base,
+          kind: 'project',
+          values: values.map(value => this.idValue(value, ['none'], 'a project id or "none"')),
+        };
+      default:
+        throw taskQueryError(`unknown field "${field}"`, fieldColumn);
+    }
+  }
+
+  private textTerm(text: string, phrase: boolean, negated: boolean, column: number): TaskQueryTerm {
+    if (!buildTsQuery(phrase ? `"${text}"` : text)) {
+      throw taskQueryError('expected search text', column);
+    }
+    return { kind: 'text', text, phrase, negated, column };
+  }
+
+  private requireEquality(field: string, operator: TaskQueryOperator, column: number): void {
+    if (operator !== ':') {
+      throw taskQueryError(`"${operator}" is not supported for ${field}`, column);
+    }
+  }
+
+  private enumValue<T extends string>(
+    value: RawValue,
+    values: Record<string, T>,
+    field: string,
+  ): T {
+    const normalized = value.text.toUpperCase() as T;
+    if (!Object.values(values).includes(normalized)) {
+      throw taskQueryError(`unknown ${field} "${value.text}"`, value.column);
+    }
+    return normalized;
+  }
+
+  private dateValue(value: RawValue, operator: TaskQueryOperator, field: string): string {
+    const text = value.text.toLowerCase();
+    if (text === 'none') {
+      if (operator !== ':') {
+        throw taskQueryError(`"none" can only be used as ${field}:none`, value.column);
+      }
+      return text;
+    }
+    if (!DATE_TOKEN_PATTERN.test(text)) {
+      throw taskQueryError(`invalid date "${value.text}"`, value.column);
+    }
+    try {
+      resolveDateToken(text, 'start');
+    } catch {
+      throw taskQueryError(`invalid date "${value.text}"`, value.column);
+    }
+    return text;
+  }
+
+  private idValue(value: RawValue, keywords: string[], expected: string): string {
+    const text = value.text.toLowerCase();
+    if (!keywords.includes(text) && !UUID_PATTERN.test(text)) {
+      throw taskQueryError(`expected ${expected}`, value.column);
+    }
+    return text;
+  }
+
+  private readValues(): RawValue[] {
+    const values: RawValue[] = [];
+    for (;;) {
+      const column = this.column();
+      const text =
+        this.peek() === '"' ? this.readQuoted().text : this.readWhile(ch => !/[\s,"]/.test(ch));
+      if (!text) {
+        throw taskQueryError('expected a value', column);
+      }
+      values.push({ text, column });
+
+      if (this.peek() !== ',') {
+        return values;
+      }
+      this.pos++;
+    }
+  }
+
+  private readOperator(): TaskQueryOperator | null {
+    const ch = this.peek();
+    if (ch === ':') {
+      this.pos++;
+      return ':';
+    }
+    if (ch === '<' || ch === '>') {
+      this.pos++;
+      if (this.peek() === '=') {
+        this.pos++;
+        return `${ch}=`;
+      }
+      return ch;
+    }
+    return null;
+  }
+
+  private readQuoted(): RawValue {
+    const column = this.column();
+    const end = this.input.indexOf('"', this.pos + 1);
+    if (end === -1) {
+      throw taskQueryError('unterminated quote', column);
+    }
+    const text = this.input.slice(this.pos + 1, end);
+    this.pos = end + 1;
+    return { text, column };
+  }
+
+  private readWhile(predicate: (ch: string) => boolean): string {
+    const start = this.pos;
+    while (this.pos < this.input.length && predicate(this.input[this.pos])) {
+      this.pos++;
+    }
+    return this.input.slice(start, this.pos);
+  }
+
+  private skipWhitespace(): void {
+    this.readWhile(ch => /\s/.test(ch));
+  }
+
+  private peek(): string | undefined {
+    return this.input[this.pos];
+  }
+
+  private column(): number {
+    return this.pos + 1;
+  }
+}
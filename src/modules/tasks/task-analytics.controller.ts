@@ -0,0 +1,34 @@
+import { Controller, Get, UseGuards, Query, ParseUUIDPipe } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { JwtAuthGuard } from '@modules/auth/guards/jwt-auth.guard';
+import { CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { TaskAnalyticsService } from './task-analytics.service';
+
+@ApiTags('analytics')
+@Controller('analytics')
+@UseGuards(JwtAuthGuard, RateLimitGuard)
+@RateLimit({ limit: 100, windowMs: 60000 })
+@ApiBearerAuth()
+export class TaskAnalyticsController {
+  constructor(private readonly analyticsService: TaskAnalyticsService) {}
+
+  @Get('burndown')
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Daily remaining, completed and added story points' })
+  @ApiQuery({ name: 'from', required: true, description: 'First day, e.g. 2026-10-01 or -14d' })
+  @ApiQuery({ name: 'to', required: true, description: 'Last day, included, e.g. today' })
+  @ApiQuery({ name: 'projectId', required: false })
+  @ApiQuery({ name: 'tagId', required: false })
+  getBurndown(
+    @CurrentUser() user: any,
+    @Query('from') from: string,
+    @Query('to') to: string,
+    @Query('projectId', new ParseUUIDPipe({ optional: true })) projectId?: string,
+    @Query('tagId', new ParseUUIDPipe({ optional: true })) tagId?: string,
+  ) {
+    return this.analyticsService.getBurndown(user, { from, to, projectId, tagId });
+  }
+}
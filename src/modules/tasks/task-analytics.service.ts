@@ -0,0 +1,107 @@
+import { ForbiddenException, Inject, Injectable, Logger } from '@nestjs/common';
+import { In, MoreThanOrEqual } from 'typeorm';
+import { TaskEvent } from './entities/task-event.entity';
+import { ProjectMember } from '../projects/entities/project-member.entity';
+import { Role } from '../auth/enums/role.enum';
+import type { ITaskRepository } from './interfaces/task-repository.interface';
+import {
+  Burndown,
+  BurndownEvent,
+  BurndownTask,
+  computeBurndown,
+  resolveBurndownRange,
+} from './utils/burndown';
+import { retry } from '@common/utils/retry';
+
+export interface BurndownOptions {
+  from: string;
+  to: string;
+  projectId?: string;
+  tagId?: string;
+}
+
+@Injectable()
+export class TaskAnalyticsService {
+  constructor(
+    @Inject('ITaskRepository')
+    private readonly tasksRepository: ITaskRepository,
+  ) {}
+
+  // Admins and project members see the whole project; otherwise only the user's own tasks
+  // count. Tag membership is not part of the task history, so the current tags are used.
+  async getBurndown(
+    user: any,
+    options: BurndownOptions,
+  ): Promise<Burndown & { projectId: string | null; tagId: string | null }> {
+    const range = resolveBurndownRange(options.from, options.to);
+    if (options.projectId && user.role !== Role.Admin) {
+      await this.ensureProjectMember(options.projectId, user.id);
+    }
+
+    const query = this.tasksRepository
+      .createQueryBuilder('task')
+      .withDeleted()
+      .select([
+        'task.id',
+        'task.status',
+        'task.storyPoints',
+        'task.projectId',
+        'task.createdAt',
+        'task.deletedAt',
+      ])
+      .where('task.createdAt <= :to', range)
+      .andWhere('(task.deletedAt IS NULL OR task.deletedAt >= :from)', range);
+
+    if (options.projectId) {
+      // Tasks moved out of the project still count for the days they spent in it
+      query.andWhere(
+        `(task.projectId = :projectId OR task.id IN (
+          SELECT event.task_id FROM task_events event
+          WHERE event.changes -> 'projectId' ->> 'from' = :projectId
+        ))`,
+        { projectId: options.projectId },
+      );
+    } else if (user.role !== Role.Admin) {
+      query.andWhere('(task.createdBy = :userId OR task.assigneeId = :userId)', {
+        userId: user.id,
+      });
+    }
+    if (options.tagId) {
+      query.innerJoin('task.tags', 'tag', 'tag.id = :tagId', { tagId: options.tagId });
+    }
+
+    try {
+      const tasks: BurndownTask[] = await retry(() => query.getMany());
+      const events: BurndownEvent[] =
+        tasks.length === 0
+          ? []
+          : await retry(() =>
+              this.tasksRepository.manager.find(TaskEvent, {
+                select: ['taskId', 'type', 'changes', 'createdAt'],
+                where: {
+                  taskId: In(tasks.map(task => task.id)),
+                  createdAt: MoreThanOrEqual(range.from),
+                },
+              }),
+            );
+
+      return {
+        ...computeBurndown(range, tasks, events, options.projectId),
+        projectId: options.projectId ?? null,
+        tagId: options.tagId ?? null,
+      };
+    } catch (err) {
+      Logger.error('Error computing burndown:', err);
+      throw err;
+    }
+  }
+
+  private async ensureProjectMember(projectId: string, userId: string): Promise<void> {
+    const member = await retry(() =>
+      this.tasksRepository.manager.findOne(ProjectMember, { where: { projectId, userId } }),
+    );
+    if (!member) {
+      throw new ForbiddenException('You are not a member of this project');
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Delete,
+  UseGuards,
+  HttpStatus,
+  UsePipes,
+  ValidationPipe,
+  ForbiddenException,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { JwtAuthGuard } from '@modules/auth/guards/jwt-auth.guard';
+import { CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { canEditTask, canViewTask } from './policies/task-access.policy';
+import { Task } from './entities/task.entity';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { TasksService } from './tasks.service';
+import { TaskDependenciesService } from './task-dependencies.service';
+import { CreateTaskDependencyDto } from './dto/create-task-dependency.dto';
+
+@ApiTags('tasks')
+@Controller('tasks/:id/dependencies')
+@UseGuards(JwtAuthGuard, RateLimitGuard)
+@RateLimit({ limit: 100, windowMs: 60000 })
+@ApiBearerAuth()
+@UsePipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
+export class TaskDependenciesController {
+  constructor(
+    private readonly tasksService: TasksService,
+    private readonly dependenciesService: TaskDependenciesService,
+  ) {}
+
+  @Get()
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'List tasks blocking and blocked by a task' })
+  async findAll(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: any) {
+    await this.ensureAccess(id, user, canViewTask);
+    return this.dependenciesService.findForTask(id);
+  }
+
+  @Post()
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Mark a task as blocked by another task' })
+  async create(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() createDependencyDto: CreateTaskDependencyDto,
+    @CurrentUser() user: any,
+  ) {
+    await this.ensureAccess(id, user);
+    await this.ensureAccess(createDependencyDto.blockerId, user);
+    return this.dependenciesService.addDependency(id, createDependencyDto.blockerId);
+  }
+
+  @Delete(':blockerId')
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Remove a blocking dependency' })
+  async remove(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('blockerId', ParseUUIDPipe) blockerId: string,
+    @CurrentUser() user: any,
+  ) {
+    await this.ensureAccess(id, user);
+    await this.dependenciesService.removeDependency(id, blockerId);
+    return {
+      statusCode: HttpStatus.OK,
+      message: 'Dependency successfully removed',
+    };
+  }
+
+  private async ensureAccess(
+    taskId: string,
+    user: any,
+    canAccess: (task: Task, user: any) => boolean = canEditTask,
+  ): Promise<void> {
+    const task = await this.tasksService.findOne(taskId);
+    if (!canAccess(task, user)) {
+      throw new ForbiddenException('You are not allowed to access this task');
+    }
+  }
+}
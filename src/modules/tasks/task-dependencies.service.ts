@@ -0,0 +1,155 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Task } from './entities/task.entity';
+import { TaskDependency } from './entities/task-dependency.entity';
+import { CLOSED_TASK_STATUSES } from './workflow/task-workflow';
+import type { ITaskDependencyRepository } from './interfaces/task-dependency-repository.interface';
+import { retry } from '@common/utils/retry';
+
+@Injectable()
+export class TaskDependenciesService {
+  constructor(
+    @Inject('ITaskDependencyRepository')
+    private readonly dependenciesRepository: ITaskDependencyRepository,
+  ) {}
+
+  async findForTask(taskId: string): Promise<{ blockedBy: Task[]; blocking: Task[] }> {
+    try {
+      const [blockedBy, blocking] = await Promise.all([
+        retry(() =>
+          this.dependenciesRepository.find({
+            where: { blockedId: taskId },
+            relations: ['blocker'],
+            order: { createdAt: 'ASC' },
+          }),
+        ),
+        retry(() =>
+          this.dependenciesRepository.find({
+            where: { blockerId: taskId },
+            relations: ['blocked'],
+            order: { createdAt: 'ASC' },
+          }),
+        ),
+      ]);
+
+      // Trashed tasks are not joined, so their edges come back without the related task
+      return {
+        blockedBy: blockedBy.map(edge => edge.blocker).filter(Boolean),
+        blocking: blocking.map(edge => edge.blocked).filter(Boolean),
+      };
+    } catch (err) {
+      Logger.error(`Error fetching dependencies for task ${taskId}:`, err);
+      throw err;
+    }
+  }
+
+  async addDependency(blockedId: string, blockerId: string): Promise<TaskDependency> {
+    if (blockedId === blockerId) {
+      throw new BadRequestException('A task cannot depend on itself');
+    }
+
+    const queryRunner = this.dependenciesRepository.manager.connection.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
+    try {
+      // Serialise graph mutations so two concurrent inserts cannot close a cycle together
+      await queryRunner.query(`SELECT pg_advisory_xact_lock(hashtext('task_dependencies'))`);
+
+      const blocker = await queryRunner.manager.findOne(Task, { where: { id: blockerId } });
+      if (!blocker) {
+        throw new NotFoundException('Blocking task not found');
+      }
+
+      const existing = await queryRunner.manager.findOne(TaskDependency, {
+        where: { blockerId, blockedId },
+      });
+      if (existing) {
+        throw new ConflictException('Dependency already exists');
+      }
+
+      if (await this.reaches(queryRunner.manager, blockedId, blockerId)) {
+        throw new ConflictException('Dependency would create a cycle');
+      }
+
+      const dependency = await queryRunner.manager.save(
+        queryRunner.manager.create(TaskDependency, { blockerId, blockedId }),
+      );
+
+      if (!CLOSED_TASK_STATUSES.includes(blocker.status)) {
+        await queryRunner.manager.update(Task, blockedId, { isBlocked: true });
+      }
+
+      await queryRunner.commitTransaction();
+      return dependency;
+    } catch (err) {
+      await queryRunner.rollbackTransaction();
+      Logger.error(`Failed to add dependency ${blockerId} -> ${blockedId}:`, err);
+      throw err;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  async removeDependency(blockedId: string, blockerId: string): Promise<void> {
+    try {
+      const deleteResult = await retry(() =>
+        this.dependenciesRepository.delete({ blockerId, blockedId }),
+      );
+      if (deleteResult.affected === 0) {
+        throw new NotFoundException('Dependency not found');
+      }
+      await this.refreshBlockedState([blockedId]);
+    } catch (err) {
+      Logger.error(`Failed to remove dependency ${blockerId} -> ${blockedId}:`, err);
+      throw err;
+    }
+  }
+
+  async refreshDependentsOf(blockerId: string): Promise<string[]> {
+    const dependents = await retry(() =>
+      this.dependenciesRepository.find({ where: { blockerId } }),
+    );
+    const blockedIds = dependents.map(edge => edge.blockedId);
+
+    if (blockedIds.length > 0) {
+      await this.refreshBlockedState(blockedIds);
+    }
+
+    return blockedIds;
+  }
+
+  private async refreshBlockedState(taskIds: string[]): Promise<void> {
+    await retry(() =>
+      this.dependenciesRepository.manager.query(
+        `UPDATE tasks t SET is_blocked = EXISTS (
+           SELECT 1 FROM task_dependencies d
+           INNER JOIN tasks b ON b.id = d.blocker_id
+           WHERE d.blocked_id = t.id AND b.status <> ALL($2) AND b.deleted_at IS NULL
+         )
+         WHERE t.id = ANY($1)`,
+        [taskIds, CLOSED_TASK_STATUSES],
+      ),
+    );
+  }
+
+  // True when `fromId` already (transitively) blocks `toId`
+  private async reaches(manager: any, fromId: string, toId: string): Promise<boolean> {
+    const rows: unknown[] = await manager.query(
+      `WITH RECURSIVE downstream AS (
+         SELECT blocked_id FROM task_dependencies WHERE blocker_id = $1
+         UNION
+         SELECT d.blocked_id FROM task_dependencies d
+         INNER JOIN downstream ds ON d.blocker_id = ds.blocked_id
+       )
+       SELECT 1 FROM downstream WHERE blocked_id = $2 LIMIT 1`,
+      [fromId, toId],
+    );
+    return rows.length > 0;
+  }
+}
@@ -0,0 +1,149 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { In } from 'typeorm';
+import { Task } from './entities/task.entity';
+import { TaskEscalation } from './entities/task-escalation.entity';
+import { TaskStatus } from './enums/task-status.enum';
+import { TaskPriority } from './enums/task-priority.enum';
+import { TaskEventSource } from './enums/task-event-source.enum';
+import { EscalationAction } from './enums/escalation-action.enum';
+import { TasksService } from './tasks.service';
+import { CLOSED_TASK_STATUSES, findTransition } from './workflow/task-workflow';
+import {
+  DEFAULT_ESCALATION_POLICY,
+  EscalationStep,
+  parseEscalationPolicy,
+  pendingEscalationSteps,
+} from './utils/escalation-policy';
+import { ProjectMember } from '../projects/entities/project-member.entity';
+import { ProjectRole } from '../projects/enums/project-role.enum';
+import { User } from '../users/entities/user.entity';
+import { Role } from '../auth/enums/role.enum';
+import { NotificationsService } from '../notifications/notifications.service';
+import { NotificationType } from '../notifications/enums/notification-type.enum';
+import type { ITaskRepository } from './interfaces/task-repository.interface';
+import type { TaskActor } from './interfaces/task-actor.interface';
+import { retry } from '@common/utils/retry';
+
+const ESCALATION_ACTOR: TaskActor = { userId: null, source: TaskEventSource.QUEUE };
+
+@Injectable()
+export class TaskEscalationService {
+  private readonly policy: EscalationStep[];
+
+  constructor(
+    @Inject('ITaskRepository')
+    private readonly tasksRepository: ITaskRepository,
+    private readonly tasksService: TasksService,
+    private readonly notificationsService: NotificationsService,
+    configService: ConfigService,
+  ) {
+    const policy = configService.get<string>('OVERDUE_ESCALATION_POLICY');
+    try {
+      this.policy = parseEscalationPolicy(policy ?? DEFAULT_ESCALATION_POLICY);
+    } catch (error) {
+      Logger.warn(
+        `Invalid OVERDUE_ESCALATION_POLICY, using the default: ${error instanceof Error ? error.message : error}`,
+      );
+      this.policy = parseEscalationPolicy(DEFAULT_ESCALATION_POLICY);
+    }
+  }
+
+  // Runs the steps of the policy the task is overdue long enough for, each once per due date.
+  // Returns the keys of the steps that fired.
+  async escalate(taskId: string, now = new Date()): Promise<string[]> {
+    let task = await retry(() => this.tasksRepository.findOne({ where: { id: taskId } }));
+    if (!task?.dueDate || CLOSED_TASK_STATUSES.includes(task.status)) {
+      return [];
+    }
+
+    const dueDate = new Date(task.dueDate);
+    if (dueDate < now) {
+      await this.tasksService.notifyOverdueTasks(task);
+    }
+
+    const fired: TaskEscalation[] = await retry(() =>
+      this.tasksRepository.manager.find(TaskEscalation, {
+        select: { id: true, step: true },
+        where: { taskId, dueDate },
+      }),
+    );
+    const steps = pendingEscalationSteps(
+      this.policy,
+      dueDate,
+      fired.map(escalation => escalation.step),
+      now,
+    );
+
+    const escalated: string[] = [];
+    for (const step of steps) {
+      try {
+        task = await this.runStep(task, step, now);
+        await retry(() =>
+          this.tasksRepository.manager.insert(TaskEscalation, {
+            taskId,
+            step: step.key,
+            dueDate,
+          }),
+        );
+        escalated.push(step.key);
+      } catch (err) {
+        Logger.error(`Failed to run escalation step ${step.key} for task ${taskId}:`, err);
+        throw err;
+      }
+    }
+    return escalated;
+  }
+
+  private async runStep(task: Task, step: EscalationStep, now: Date): Promise<Task> {
+    switch (step.action) {
+      case EscalationAction.RAISE_PRIORITY:
+        if (task.priority === TaskPriority.HIGH) {
+          return task;
+        }
+        return this.tasksService.update(task.id, { priority: TaskPriority.HIGH }, ESCALATION_ACTOR);
+      case EscalationAction.MARK_STALE:
+        // Tasks in review cannot be blocked; the step still counts as fired
+        if (!findTransition(task.status, TaskStatus.BLOCKED)) {
+          return task;
+        }
+        return this.tasksService.update(task.id, { status: TaskStatus.BLOCKED }, ESCALATION_ACTOR);
+      case EscalationAction.NOTIFY_ADMINS: {
+        const due = new Date(task.dueDate);
+        const overdueHours = Math.floor((now.getTime() - due.getTime()) / (60 * 60 * 1000));
+        const admins = await this.findAdmins(task);
+        await this.notificationsService.notify(
+          admins.map(admin => ({
+            userId: admin.id,
+            type: NotificationType.ESCALATED,
+            taskId: task.id,
+            title: `"${task.title}" is overdue by ${overdueHours}h`,
+            data: { dueDate: due.toISOString(), overdueHours, step: step.key },
+            dedupeKey: `escalated:${task.id}:${step.key}:${due.toISOString()}`,
+          })),
+        );
+        return task;
+      }
+    }
+  }
+
+  // Project tasks go to the owners and managers of the project, other tasks to the admins
+  private async findAdmins(task: Task): Promise<User[]> {
+    if (task.projectId) {
+      const members: ProjectMember[] = await retry(() =>
+        this.tasksRepository.manager.find(ProjectMember, {
+          where: {
+            projectId: task.projectId,
+            role: In([ProjectRole.Owner, ProjectRole.Manager]),
+          },
+          relations: ['user'],
+        }),
+      );
+      if (members.length > 0) {
+        return members.map(member => member.user);
+      }
+    }
+
+    return retry(() => this.tasksRepository.manager.find(User, { where: { role: Role.Admin } }));
+  }
+}
@@ -0,0 +1,117 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  HttpStatus,
+  UsePipes,
+  ValidationPipe,
+  ForbiddenException,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { JwtAuthGuard } from '@modules/auth/guards/jwt-auth.guard';
+import { CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { canEditTask, canManageSeries, canViewTask } from './policies/task-access.policy';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { TasksService } from './tasks.service';
+import { TaskSeriesService } from './task-series.service';
+import { Task } from './entities/task.entity';
+import { CreateTaskRecurrenceDto } from './dto/create-task-recurrence.dto';
+import { UpdateTaskRecurrenceDto } from './dto/update-task-recurrence.dto';
+import { RecurrenceScope } from './enums/recurrence-scope.enum';
+import { TaskEventSource } from './enums/task-event-source.enum';
+import { TaskActor } from './interfaces/task-actor.interface';
+
+@ApiTags('tasks')
+@Controller('tasks/:id/recurrence')
+@UseGuards(JwtAuthGuard, RateLimitGuard)
+@RateLimit({ limit: 100, windowMs: 60000 })
+@ApiBearerAuth()
+@UsePipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
+export class TaskRecurrenceController {
+  constructor(
+    private readonly tasksService: TasksService,
+    private readonly seriesService: TaskSeriesService,
+  ) {}
+
+  @Get()
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Get the recurring series of a task and its upcoming dates' })
+  async findOne(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: any) {
+    const task = await this.ensureAccess(id, user, canViewTask);
+    return this.seriesService.findForTask(task);
+  }
+
+  @Post()
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Make a task recurring using an RRULE' })
+  async create(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() createRecurrenceDto: CreateTaskRecurrenceDto,
+    @CurrentUser() user: any,
+  ) {
+    const task = await this.ensureAccess(id, user);
+    return this.seriesService.makeRecurring(task, createRecurrenceDto, this.actorOf(user));
+  }
+
+  @Patch()
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Edit this occurrence or this and all future occurrences' })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateRecurrenceDto: UpdateTaskRecurrenceDto,
+    @CurrentUser() user: any,
+  ) {
+    const task = await this.ensureAccess(id, user);
+    if (
+      updateRecurrenceDto.scope === RecurrenceScope.FUTURE ||
+      updateRecurrenceDto.recurrenceRule
+    ) {
+      await this.ensureSeriesAccess(task, user);
+    }
+    return this.seriesService.updateOccurrences(task, updateRecurrenceDto, this.actorOf(user));
+  }
+
+  @Delete()
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Stop generating further occurrences' })
+  async remove(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: any) {
+    const task = await this.ensureAccess(id, user);
+    await this.ensureSeriesAccess(task, user);
+    await this.seriesService.stopRecurrence(task);
+    return {
+      statusCode: HttpStatus.OK,
+      message: 'Recurrence successfully stopped',
+    };
+  }
+
+  private async ensureAccess(
+    taskId: string,
+    user: any,
+    canAccess: (task: Task, user: any) => boolean = canEditTask,
+  ): Promise<Task> {
+    const task = await this.tasksService.findOne(taskId);
+    if (!canAccess(task, user)) {
+      throw new ForbiddenException('You are not allowed to access this task');
+    }
+    return task;
+  }
+
+  private async ensureSeriesAccess(task: Task, user: any): Promise<void> {
+    const series = await this.seriesService.findSeries(task);
+    if (!canManageSeries(series, task, user)) {
+      throw new ForbiddenException('You are not allowed to change this recurring series');
+    }
+  }
+
+  private actorOf(user: any): TaskActor {
+    return { userId: user.id, source: TaskEventSource.HTTP };
+  }
+}
@@ -0,0 +1,419 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { In, LessThan, MoreThan, MoreThanOrEqual } from 'typeorm';
+import { Task } from './entities/task.entity';
+import { TaskSeries } from './entities/task-series.entity';
+import { TaskStatus } from './enums/task-status.enum';
+import { TaskEventType } from './enums/task-event-type.enum';
+import { TaskEventSource } from './enums/task-event-source.enum';
+import { CLOSED_TASK_STATUSES, OPEN_TASK_STATUSES } from './workflow/task-workflow';
+import { RecurrenceScope } from './enums/recurrence-scope.enum';
+import { CreateTaskRecurrenceDto } from './dto/create-task-recurrence.dto';
+import { UpdateTaskRecurrenceDto } from './dto/update-task-recurrence.dto';
+import type { ITaskSeriesRepository } from './interfaces/task-series-repository.interface';
+import type { ITaskQueueService } from './interfaces/task-queue.interface';
+import type { TaskActor } from './interfaces/task-actor.interface';
+import { buildRecurrence, nextOccurrence, normalizeRecurrenceRule } from './utils/recurrence';
+import { diffTask } from './utils/task-diff';
+import { recordTaskEvent } from './utils/task-events';
+import { retry } from '@common/utils/retry';
+
+// Occurrences are generated by the scheduler and the task processor, not by a user
+const SERIES_ACTOR: TaskActor = { userId: null, source: TaskEventSource.QUEUE };
+
+@Injectable()
+export class TaskSeriesService {
+  constructor(
+    @Inject('ITaskSeriesRepository')
+    private readonly seriesRepository: ITaskSeriesRepository,
+    @Inject('ITaskQueueService')
+    private readonly taskQueueService: ITaskQueueService,
+  ) {}
+
+  async findForTask(task: Task, preview = 5): Promise<{ series: TaskSeries; upcoming: Date[] }> {
+    const series = await this.findSeries(task);
+    const upcoming: Date[] = [];
+
+    if (series.active && series.lastOccurrenceAt) {
+      const rule = buildRecurrence(series.recurrenceRule, series.startsAt);
+      let cursor: Date | null = series.lastOccurrenceAt;
+      while (upcoming.length < preview && cursor) {
+        cursor = rule.after(cursor, false);
+        if (cursor) upcoming.push(cursor);
+      }
+    }
+
+    return { series, upcoming };
+  }
+
+  async makeRecurring(
+    task: Task,
+    dto: CreateTaskRecurrenceDto,
+    actor: TaskActor,
+  ): Promise<TaskSeries> {
+    if (task.seriesId) {
+      throw new ConflictException('Task already belongs to a recurring series');
+    }
+
+    const recurrenceRule = normalizeRecurrenceRule(dto.recurrenceRule);
+    const startsAt = dto.startsAt ? new Date(dto.startsAt) : (task.dueDate ?? task.createdAt);
+    const firstOccurrence = nextOccurrence(recurrenceRule, startsAt, null);
+    if (!firstOccurrence) {
+      throw new BadRequestException('Recurrence rule does not produce any occurrences');
+    }
+
+    const queryRunner = this.seriesRepository.manager.connection.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
+    try {
+      const series = await queryRunner.manager.save(
+        queryRunner.manager.create(TaskSeries, {
+          recurrenceRule,
+          startsAt,
+          title: task.title,
+          description: task.description,
+          priority: task.priority,
+          userId: task.createdBy,
+          assigneeId: task.assigneeId,
+          lastOccurrenceAt: firstOccurrence,
+          nextOccurrenceAt: nextOccurrence(recurrenceRule, startsAt, firstOccurrence),
+          active: true,
+        }),
+      );
+
+      const dueDate = task.dueDate ?? firstOccurrence;
+      await queryRunner.manager.update(Task, task.id, {
+        seriesId: series.id,
+        occurrenceAt: firstOccurrence,
+        dueDate,
+      });
+      await recordTaskEvent(
+        queryRunner.manager,
+        task.id,
+        TaskEventType.UPDATED,
+        actor,
+        diffTask(task, { ...task, dueDate }),
+      );
+
+      await queryRunner.commitTransaction();
+      if (!task.dueDate && !CLOSED_TASK_STATUSES.includes(task.status)) {
+        await this.taskQueueService.scheduleDueReminders(task.id, firstOccurrence);
+      }
+      return series;
+    } catch (err) {
+      await queryRunner.rollbackTransaction();
+      Logger.error(`Failed to make task ${task.id} recurring:`, err);
+      throw err;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  async updateOccurrences(
+    task: Task,
+    dto: UpdateTaskRecurrenceDto,
+    actor: TaskActor,
+  ): Promise<Task> {
+    const { scope, recurrenceRule, ...fields } = dto;
+    const series = await this.findSeries(task);
+
+    if (scope === RecurrenceScope.THIS) {
+      if (recurrenceRule) {
+        throw new BadRequestException(
+          'The recurrence rule can only be changed for future occurrences',
+        );
+      }
+      if (Object.keys(fields).length === 0) {
+        throw new BadRequestException('No changes provided for this occurrence');
+      }
+      await retry(() =>
+        this.seriesRepository.manager.transaction(async (manager: any) => {
+          await manager.update(Task, task.id, fields);
+          await recordTaskEvent(
+            manager,
+            task.id,
+            TaskEventType.UPDATED,
+            actor,
+            diffTask(task, { ...task, ...fields }),
+          );
+        }),
+      );
+      return this.reloadTask(task.id);
+    }
+
+    const pivot = task.occurrenceAt ?? task.createdAt;
+    const rule = recurrenceRule ? normalizeRecurrenceRule(recurrenceRule) : series.recurrenceRule;
+    buildRecurrence(rule, pivot);
+
+    const queryRunner = this.seriesRepository.manager.connection.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
+    try {
+      const earlierOccurrences = await queryRunner.manager.count(Task, {
+        where: { seriesId: series.id, occurrenceAt: LessThan(pivot) },
+      });
+
+      // Without history before the pivot the series can be edited in place; otherwise the
+      // old series is closed and this occurrence starts a new one
+      let target = series;
+      if (earlierOccurrences > 0) {
+        await queryRunner.manager.update(TaskSeries, series.id, {
+          active: false,
+          nextOccurrenceAt: null,
+        });
+        target = queryRunner.manager.create(TaskSeries, {
+          title: series.title,
+          description: series.description,
+          priority: series.priority,
+          userId: series.userId,
+          assigneeId: series.assigneeId,
+          active: true,
+        });
+      }
+
+      const ruleChanged = rule !== series.recurrenceRule;
+      Object.assign(target, fields, {
+        recurrenceRule: ruleChanged ? rule : this.remainingRule(series, pivot),
+        startsAt: pivot,
+        lastOccurrenceAt: pivot,
+      });
+      target = await queryRunner.manager.save(target);
+
+      let dropped: Task[] = [];
+      if (ruleChanged) {
+        // Already generated occurrences no longer match the new schedule: those not started
+        // yet are moved to the trash, those in progress are kept as standalone tasks. Both
+        // leave the series so their slots are free for the new schedule.
+        dropped = await queryRunner.manager.find(Task, {
+          where: {
+            seriesId: series.id,
+            occurrenceAt: MoreThan(pivot),
+            status: TaskStatus.PENDING,
+          },
+        });
+        if (dropped.length > 0) {
+          const droppedIds = dropped.map(occurrence => occurrence.id);
+          await queryRunner.manager.update(Task, droppedIds, {
+            seriesId: null,
+            occurrenceAt: null,
+          });
+          await queryRunner.manager.softDelete(Task, droppedIds);
+          for (const occurrence of dropped) {
+            await recordTaskEvent(
+              queryRunner.manager,
+              occurrence.id,
+              TaskEventType.DELETED,
+              actor,
+              {},
+            );
+          }
+        }
+        await queryRunner.manager.update(
+          Task,
+          {
+            seriesId: series.id,
+            occurrenceAt: MoreThan(pivot),
+            status: In(OPEN_TASK_STATUSES),
+          },
+          { seriesId: null, occurrenceAt: null },
+        );
+      }
+
+      const futureOccurrences: Task[] = await queryRunner.manager.find(Task, {
+        where: {
+          seriesId: series.id,
+          occurrenceAt: MoreThanOrEqual(pivot),
+          status: In(OPEN_TASK_STATUSES),
+        },
+      });
+      const moved = [task, ...futureOccurrences.filter(occurrence => occurrence.id !== task.id)];
+      await queryRunner.manager.update(
+        Task,
+        moved.map(occurrence => occurrence.id),
+        { ...fields, seriesId: target.id },
+      );
+      for (const occurrence of moved) {
+        await recordTaskEvent(
+          queryRunner.manager,
+          occurrence.id,
+          TaskEventType.UPDATED,
+          actor,
+          diffTask(occurrence, { ...occurrence, ...fields }),
+        );
+      }
+
+      // The series continues after the latest occurrence it now holds, so the next generated
+      // one never lands on an occurrence that already exists. Trashed tasks count as well,
+      // they still hold their slot in the unique index.
+      const { latest } = await queryRunner.manager
+        .createQueryBuilder(Task, 'task')
+        .withDeleted()
+        .select('MAX(task.occurrenceAt)', 'latest')
+        .where('task.seriesId = :seriesId', { seriesId: target.id })
+        .getRawOne();
+      const lastOccurrenceAt = latest ? new Date(latest) : pivot;
+      await queryRunner.manager.update(TaskSeries, target.id, {
+        lastOccurrenceAt,
+        nextOccurrenceAt: target.active
+          ? nextOccurrence(target.recurrenceRule, target.startsAt, lastOccurrenceAt)
+          : null,
+      });
+
+      await queryRunner.commitTransaction();
+      for (const occurrence of dropped) {
+        await this.taskQueueService.enqueueDependencyRefresh(occurrence.id);
+        await this.taskQueueService.cancelDueReminders(occurrence.id);
+      }
+    } catch (err) {
+      await queryRunner.rollbackTransaction();
+      Logger.error(`Failed to update future occurrences of series ${series.id}:`, err);
+      throw err;
+    } finally {
+      await queryRunner.release();
+    }
+
+    return this.reloadTask(task.id);
+  }
+
+  async stopRecurrence(task: Task): Promise<void> {
+    const series = await this.findSeries(task);
+    await retry(() =>
+      this.seriesRepository.manager.update(TaskSeries, series.id, {
+        active: false,
+        nextOccurrenceAt: null,
+      }),
+    );
+  }
+
+  async generateNext(seriesId: string): Promise<Task | null> {
+    const queryRunner = this.seriesRepository.manager.connection.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
+    try {
+      const series: TaskSeries | null = await queryRunner.manager.findOne(TaskSeries, {
+        where: { id: seriesId },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      if (!series || !series.active) {
+        await queryRunner.commitTransaction();
+        return null;
+      }
+
+      const occurrenceAt = nextOccurrence(
+        series.recurrenceRule,
+        series.startsAt,
+        series.lastOccurrenceAt,
+      );
+
+      if (!occurrenceAt) {
+        // COUNT or UNTIL exhausted
+        series.active = false;
+        series.nextOccurrenceAt = null;
+        await queryRunner.manager.save(series);
+        await queryRunner.commitTransaction();
+        return null;
+      }
+
+      const occurrence = await queryRunner.manager.save(
+        queryRunner.manager.create(Task, {
+          title: series.title,
+          description: series.description ?? undefined,
+          priority: series.priority,
+          status: TaskStatus.PENDING,
+          createdBy: series.userId,
+          assigneeId: series.assigneeId,
+          dueDate: occurrenceAt,
+          seriesId: series.id,
+          occurrenceAt,
+        }),
+      );
+      await recordTaskEvent(
+        queryRunner.manager,
+        occurrence.id,
+        TaskEventType.CREATED,
+        SERIES_ACTOR,
+        diffTask(null, occurrence),
+      );
+
+      series.lastOccurrenceAt = occurrenceAt;
+      series.nextOccurrenceAt = nextOccurrence(
+        series.recurrenceRule,
+        series.startsAt,
+        occurrenceAt,
+      );
+      await queryRunner.manager.save(series);
+
+      await queryRunner.commitTransaction();
+      await this.taskQueueService.scheduleDueReminders(occurrence.id, occurrenceAt);
+      return occurrence;
+    } catch (err) {
+      await queryRunner.rollbackTransaction();
+      Logger.error(`Failed to generate next occurrence for series ${seriesId}:`, err);
+      throw err;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  async handleOccurrenceCompleted(task: Task): Promise<Task | null> {
+    if (!task.seriesId || !task.occurrenceAt) {
+      return null;
+    }
+
+    const series = await retry(() =>
+      this.seriesRepository.findOne({ where: { id: task.seriesId } }),
+    );
+
+    // Only completing the latest generated occurrence pulls the next one forward
+    if (
+      !series ||
+      !series.lastOccurrenceAt ||
+      series.lastOccurrenceAt.getTime() !== task.occurrenceAt.getTime()
+    ) {
+      return null;
+    }
+
+    return this.generateNext(series.id);
+  }
+
+  private remainingRule(series: TaskSeries, pivot: Date): string {
+    const rule = buildRecurrence(series.recurrenceRule, series.startsAt);
+    if (!rule.options.count) {
+      return series.recurrenceRule;
+    }
+
+    const consumed = rule.between(series.startsAt, pivot, true).filter(date => date < pivot);
+    const remaining = Math.max(rule.options.count - consumed.length, 1);
+    return series.recurrenceRule.replace(/COUNT=\d+/, `COUNT=${remaining}`);
+  }
+
+  async findSeries(task: Task): Promise<TaskSeries> {
+    if (!task.seriesId) {
+      throw new NotFoundException('Task is not part of a recurring series');
+    }
+    const series = await retry(() =>
+      this.seriesRepository.findOne({ where: { id: task.seriesId } }),
+    );
+    if (!series) {
+      throw new NotFoundException('Recurring series not found');
+    }
+    return series;
+  }
+
+  private async reloadTask(id: string): Promise<Task> {
+    const task = await retry(() =>
+      this.seriesRepository.manager.findOne(Task, { where: { id }, relations: ['series'] }),
+    );
+    if (!task) {
+      throw new NotFoundException('Task not found');
+    }
+    return task as Task;
+  }
+}
@@ -16,20 +16,41 @@ import {
   ValidationPipe,
   BadRequestException,
   ForbiddenException,
+  Headers,
+  Res,
 } from '@nestjs/common';
+import type { Response } from 'express';
 import { TasksService } from './tasks.service';
 import { CreateTaskDto } from './dto/create-task.dto';
 import { UpdateTaskDto } from './dto/update-task.dto';
-import { ApiBearerAuth, ApiOperation, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { AssignTaskDto } from './dto/assign-task.dto';
+import { MoveTaskDto } from './dto/move-task.dto';
+import { BatchTasksDto } from './dto/batch-tasks.dto';
+import { ApiBearerAuth, ApiHeader, ApiOperation, ApiQuery, ApiTags } from '@nestjs/swagger';
 import { TaskStatus } from './enums/task-status.enum';
 import { TaskPriority } from './enums/task-priority.enum';
+import { TagMatchMode } from './enums/tag-match-mode.enum';
+import { BatchAction } from './enums/batch-action.enum';
+import { TaskSortField } from './enums/task-sort-field.enum';
+import { parseTaskSort } from './utils/task-sort';
+import { MAX_PAGE_SIZE, resolvePagination } from '@common/utils/offset-pagination';
+import { parseIfMatch, toETag } from '@common/utils/etag';
+import { TaskEventSource } from './enums/task-event-source.enum';
+import { TaskActor } from './interfaces/task-actor.interface';
 import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
 import { RateLimit } from '../../common/decorators/rate-limit.decorator';
 import { JwtAuthGuard } from '@modules/auth/guards/jwt-auth.guard';
 import { TaskFilterDto } from './dto/task-filter.dto';
 import { Throttle } from '@nestjs/throttler';
-import { Role } from '@modules/auth/enums/role.enum';
 import { CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { Role } from '@modules/auth/enums/role.enum';
+import {
+  PROJECT_EDIT_ROLES,
+  canAssignTo,
+  canDeleteTask,
+  canEditTask,
+  canViewTask,
+} from './policies/task-access.policy';
 
 @ApiTags('tasks')
 @Controller('tasks')
@@ -43,12 +64,19 @@ export class TasksController {
   @Post()
   @Throttle({ default: { limit: 5, ttl: 10 } })
   @ApiOperation({ summary: 'Create a new task' })
-  create(@Body() createTaskDto: CreateTaskDto, @CurrentUser() user: any) {
-    if (createTaskDto.userId && createTaskDto.userId !== user.id && user.role !== Role.Admin) {
+  async create(@Body() createTaskDto: CreateTaskDto, @CurrentUser() user: any) {
+    if (
+      createTaskDto.assigneeId &&
+      !canAssignTo(createTaskDto.projectId, createTaskDto.assigneeId, user)
+    ) {
       throw new ForbiddenException('You are not allowed to create task for another user');
     }
 
-    return this.tasksService.create(createTaskDto);
+    if (createTaskDto.projectId) {
+      await this.tasksService.ensureProjectRole(createTaskDto.projectId, user, PROJECT_EDIT_ROLES);
+    }
+
+    return this.tasksService.create(createTaskDto, user.id);
   }
 
   @Get()
@@ -59,15 +87,47 @@ export class TasksController {
   @ApiQuery({
     name: 'cursor',
     required: false,
-    description: 'CreatedAt timestamp of the last item from previous page',
+    description: 'nextCursor returned with the previous page',
   })
   @ApiQuery({ name: 'limit', required: false })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    description: 'Page number; switches to offset pagination with totals',
+  })
+  @ApiQuery({
+    name: 'sort',
+    required: false,
+    description: `Comma-separated field:direction pairs, e.g. dueDate:asc,priority:desc. Fields: ${Object.values(TaskSortField).join(', ')} or cf.<key> for a custom field`,
+  })
+  @ApiQuery({ name: 'tags', required: false, description: 'Comma-separated tag IDs' })
+  @ApiQuery({ name: 'tagMatch', required: false, enum: TagMatchMode })
+  @ApiQuery({
+    name: 'assignee',
+    required: false,
+    description: 'Assignee user ID, "me" or "none" for unassigned tasks',
+  })
+  @ApiQuery({
+    name: 'q',
+    required: false,
+    description:
+      'Filter expression: status:, priority:, due:, created:, updated:, tag:, assignee:, ' +
+      'project: and cf.<key>: terms (also <, <=, >, >= for priority, dates and numbers), ' +
+      '"-" to negate, ' +
+      'commas for alternatives and free text for full-text search',
+  })
   async findAll(
     @Request() req: Request,
     @Query('status') status?: string,
     @Query('priority') priority?: string,
     @Query('cursor') cursor?: string,
     @Query('limit') limit?: number,
+    @Query('tags') tags?: string,
+    @Query('tagMatch') tagMatch?: string,
+    @Query('assignee') assignee?: string,
+    @Query('q') q?: string,
+    @Query('sort') sort?: string,
+    @Query('page') page?: string,
   ) {
     try {
       const pageSize = limit ? parseInt(limit as any, 10) : 10;
@@ -79,25 +139,102 @@ export class TasksController {
       const filter: TaskFilterDto = {
         status: status as TaskStatus,
         priority: priority as TaskPriority,
+        tags: tags ? tags.split(',').filter(Boolean) : undefined,
+        tagMatch: tagMatch as TagMatchMode,
+        assignee: assignee === 'me' ? userId : assignee,
+        q,
       };
 
-      const tasks = await this.tasksService.findAll(
+      if (page !== undefined) {
+        return await this.tasksService.findPage(userId, filter, parseTaskSort(sort), {
+          page: Number(page),
+          limit: pageSize,
+        });
+      }
+
+      const { data, nextCursor, hasMore } = await this.tasksService.findAll(
         userId,
-        cursor,
-        Math.min(pageSize, 100),
         filter,
+        parseTaskSort(sort),
+        cursor,
+        Math.min(pageSize, MAX_PAGE_SIZE),
       );
 
       return {
-        data: tasks,
-        count: tasks.length,
+        data,
+        count: data.length,
         limit: pageSize,
+        nextCursor,
+        hasMore,
       };
     } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
       throw new HttpException('Failed to retrieve tasks', HttpStatus.INTERNAL_SERVER_ERROR);
     }
   }
 
+  @Get('admin')
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'List every task (admin only)' })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    description: 'Defaults to 1 unless a cursor is given',
+  })
+  @ApiQuery({ name: 'limit', required: false })
+  @ApiQuery({
+    name: 'cursor',
+    required: false,
+    description: 'nextCursor returned with the previous page; switches to cursor pagination',
+  })
+  @ApiQuery({ name: 'sort', required: false, description: 'Same format as GET /tasks' })
+  @ApiQuery({ name: 'status', required: false })
+  @ApiQuery({ name: 'priority', required: false })
+  @ApiQuery({ name: 'userId', required: false, description: 'Creator or assignee ID' })
+  @ApiQuery({ name: 'q', required: false, description: 'Same filter expression as GET /tasks' })
+  async findAllForAdmin(
+    @CurrentUser() user: any,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+    @Query('cursor') cursor?: string,
+    @Query('sort') sort?: string,
+    @Query('status') status?: string,
+    @Query('priority') priority?: string,
+    @Query('userId') userId?: string,
+    @Query('q') q?: string,
+  ) {
+    if (user.role !== Role.Admin) {
+      throw new ForbiddenException('Only admins can list all tasks');
+    }
+
+    const filter: TaskFilterDto = {
+      status: status as TaskStatus,
+      priority: priority as TaskPriority,
+      userId,
+      q,
+    };
+    const sortKeys = parseTaskSort(sort);
+
+    if (cursor !== undefined) {
+      const { limit: pageSize } = resolvePagination({ limit: limit ? Number(limit) : undefined });
+      const { data, nextCursor, hasMore } = await this.tasksService.findAll(
+        null,
+        filter,
+        sortKeys,
+        cursor,
+        pageSize,
+      );
+      return { data, count: data.length, limit: pageSize, nextCursor, hasMore };
+    }
+
+    return this.tasksService.findPage(null, filter, sortKeys, {
+      page: page ? Number(page) : 1,
+      limit: limit ? Number(limit) : undefined,
+    });
+  }
+
   @Get('stats')
   @Throttle({ default: { limit: 5, ttl: 10 } })
   @ApiOperation({ summary: 'Get task statistics' })
@@ -107,47 +244,154 @@ export class TasksController {
     return statistics;
   }
 
+  @Get('search')
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Full-text search over task titles and descriptions' })
+  @ApiQuery({
+    name: 'q',
+    required: true,
+    description: 'Search terms; use "quotes" for phrases and a trailing * for prefix matches',
+  })
+  @ApiQuery({ name: 'limit', required: false })
+  async search(@CurrentUser() user: any, @Query('q') q: string, @Query('limit') limit?: number) {
+    const pageSize = limit ? parseInt(limit as any, 10) : 10;
+    if (isNaN(pageSize) || pageSize <= 0) {
+      throw new BadRequestException('Invalid pagination limit');
+    }
+    if (!q || !q.trim()) {
+      throw new BadRequestException('Search query is required');
+    }
+
+    const results = await this.tasksService.search(user.id, q, Math.min(pageSize, 100));
+    return {
+      data: results,
+      count: results.length,
+      limit: pageSize,
+    };
+  }
+
+  @Get('trash')
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'List trashed tasks, most recently deleted first' })
+  @ApiQuery({ name: 'limit', required: false })
+  async findTrash(@CurrentUser() user: any, @Query('limit') limit?: number) {
+    const pageSize = limit ? parseInt(limit as any, 10) : 10;
+    if (isNaN(pageSize) || pageSize <= 0) {
+      throw new BadRequestException('Invalid pagination limit');
+    }
+
+    // Admins see the whole trash, everyone else only the tasks they created
+    const tasks = await this.tasksService.findTrash(
+      user.role === Role.Admin ? undefined : user.id,
+      Math.min(pageSize, 100),
+    );
+
+    return {
+      data: tasks,
+      count: tasks.length,
+      limit: pageSize,
+    };
+  }
+
+  @Delete('trash')
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Permanently delete every trashed task (admin only)' })
+  async emptyTrash(@CurrentUser() user: any) {
+    if (user.role !== Role.Admin) {
+      throw new ForbiddenException('Only admins can permanently delete tasks');
+    }
+
+    const purged = await this.tasksService.purgeTrashedBefore(new Date(), this.actorOf(user));
+    return {
+      statusCode: HttpStatus.OK,
+      message: `${purged} task(s) permanently deleted`,
+    };
+  }
+
   @Get(':id')
   @Throttle({ default: { limit: 5, ttl: 10 } })
   @ApiOperation({ summary: 'Find a task by ID' })
-  async findOne(@Param('id') id: string, @CurrentUser() user: any) {
+  @ApiQuery({
+    name: 'includeChildren',
+    required: false,
+    description: 'Set to true to include the full subtask tree',
+  })
+  async findOne(
+    @Param('id') id: string,
+    @CurrentUser() user: any,
+    @Res({ passthrough: true }) res: Response,
+    @Query('includeChildren') includeChildren?: string,
+  ) {
     const task = await this.tasksService.findOne(id);
 
     if (!task) {
       throw new NotFoundException('Task not found');
     }
 
-    if (user.role !== Role.Admin && task.user.id !== user.id) {
-      throw new HttpException('Forbidden', HttpStatus.FORBIDDEN);
+    if (!canViewTask(task, user)) {
+      throw new ForbiddenException('You are not allowed to view this task');
+    }
+
+    if (includeChildren === 'true') {
+      task.children = await this.tasksService.findSubtaskTree(task.id);
     }
 
+    res.setHeader('ETag', toETag(task.version));
     return task;
   }
 
   @Patch(':id')
   @Throttle({ default: { limit: 5, ttl: 10 } })
   @ApiOperation({ summary: 'Update a task' })
+  @ApiHeader({
+    name: 'If-Match',
+    required: false,
+    description: 'ETag from GET /tasks/:id; the update fails with 412 if the task changed since',
+  })
   async update(
     @Param('id') id: string,
     @Body() updateTaskDto: UpdateTaskDto,
     @CurrentUser() user: any,
+    @Res({ passthrough: true }) res: Response,
+    @Headers('if-match') ifMatch?: string,
   ) {
+    const expectedVersion = parseIfMatch(ifMatch);
     const task = await this.tasksService.findOne(id);
 
     if (!task) {
       throw new NotFoundException('Task not found');
     }
-    if (user.role !== Role.Admin && task.user.id !== user.id) {
-      throw new HttpException('Forbidden', HttpStatus.FORBIDDEN);
+    if (!canEditTask(task, user)) {
+      throw new ForbiddenException('You are not allowed to update this task');
+    }
+    if (updateTaskDto.projectId && updateTaskDto.projectId !== task.projectId) {
+      await this.tasksService.ensureProjectRole(updateTaskDto.projectId, user, PROJECT_EDIT_ROLES);
     }
 
-    return this.tasksService.update(id, updateTaskDto);
+    const updatedTask = await this.tasksService.update(
+      id,
+      updateTaskDto,
+      this.actorOf(user),
+      expectedVersion,
+    );
+    res.setHeader('ETag', toETag(updatedTask.version));
+    return updatedTask;
   }
 
   @Delete(':id')
   @Throttle({ default: { limit: 5, ttl: 10 } })
   @ApiOperation({ summary: 'Delete a task' })
-  async remove(@Param('id') id: string, @CurrentUser() user: any) {
+  @ApiHeader({
+    name: 'If-Match',
+    required: false,
+    description: 'ETag from GET /tasks/:id; the delete fails with 412 if the task changed since',
+  })
+  async remove(
+    @Param('id') id: string,
+    @CurrentUser() user: any,
+    @Headers('if-match') ifMatch?: string,
+  ) {
+    const expectedVersion = parseIfMatch(ifMatch);
     const task = await this.tasksService.findOne(id);
 
     if (!task) {
@@ -156,25 +400,129 @@ export class TasksController {
     if (!user || !user.id) {
       throw new BadRequestException('User not authenticated');
     }
-    if (user.role !== Role.Admin && task.user.id !== user.id) {
-      throw new HttpException('Forbidden', HttpStatus.FORBIDDEN);
+    if (!canDeleteTask(task, user)) {
+      throw new ForbiddenException('You are not allowed to delete this task');
     }
 
-    await this.tasksService.remove(id);
+    await this.tasksService.remove(id, this.actorOf(user), expectedVersion);
     return {
       statusCode: HttpStatus.OK,
       message: 'Task successfully deleted',
     };
   }
 
-  @Post('batch')
+  @Post(':id/restore')
   @Throttle({ default: { limit: 5, ttl: 10 } })
-  @ApiOperation({ summary: 'Batch process multiple tasks' })
-  async batchProcess(
-    @Body() operations: { tasks: string[]; action: string },
+  @ApiOperation({ summary: 'Restore a task from the trash' })
+  async restore(@Param('id') id: string, @CurrentUser() user: any) {
+    const task = await this.tasksService.findTrashed(id);
+
+    if (!canDeleteTask(task, user)) {
+      throw new ForbiddenException('You are not allowed to restore this task');
+    }
+
+    return this.tasksService.restore(id, this.actorOf(user));
+  }
+
+  @Delete(':id/purge')
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Permanently delete a trashed task (admin only)' })
+  async purge(@Param('id') id: string, @CurrentUser() user: any) {
+    if (user.role !== Role.Admin) {
+      throw new ForbiddenException('Only admins can permanently delete tasks');
+    }
+
+    await this.tasksService.findTrashed(id);
+    await this.tasksService.purge([id], this.actorOf(user));
+    return {
+      statusCode: HttpStatus.OK,
+      message: 'Task permanently deleted',
+    };
+  }
+
+  @Get(':id/history')
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Get the change history of a task, newest first' })
+  async findHistory(@Param('id') id: string, @CurrentUser() user: any) {
+    const task = await this.tasksService.findOne(id);
+
+    if (!canViewTask(task, user)) {
+      throw new ForbiddenException('You are not allowed to view this task');
+    }
+
+    return this.tasksService.findHistory(id);
+  }
+
+  @Post(':id/assign')
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Assign a task to a user' })
+  async assign(
+    @Param('id') id: string,
+    @Body() assignTaskDto: AssignTaskDto,
+    @CurrentUser() user: any,
+  ) {
+    const task = await this.tasksService.findOne(id);
+
+    if (!canEditTask(task, user)) {
+      throw new ForbiddenException('You are not allowed to update this task');
+    }
+    if (!canAssignTo(task.projectId, assignTaskDto.assigneeId, user)) {
+      throw new ForbiddenException('You are not allowed to assign this task to another user');
+    }
+
+    return this.tasksService.assign(id, assignTaskDto.assigneeId, this.actorOf(user));
+  }
+
+  @Post(':id/unassign')
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Remove the assignee from a task' })
+  async unassign(@Param('id') id: string, @CurrentUser() user: any) {
+    const task = await this.tasksService.findOne(id);
+
+    if (!canEditTask(task, user)) {
+      throw new ForbiddenException('You are not allowed to update this task');
+    }
+
+    return this.tasksService.unassign(id, this.actorOf(user));
+  }
+
+  @Post(':id/move')
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Move a task on the board: change its status and position at once' })
+  @ApiHeader({
+    name: 'If-Match',
+    required: false,
+    description: 'ETag from GET /tasks/:id; the move fails with 412 if the task changed since',
+  })
+  async move(
+    @Param('id') id: string,
+    @Body() moveTaskDto: MoveTaskDto,
     @CurrentUser() user: any,
+    @Res({ passthrough: true }) res: Response,
+    @Headers('if-match') ifMatch?: string,
   ) {
-    const { tasks: taskIds, action } = operations;
+    const expectedVersion = parseIfMatch(ifMatch);
+    const task = await this.tasksService.findOne(id);
+
+    if (!canEditTask(task, user)) {
+      throw new ForbiddenException('You are not allowed to update this task');
+    }
+
+    const movedTask = await this.tasksService.move(
+      id,
+      moveTaskDto,
+      this.actorOf(user),
+      expectedVersion,
+    );
+    res.setHeader('ETag', toETag(movedTask.version));
+    return movedTask;
+  }
+
+  @Post('batch')
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Batch process multiple tasks' })
+  async batchProcess(@Body() operations: BatchTasksDto, @CurrentUser() user: any) {
+    const { tasks: taskIds, action, tagIds, versions } = operations;
 
     if (!user || !user.id) {
       throw new BadRequestException('User not authenticated');
@@ -184,18 +532,37 @@ export class TasksController {
       throw new BadRequestException('No task IDs provided');
     }
 
-    if (!['complete', 'delete'].includes(action)) {
+    if (!Object.values(BatchAction).includes(action)) {
       throw new BadRequestException(`Unsupported action: ${action}`);
     }
 
+    if (
+      (action === BatchAction.TAG || action === BatchAction.UNTAG) &&
+      (!Array.isArray(tagIds) || tagIds.length === 0)
+    ) {
+      throw new BadRequestException('No tag IDs provided');
+    }
+
     try {
       let result;
       switch (action) {
-        case 'complete':
-          result = await this.tasksService.bulkUpdateStatus(taskIds, TaskStatus.COMPLETED);
+        case BatchAction.COMPLETE:
+          result = await this.tasksService.bulkUpdateStatus(
+            taskIds,
+            TaskStatus.COMPLETED,
+            user,
+            this.actorOf(user),
+            versions,
+          );
+          break;
+        case BatchAction.DELETE:
+          result = await this.tasksService.bulkDelete(taskIds, user, this.actorOf(user), versions);
           break;
-        case 'delete':
-          result = await this.tasksService.bulkDelete(taskIds);
+        case BatchAction.TAG:
+          result = await this.tasksService.bulkTag(taskIds, tagIds as string[], user, versions);
+          break;
+        case BatchAction.UNTAG:
+          result = await this.tasksService.bulkUntag(taskIds, tagIds as string[], user, versions);
           break;
         default:
           throw new HttpException(`Unknown action: ${action}`, HttpStatus.BAD_REQUEST);
@@ -207,10 +574,17 @@ export class TasksController {
         taskIds,
       };
     } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
       throw new HttpException(
         error instanceof Error ? error.message : 'Unknown error',
         HttpStatus.INTERNAL_SERVER_ERROR,
       );
     }
   }
+
+  private actorOf(user: any): TaskActor {
+    return { userId: user.id, source: TaskEventSource.HTTP };
+  }
 }
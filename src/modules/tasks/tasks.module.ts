@@ -4,19 +4,41 @@ import { BullModule } from '@nestjs/bullmq';
 import { TasksService } from './tasks.service';
 import { TasksController } from './tasks.controller';
 import { Task } from './entities/task.entity';
+import { TaskDependency } from './entities/task-dependency.entity';
+import { TaskSeries } from './entities/task-series.entity';
 import { TypeOrmTaskRepository } from './infrastructure/typeorm-task.repository';
 import { BullMqTaskQueueService } from './infrastructure/bullmq-task-queue.service';
+import { TypeOrmTaskDependencyRepository } from './infrastructure/typeorm-task-dependency.repository';
+import { TaskDependenciesService } from './task-dependencies.service';
+import { TaskDependenciesController } from './task-dependencies.controller';
+import { TypeOrmTaskSeriesRepository } from './infrastructure/typeorm-task-series.repository';
+import { TaskSeriesService } from './task-series.service';
+import { TaskRecurrenceController } from './task-recurrence.controller';
+import { TaskAnalyticsService } from './task-analytics.service';
+import { TaskAnalyticsController } from './task-analytics.controller';
+import { TaskEscalationService } from './task-escalation.service';
+import { NotificationsModule } from '../notifications/notifications.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Task]),
+    TypeOrmModule.forFeature([Task, TaskDependency, TaskSeries]),
     BullModule.registerQueue({
       name: 'task-processing',
     }),
+    NotificationsModule,
+  ],
+  controllers: [
+    TasksController,
+    TaskDependenciesController,
+    TaskRecurrenceController,
+    TaskAnalyticsController,
   ],
-  controllers: [TasksController],
   providers: [
     TasksService,
+    TaskDependenciesService,
+    TaskSeriesService,
+    TaskAnalyticsService,
+    TaskEscalationService,
     {
       provide: 'ITaskRepository',
       useClass: TypeOrmTaskRepository,
@@ -25,7 +47,15 @@ import { BullMqTaskQueueService } from './infrastructure/bullmq-task-queue.servi
       provide: 'ITaskQueueService',
       useClass: BullMqTaskQueueService,
     },
+    {
+      provide: 'ITaskDependencyRepository',
+      useClass: TypeOrmTaskDependencyRepository,
+    },
+    {
+      provide: 'ITaskSeriesRepository',
+      useClass: TypeOrmTaskSeriesRepository,
+    },
   ],
-  exports: [TasksService],
+  exports: [TasksService, TaskDependenciesService, TaskSeriesService, TaskEscalationService],
 })
 export class TasksModule { }
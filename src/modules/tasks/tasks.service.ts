@@ -1,13 +1,68 @@
-import { Injectable, NotFoundException, Inject, Logger, BadRequestException } from '@nestjs/common';
-import { In, LessThan, Not } from 'typeorm';
+import {
+  Injectable,
+  NotFoundException,
+  Inject,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  PreconditionFailedException,
+} from '@nestjs/common';
+import { In, IsNull, LessThan, Not } from 'typeorm';
 import { Task } from './entities/task.entity';
 import { CreateTaskDto } from './dto/create-task.dto';
 import { UpdateTaskDto } from './dto/update-task.dto';
+import { MoveTaskDto } from './dto/move-task.dto';
 import { TaskFilterDto } from './dto/task-filter.dto';
 import { TaskStatus } from './enums/task-status.enum';
+import { TagMatchMode } from './enums/tag-match-mode.enum';
+import { TaskEventType } from './enums/task-event-type.enum';
+import { TaskEventSource } from './enums/task-event-source.enum';
+import { TaskEvent, TaskFieldChanges } from './entities/task-event.entity';
+import { diffTask } from './utils/task-diff';
+import { recordTaskEvent } from './utils/task-events';
+import { RANK_REBALANCE_LENGTH, rankBetween, spreadRanks } from './utils/rank';
+import { describeReminderOffset, resolveReminderOffsets } from './utils/due-reminders';
+import {
+  SEARCH_CONFIG,
+  buildTsQuery,
+  headlineOptions,
+  renderHighlight,
+} from './utils/search-query';
+import { resolveDateToken } from './utils/date-token';
+import { TaskSort, resolveCustomFieldSort } from './utils/task-sort';
+import { parseTaskQuery } from './query/task-query.parser';
+import { compileTaskQuery } from './query/task-query.compiler';
+import {
+  CLOSED_TASK_STATUSES,
+  OPEN_TASK_STATUSES,
+  assertTransition,
+  runTransitionEffects,
+} from './workflow/task-workflow';
+import { Tag } from '../tags/entities/tag.entity';
+import { ProjectMember } from '../projects/entities/project-member.entity';
+import { User } from '../users/entities/user.entity';
+import { Attachment } from '../attachments/entities/attachment.entity';
+import { CustomFieldDefinition } from '../custom-fields/entities/custom-field-definition.entity';
+import { TimeEntry } from '../time-tracking/entities/time-entry.entity';
+import { CustomFieldType } from '../custom-fields/enums/custom-field-type.enum';
+import {
+  CustomFieldValues,
+  mergeCustomFieldValues,
+} from '../custom-fields/utils/custom-field-values';
+import { ProjectRole } from '../projects/enums/project-role.enum';
+import { NewNotification, NotificationsService } from '../notifications/notifications.service';
+import { NotificationType } from '../notifications/enums/notification-type.enum';
+import { Role } from '@modules/auth/enums/role.enum';
+import { canDeleteTask, canEditTask } from './policies/task-access.policy';
 import type { ITaskRepository } from './interfaces/task-repository.interface';
 import type { ITaskQueueService } from './interfaces/task-queue.interface';
+import type { TaskActor } from './interfaces/task-actor.interface';
+import type { TaskSearchResult } from './interfaces/task-search-result.interface';
 import { retry } from '@common/utils/retry';
+import { applySortAndCursor, toCursorPage } from '@common/utils/cursor-pagination';
+import { resolvePagination, toPaginatedResponse } from '@common/utils/offset-pagination';
+import { CursorPage, PaginatedResponse, PaginationOptions } from '../../types/pagination.interface';
 
 @Injectable()
 export class TasksService {
@@ -16,20 +71,69 @@ export class TasksService {
     private readonly tasksRepository: ITaskRepository,
     @Inject('ITaskQueueService')
     private readonly taskQueueService: ITaskQueueService,
+    private readonly notificationsService: NotificationsService,
   ) { }
 
-  async create(createTaskDto: CreateTaskDto): Promise<Task> {
+  async create(createTaskDto: CreateTaskDto, createdBy: string): Promise<Task> {
+    if (createTaskDto.parentId) {
+      await this.validateParent(this.tasksRepository.manager, createTaskDto.parentId, createdBy);
+    }
+
+    const assigneeId =
+      createTaskDto.assigneeId === undefined ? createdBy : createTaskDto.assigneeId;
+    if (assigneeId && assigneeId !== createdBy) {
+      await this.validateAssignee(
+        this.tasksRepository.manager,
+        assigneeId,
+        createTaskDto.projectId ?? null,
+      );
+    }
+
+    const customFields = await this.resolveCustomFields(
+      this.tasksRepository.manager,
+      {},
+      createTaskDto.customFields ?? {},
+    );
+
     // Start a manual DB transaction for atomic task creation and queueing
     const queryRunner = this.tasksRepository.manager.connection.createQueryRunner();
     await queryRunner.connect();
     await queryRunner.startTransaction();
     try {
-      const task = await this.tasksRepository.create(createTaskDto);
+      const rank = rankBetween(
+        await this.lastRank(queryRunner.manager, createTaskDto.status ?? TaskStatus.PENDING),
+        null,
+      );
+      const task = await this.tasksRepository.create({
+        ...createTaskDto,
+        createdBy,
+        assigneeId,
+        customFields,
+        rank,
+      });
       const savedTask = await queryRunner.manager.save(task);
 
-      await retry(() => this.taskQueueService.enqueueStatusUpdate(savedTask.id, savedTask.status));
+      await this.recordEvent(
+        queryRunner.manager,
+        savedTask.id,
+        TaskEventType.CREATED,
+        { userId: createdBy, source: TaskEventSource.HTTP },
+        diffTask(null, savedTask),
+      );
+      const notifications = await this.notifyAssigned(queryRunner.manager, savedTask, createdBy);
+
+      await retry(() =>
+        this.taskQueueService.enqueueStatusUpdate(savedTask.id, savedTask.status, createdBy),
+      );
+      if (rank.length > RANK_REBALANCE_LENGTH) {
+        await retry(() => this.taskQueueService.enqueueRankRebalance(savedTask.status));
+      }
+      if (savedTask.dueDate) {
+        await this.syncDueReminders(savedTask);
+      }
 
       await queryRunner.commitTransaction();
+      await this.notificationsService.sendEmails(notifications);
       return savedTask;
     } catch (err) {
       await queryRunner.rollbackTransaction();
@@ -40,39 +144,161 @@ export class TasksService {
     }
   }
 
+  // A null userId lists every task and is reserved for admins
   async findAll(
-    userId: string,
+    userId: string | null,
+    filter: TaskFilterDto,
+    sort: TaskSort,
     cursor: string | undefined,
     pageSize: number,
+  ): Promise<CursorPage<Task>> {
+    if (!pageSize || pageSize <= 0) {
+      Logger.warn(`Invalid pageSize provided: ${pageSize}`);
+      return { data: [], nextCursor: null, hasMore: false };
+    }
+
+    const customFields = await this.findCustomFields();
+    // The cursor has to read custom field values the same way the query sorts on them
+    const sortKeys = resolveCustomFieldSort(sort, customFields);
+    const query = this.listQuery(userId, filter, customFields).take(pageSize + 1);
+    applySortAndCursor(query, 'task', sortKeys, cursor);
+
+    try {
+      const tasks: Task[] = await retry(() => query.getMany());
+      return toCursorPage(tasks, pageSize, sortKeys);
+    } catch (err) {
+      Logger.error('Error fetching tasks in findAll:', err);
+      return { data: [], nextCursor: null, hasMore: false };
+    }
+  }
+
+  async findPage(
+    userId: string | null,
     filter: TaskFilterDto,
-  ): Promise<Task[]> {
+    sort: TaskSort,
+    options: PaginationOptions,
+  ): Promise<PaginatedResponse<Task>> {
+    const { page, limit } = resolvePagination(options);
+    const customFields = await this.findCustomFields();
+    const query = this.listQuery(userId, filter, customFields)
+      .skip((page - 1) * limit)
+      .take(limit);
+    applySortAndCursor(query, 'task', resolveCustomFieldSort(sort, customFields));
+
+    try {
+      const [tasks, total]: [Task[], number] = await retry(() => query.getManyAndCount());
+      return toPaginatedResponse(tasks, total, page, limit);
+    } catch (err) {
+      Logger.error('Error fetching task page:', err);
+      throw err;
+    }
+  }
+
+  private listQuery(
+    userId: string | null,
+    filter: TaskFilterDto,
+    customFields: CustomFieldDefinition[],
+  ): any {
+    const query = this.tasksRepository
+      .createQueryBuilder('task')
+      .leftJoinAndSelect('task.creator', 'creator')
+      .leftJoinAndSelect('task.assignee', 'assignee')
+      .leftJoinAndSelect('task.tags', 'tag');
+
+    if (userId) {
+      query.where('(task.createdBy = :userId OR task.assigneeId = :userId)', { userId });
+    }
+
+    this.applyFilters(query, filter, userId ?? undefined, customFields);
+    return query;
+  }
+
+  async findAllByProject(
+    projectId: string,
+    filter: TaskFilterDto,
+    sort: TaskSort,
+    cursor: string | undefined,
+    pageSize: number,
+  ): Promise<CursorPage<Task>> {
     if (!pageSize || pageSize <= 0) {
       Logger.warn(`Invalid pageSize provided: ${pageSize}`);
-      return [];
+      return { data: [], nextCursor: null, hasMore: false };
     }
 
-    const whereClause: any = { user: { id: userId } };
+    const customFields = await this.findCustomFields();
+    const sortKeys = resolveCustomFieldSort(sort, customFields);
+    const query = this.listQuery(null, filter, customFields)
+      .andWhere('task.projectId = :projectId', { projectId })
+      .take(pageSize + 1);
+    applySortAndCursor(query, 'task', sortKeys, cursor);
 
-    if (filter.status) whereClause.status = filter.status;
-    if (filter.priority) whereClause.priority = filter.priority;
+    try {
+      const tasks: Task[] = await retry(() => query.getMany());
+      return toCursorPage(tasks, pageSize, sortKeys);
+    } catch (err) {
+      Logger.error(`Error fetching tasks for project ${projectId}:`, err);
+      return { data: [], nextCursor: null, hasMore: false };
+    }
+  }
 
-    if (filter.fromDate || filter.toDate) {
-      whereClause.createdAt = {};
-      if (filter.fromDate) whereClause.createdAt['$gte'] = new Date(filter.fromDate);
-      if (filter.toDate) whereClause.createdAt['$lte'] = new Date(filter.toDate);
+  async search(userId: string, text: string, pageSize: number): Promise<TaskSearchResult[]> {
+    const tsquery = buildTsQuery(text ?? '');
+    if (!tsquery) {
+      throw new BadRequestException('Search query must contain at least one word');
     }
 
+    const matches = `to_tsquery('${SEARCH_CONFIG}', :tsquery)`;
     const query = this.tasksRepository
       .createQueryBuilder('task')
-      .leftJoinAndSelect('task.user', 'user')
-      .where('task.userId = :userId', { userId })
-      .orderBy('task.createdAt', 'DESC')
-      .take(pageSize);
+      .addSelect(`ts_rank(task.search_vector, ${matches})`, 'rank')
+      .addSelect(
+        `ts_headline('${SEARCH_CONFIG}', task.title, ${matches}, :titleOptions)`,
+        'title_highlight',
+      )
+      .addSelect(
+        `ts_headline('${SEARCH_CONFIG}', task.description, ${matches}, :descriptionOptions)`,
+        'description_highlight',
+      )
+      .where('(task.createdBy = :userId OR task.assigneeId = :userId)', { userId })
+      .andWhere(`task.search_vector @@ ${matches}`)
+      .setParameters({
+        tsquery,
+        titleOptions: headlineOptions('HighlightAll=true'),
+        descriptionOptions: headlineOptions('MaxFragments=2, MaxWords=20'),
+      })
+      .orderBy('rank', 'DESC')
+      .addOrderBy('task.createdAt', 'DESC')
+      .limit(pageSize);
 
-    if (cursor) {
-      query.andWhere('task.createdAt < :cursor', { cursor });
+    try {
+      const { entities, raw } = await retry<{ entities: Task[]; raw: any[] }>(() =>
+        query.getRawAndEntities(),
+      );
+      const rows = new Map<string, any>(raw.map((row: any) => [row.task_id, row]));
+
+      return entities.map((task: Task) => {
+        const row = rows.get(task.id);
+        return {
+          task,
+          rank: Number(row.rank),
+          highlights: {
+            title: renderHighlight(row.title_highlight),
+            description: renderHighlight(row.description_highlight),
+          },
+        };
+      });
+    } catch (err) {
+      Logger.error('Error searching tasks:', err);
+      throw err;
     }
+  }
 
+  private applyFilters(
+    query: any,
+    filter: TaskFilterDto,
+    userId?: string,
+    customFields: CustomFieldDefinition[] = [],
+  ): void {
     if (filter.status) {
       query.andWhere('task.status = :status', { status: filter.status });
     }
@@ -81,40 +307,79 @@ export class TasksService {
       query.andWhere('task.priority = :priority', { priority: filter.priority });
     }
 
+    if (filter.excludeStatuses && filter.excludeStatuses.length > 0) {
+      query.andWhere('task.status NOT IN (:...excludeStatuses)', {
+        excludeStatuses: filter.excludeStatuses,
+      });
+    }
+
+    // Relative date tokens are resolved on every query, not when a filter is saved
+    const now = new Date();
     if (filter.fromDate) {
-      query.andWhere('task.createdAt >= :fromDate', { fromDate: filter.fromDate });
+      query.andWhere('task.createdAt >= :fromDate', {
+        fromDate: resolveDateToken(filter.fromDate, 'start', now),
+      });
     }
 
     if (filter.toDate) {
-      query.andWhere('task.createdAt <= :toDate', { toDate: filter.toDate });
+      query.andWhere('task.createdAt <= :toDate', {
+        toDate: resolveDateToken(filter.toDate, 'end', now),
+      });
     }
 
-    if (filter.search) {
-      query.andWhere('(task.title ILIKE :search OR task.description ILIKE :search)', {
-        search: `%${filter.search}%`,
+    if (filter.dueFrom) {
+      query.andWhere('task.dueDate >= :dueFrom', {
+        dueFrom: resolveDateToken(filter.dueFrom, 'start', now),
       });
     }
 
-    try {
-      return await retry(() => query.getMany());
-    } catch (err) {
-      Logger.error('Error fetching tasks in findAll:', err);
-      return [];
+    if (filter.dueTo) {
+      query.andWhere('task.dueDate <= :dueTo', {
+        dueTo: resolveDateToken(filter.dueTo, 'end', now),
+      });
     }
-  }
 
-  async getAllTasks(): Promise<Task[]> {
-    try {
-      return await retry(() =>
-        this.tasksRepository
-          .createQueryBuilder('task')
-          .leftJoinAndSelect('task.user', 'user')
-          .orderBy('task.createdAt', 'DESC')
-          .getMany(),
-      );
-    } catch (err) {
-      Logger.error('Error fetching all tasks:', err);
-      return [];
+    const searchQuery = filter.search ? buildTsQuery(filter.search) : null;
+    if (searchQuery) {
+      query.andWhere(`task.search_vector @@ to_tsquery('${SEARCH_CONFIG}', :searchQuery)`, {
+        searchQuery,
+      });
+    }
+
+    if (filter.q) {
+      compileTaskQuery(parseTaskQuery(filter.q), query, { userId, now, customFields });
+    }
+
+    if (filter.userId) {
+      query.andWhere('(task.createdBy = :filterUserId OR task.assigneeId = :filterUserId)', {
+        filterUserId: filter.userId,
+      });
+    }
+
+    if (filter.assignee === 'none') {
+      query.andWhere('task.assigneeId IS NULL');
+    } else if (filter.assignee) {
+      query.andWhere('task.assigneeId = :assignee', { assignee: filter.assignee });
+    }
+
+    if (filter.tags && filter.tags.length > 0) {
+      const tagIds = Array.from(new Set(filter.tags));
+      if (filter.tagMatch === TagMatchMode.ALL) {
+        query.andWhere(
+          `task.id IN (
+            SELECT tt.task_id FROM task_tags tt
+            WHERE tt.tag_id IN (:...tagIds)
+            GROUP BY tt.task_id
+            HAVING COUNT(DISTINCT tt.tag_id) = :tagCount
+          )`,
+          { tagIds, tagCount: tagIds.length },
+        );
+      } else {
+        query.andWhere(
+          'task.id IN (SELECT tt.task_id FROM task_tags tt WHERE tt.tag_id IN (:...tagIds))',
+          { tagIds },
+        );
+      }
     }
   }
 
@@ -126,26 +391,155 @@ export class TasksService {
         `COUNT(*) FILTER (WHERE task.status = 'COMPLETED') as completed`,
         `COUNT(*) FILTER (WHERE task.status = 'IN_PROGRESS') as inProgress`,
         `COUNT(*) FILTER (WHERE task.status = 'PENDING') as pending`,
+        `COUNT(*) FILTER (WHERE task.status = 'BLOCKED') as blocked`,
+        `COUNT(*) FILTER (WHERE task.status = 'IN_REVIEW') as inReview`,
+        `COUNT(*) FILTER (WHERE task.status = 'CANCELLED') as cancelled`,
         `COUNT(*) FILTER (WHERE task.priority = 'HIGH') as highPriority`,
       ]);
 
     if (userId) {
-      query.where('task.userId = :userId', { userId });
+      query.where('(task.createdBy = :userId OR task.assigneeId = :userId)', { userId });
     }
 
     try {
       const rawResult = await retry(() => query.getRawOne());
-      return rawResult ?? { total: 0, completed: 0, inProgress: 0, pending: 0, highPriority: 0 };
+      const subtaskProgress = await this.getSubtaskProgress(userId);
+      const totalLoggedSeconds = await this.getLoggedSeconds(userId);
+      return {
+        ...(rawResult ?? {
+          total: 0,
+          completed: 0,
+          inProgress: 0,
+          pending: 0,
+          blocked: 0,
+          inReview: 0,
+          cancelled: 0,
+          highPriority: 0,
+        }),
+        totalLoggedSeconds,
+        subtaskProgress,
+      };
     } catch (err) {
       Logger.error('Error fetching task stats:', err);
-      return { total: 0, completed: 0, inProgress: 0, pending: 0, highPriority: 0 };
+      return {
+        total: 0,
+        completed: 0,
+        inProgress: 0,
+        pending: 0,
+        blocked: 0,
+        inReview: 0,
+        cancelled: 0,
+        highPriority: 0,
+        totalLoggedSeconds: 0,
+        subtaskProgress: [],
+      };
+    }
+  }
+
+  // Running timers are left out until they are stopped
+  private async getLoggedSeconds(userId?: string): Promise<number> {
+    const query = this.tasksRepository.manager
+      .createQueryBuilder(TimeEntry, 'entry')
+      .innerJoin('entry.task', 'task')
+      .select('COALESCE(SUM(entry.durationSeconds), 0)', 'total');
+
+    if (userId) {
+      query.where('(task.createdBy = :userId OR task.assigneeId = :userId)', { userId });
+    }
+
+    const row = await retry<{ total: string } | undefined>(() => query.getRawOne());
+    return Number(row?.total ?? 0);
+  }
+
+  async getSubtaskProgress(userId?: string): Promise<
+    {
+      parentId: string;
+      title: string;
+      total: number;
+      completed: number;
+      completionPercentage: number;
+    }[]
+  > {
+    const query = this.tasksRepository
+      .createQueryBuilder('task')
+      .innerJoin('task.parent', 'parent')
+      .select('parent.id', 'parentId')
+      .addSelect('parent.title', 'title')
+      .addSelect('COUNT(*)', 'total')
+      .addSelect(`COUNT(*) FILTER (WHERE task.status = 'COMPLETED')`, 'completed')
+      .groupBy('parent.id')
+      .addGroupBy('parent.title');
+
+    if (userId) {
+      query.where('(parent.createdBy = :userId OR parent.assigneeId = :userId)', { userId });
+    }
+
+    const rows: { parentId: string; title: string; total: string; completed: string }[] =
+      await retry(() => query.getRawMany());
+
+    return rows.map(row => {
+      const total = Number(row.total);
+      const completed = Number(row.completed);
+      return {
+        parentId: row.parentId,
+        title: row.title,
+        total,
+        completed,
+        completionPercentage: total > 0 ? Math.round((completed / total) * 100) : 0,
+      };
+    });
+  }
+
+  async findSubtaskTree(id: string): Promise<Task[]> {
+    const rows: { id: string }[] = await retry(() =>
+      this.tasksRepository.manager.query(
+        `WITH RECURSIVE descendants AS (
+           SELECT id FROM tasks WHERE parent_id = $1 AND deleted_at IS NULL
+           UNION
+           SELECT t.id FROM tasks t INNER JOIN descendants d ON t.parent_id = d.id
+           WHERE t.deleted_at IS NULL
+         )
+         SELECT id FROM descendants`,
+        [id],
+      ),
+    );
+
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const descendants = await retry(() =>
+      this.tasksRepository.find({
+        where: { id: In(rows.map(row => row.id)) },
+        order: { createdAt: 'ASC' },
+      }),
+    );
+
+    const byId = new Map<string, Task>();
+    for (const task of descendants) {
+      task.children = [];
+      byId.set(task.id, task);
     }
+
+    const roots: Task[] = [];
+    for (const task of descendants) {
+      if (task.parentId === id) {
+        roots.push(task);
+      } else if (task.parentId && byId.has(task.parentId)) {
+        byId.get(task.parentId)!.children.push(task);
+      }
+    }
+
+    return roots;
   }
 
   async findOne(id: string): Promise<Task> {
     try {
       const task = await retry(() =>
-        this.tasksRepository.findOne({ where: { id }, relations: ['user'] }),
+        this.tasksRepository.findOne({
+          where: { id },
+          relations: ['creator', 'assignee', 'tags', 'project', 'project.members'],
+        }),
       );
       if (!task) {
         throw new NotFoundException(`Task not found`);
@@ -157,7 +551,38 @@ export class TasksService {
     }
   }
 
-  async update(id: string, updateTaskDto: UpdateTaskDto): Promise<Task> {
+  async update(
+    id: string,
+    updateTaskDto: UpdateTaskDto,
+    actor: TaskActor,
+    expectedVersion?: number,
+  ): Promise<Task> {
+    return this.runUpdate(id, updateTaskDto, actor, expectedVersion);
+  }
+
+  // Changes the status and the board position in one transaction
+  async move(
+    id: string,
+    moveTaskDto: MoveTaskDto,
+    actor: TaskActor,
+    expectedVersion?: number,
+  ): Promise<Task> {
+    return this.runUpdate(
+      id,
+      { status: moveTaskDto.status },
+      actor,
+      expectedVersion,
+      (manager, task) => this.rankForMove(manager, task, moveTaskDto),
+    );
+  }
+
+  private async runUpdate(
+    id: string,
+    updateTaskDto: UpdateTaskDto,
+    actor: TaskActor,
+    expectedVersion?: number,
+    placeTask?: (manager: any, task: Task) => Promise<string>,
+  ): Promise<Task> {
     if (
       updateTaskDto.status &&
       !Object.values(TaskStatus).includes(updateTaskDto.status as TaskStatus)
@@ -169,26 +594,141 @@ export class TasksService {
     await queryRunner.connect();
     await queryRunner.startTransaction();
     try {
+      if (expectedVersion !== undefined) {
+        await this.assertVersions(queryRunner.manager, [id], { [id]: expectedVersion });
+      }
+      const notifications: NewNotification[] = [];
+
       const task = await queryRunner.manager.findOne(Task, {
         where: { id },
-        relations: ['user'],
+        relations: ['creator', 'assignee'],
       });
 
       if (!task) {
         throw new NotFoundException(`Task not found`);
       }
 
-      const originalStatus = task.status;
-      Object.assign(task, updateTaskDto);
+      const { cascadeToSubtasks, ...changes } = updateTaskDto;
+
+      if (changes.parentId && changes.parentId !== task.parentId) {
+        await this.validateParent(queryRunner.manager, changes.parentId, task.createdBy, task.id);
+      }
+
+      if (changes.customFields) {
+        changes.customFields = await this.resolveCustomFields(
+          queryRunner.manager,
+          task.customFields,
+          changes.customFields,
+        );
+      }
+
+      const transition =
+        changes.status && changes.status !== task.status
+          ? assertTransition(task, changes.status, actor)
+          : null;
+
+      let cascadedIds: string[] = [];
+      if (changes.status === TaskStatus.COMPLETED && task.status !== TaskStatus.COMPLETED) {
+        cascadedIds = await this.findOpenSubtaskIds(queryRunner.manager, [task.id]);
+        if (cascadedIds.length > 0 && !cascadeToSubtasks) {
+          throw new ConflictException(
+            `Task has ${cascadedIds.length} open subtask(s); complete them first or set cascadeToSubtasks`,
+          );
+        }
+      }
+
+      if (changes.status && changes.status !== task.status) {
+        await this.assertNotBlocked(queryRunner.manager, [task.id, ...cascadedIds], changes.status);
+      }
+
+      if (cascadedIds.length > 0) {
+        const subtasks: Task[] = await queryRunner.manager.find(Task, {
+          where: { id: In(cascadedIds) },
+        });
+        subtasks.forEach(subtask => assertTransition(subtask, TaskStatus.COMPLETED, actor));
+        await queryRunner.manager.update(Task, cascadedIds, { status: TaskStatus.COMPLETED });
+        notifications.push(
+          ...(await this.recordStatusChanges(
+            queryRunner.manager,
+            subtasks,
+            TaskStatus.COMPLETED,
+            actor,
+          )),
+        );
+      }
+
+      const rank = placeTask ? await placeTask(queryRunner.manager, task) : task.rank;
+
+      const before = { ...task };
+      Object.assign(task, changes, { rank });
       const updatedTask = await queryRunner.manager.save(task);
+      const fieldChanges = diffTask(before, updatedTask);
+
+      await this.recordEvent(
+        queryRunner.manager,
+        updatedTask.id,
+        TaskEventType.UPDATED,
+        actor,
+        fieldChanges,
+      );
+      if (before.status !== updatedTask.status) {
+        notifications.push(
+          ...(await this.notifyStatusChanged(
+            queryRunner.manager,
+            before,
+            updatedTask.status,
+            actor,
+          )),
+        );
+      }
+
+      if (transition) {
+        await runTransitionEffects(transition, {
+          manager: queryRunner.manager,
+          task: updatedTask,
+          from: before.status,
+          to: updatedTask.status,
+          actor,
+        });
+      }
+
+      if (before.status !== updatedTask.status) {
+        await retry(() =>
+          this.taskQueueService.enqueueStatusUpdate(
+            updatedTask.id,
+            updatedTask.status,
+            actor.userId,
+          ),
+        );
+      }
 
-      if (originalStatus !== updatedTask.status) {
+      if (cascadedIds.length > 0) {
         await retry(() =>
-          this.taskQueueService.enqueueStatusUpdate(updatedTask.id, updatedTask.status),
+          Promise.all(
+            cascadedIds.map(subtaskId =>
+              this.taskQueueService.enqueueStatusUpdate(
+                subtaskId,
+                TaskStatus.COMPLETED,
+                actor.userId,
+              ),
+            ),
+          ),
         );
       }
 
+      if (rank && rank.length > RANK_REBALANCE_LENGTH) {
+        await retry(() => this.taskQueueService.enqueueRankRebalance(updatedTask.status));
+      }
+
+      if (fieldChanges.dueDate || fieldChanges.status) {
+        await this.syncDueReminders(updatedTask);
+      }
+      for (const subtaskId of cascadedIds) {
+        await this.taskQueueService.cancelDueReminders(subtaskId);
+      }
+
       await queryRunner.commitTransaction();
+      await this.notificationsService.sendEmails(notifications);
       return updatedTask;
     } catch (err) {
       await queryRunner.rollbackTransaction();
@@ -199,7 +739,13 @@ export class TasksService {
     }
   }
 
-  async bulkUpdateStatus(ids: string[], status: string): Promise<Task[]> {
+  async bulkUpdateStatus(
+    ids: string[],
+    status: string,
+    user: any,
+    actor: TaskActor,
+    expectedVersions?: Record<string, number>,
+  ): Promise<Task[]> {
     if (!Array.isArray(ids) || ids.length === 0) {
       throw new BadRequestException('IDs array must be non-empty');
     }
@@ -211,22 +757,66 @@ export class TasksService {
     await queryRunner.connect();
     await queryRunner.startTransaction();
     try {
+      await this.assertVersions(queryRunner.manager, ids, expectedVersions);
+
+      const previousTasks: Task[] = await queryRunner.manager.find(Task, {
+        where: { id: In(ids) },
+        relations: ['project', 'project.members'],
+      });
+      if (previousTasks.some(task => !canEditTask(task, user))) {
+        throw new ForbiddenException('You are not allowed to update one or more of these tasks');
+      }
+
+      if (status === TaskStatus.COMPLETED) {
+        const openSubtaskIds = await this.findOpenSubtaskIds(queryRunner.manager, ids);
+        if (openSubtaskIds.length > 0) {
+          throw new ConflictException(
+            `Cannot complete tasks with ${openSubtaskIds.length} open subtask(s) outside this batch`,
+          );
+        }
+      }
+
+      await this.assertNotBlocked(queryRunner.manager, ids, status as TaskStatus);
+
+      const transitions = previousTasks
+        .filter(task => task.status !== status)
+        .map(task => ({ task, transition: assertTransition(task, status as TaskStatus, actor) }));
+
       await queryRunner.manager.update(Task, ids, { status: status as TaskStatus });
+      const notifications = await this.recordStatusChanges(
+        queryRunner.manager,
+        previousTasks,
+        status as TaskStatus,
+        actor,
+      );
+      for (const { task, transition } of transitions) {
+        await runTransitionEffects(transition, {
+          manager: queryRunner.manager,
+          task,
+          from: task.status,
+          to: status as TaskStatus,
+          actor,
+        });
+      }
 
       const updatedTasks = await queryRunner.manager.find(Task, {
         where: { id: In(ids) },
-        relations: ['user'],
+        relations: ['creator', 'assignee'],
       });
 
       await retry(() =>
         Promise.all(
           updatedTasks.map((task: { id: string; status: string }) =>
-            this.taskQueueService.enqueueStatusUpdate(task.id, task.status),
+            this.taskQueueService.enqueueStatusUpdate(task.id, task.status, actor.userId),
           ),
         ),
       );
+      for (const { task } of transitions) {
+        await this.syncDueReminders({ ...task, status: status as TaskStatus });
+      }
 
       await queryRunner.commitTransaction();
+      await this.notificationsService.sendEmails(notifications);
       return updatedTasks;
     } catch (err) {
       await queryRunner.rollbackTransaction();
@@ -237,19 +827,34 @@ export class TasksService {
     }
   }
 
-  async remove(id: string): Promise<void> {
+  async remove(id: string, actor: TaskActor, expectedVersion?: number): Promise<void> {
     try {
-      const deleteResult = await retry(() => this.tasksRepository.delete({ id }));
+      const criteria = expectedVersion === undefined ? { id } : { id, version: expectedVersion };
+      const deleteResult = await retry(() => this.tasksRepository.softDelete(criteria));
       if (deleteResult.affected === 0) {
+        if (
+          expectedVersion !== undefined &&
+          (await this.tasksRepository.findOne({ where: { id } }))
+        ) {
+          throw new PreconditionFailedException('Task was modified since it was read');
+        }
         throw new NotFoundException(`Task not found for deletion`);
       }
+      await this.recordEvent(this.tasksRepository.manager, id, TaskEventType.DELETED, actor, {});
+      await this.taskQueueService.enqueueDependencyRefresh(id);
+      await this.taskQueueService.cancelDueReminders(id);
     } catch (err) {
       Logger.error(`Failed to delete task with id ${id}:`, err);
       throw err;
     }
   }
 
-  async bulkDelete(ids: string[]): Promise<void> {
+  async bulkDelete(
+    ids: string[],
+    user: any,
+    actor: TaskActor,
+    expectedVersions?: Record<string, number>,
+  ): Promise<void> {
     if (!Array.isArray(ids) || ids.length === 0) {
       throw new BadRequestException('IDs array must be non-empty');
     }
@@ -258,11 +863,30 @@ export class TasksService {
     await queryRunner.connect();
     await queryRunner.startTransaction();
     try {
-      const deleteResult = await queryRunner.manager.delete(Task, ids);
-      if (deleteResult.affected === 0) {
+      await this.assertVersions(queryRunner.manager, ids, expectedVersions);
+
+      const tasks: Task[] = await queryRunner.manager.find(Task, {
+        where: { id: In(ids) },
+        relations: ['project', 'project.members'],
+      });
+      if (tasks.length === 0) {
         throw new NotFoundException('No tasks found for bulk deletion');
       }
+      if (tasks.some(task => !canDeleteTask(task, user))) {
+        throw new ForbiddenException('You are not allowed to delete one or more of these tasks');
+      }
+      await queryRunner.manager.softDelete(
+        Task,
+        tasks.map(task => task.id),
+      );
+      for (const task of tasks) {
+        await this.recordEvent(queryRunner.manager, task.id, TaskEventType.DELETED, actor, {});
+      }
       await queryRunner.commitTransaction();
+      for (const task of tasks) {
+        await this.taskQueueService.enqueueDependencyRefresh(task.id);
+        await this.taskQueueService.cancelDueReminders(task.id);
+      }
     } catch (err) {
       await queryRunner.rollbackTransaction();
       Logger.error('Failed to bulk delete tasks:', err);
@@ -272,12 +896,285 @@ export class TasksService {
     }
   }
 
+  async findTrash(userId: string | undefined, pageSize: number): Promise<Task[]> {
+    const query = this.tasksRepository
+      .createQueryBuilder('task')
+      .withDeleted()
+      .leftJoinAndSelect('task.creator', 'creator')
+      .where('task.deletedAt IS NOT NULL')
+      .orderBy('task.deletedAt', 'DESC')
+      .take(pageSize);
+
+    if (userId) {
+      query.andWhere('task.createdBy = :userId', { userId });
+    }
+
+    try {
+      return await retry(() => query.getMany());
+    } catch (err) {
+      Logger.error('Error fetching trashed tasks:', err);
+      throw err;
+    }
+  }
+
+  async findTrashed(id: string): Promise<Task> {
+    const task = await retry(() =>
+      this.tasksRepository.findOne({
+        where: { id, deletedAt: Not(IsNull()) },
+        relations: ['creator', 'assignee', 'project', 'project.members'],
+        withDeleted: true,
+      }),
+    );
+    if (!task) {
+      throw new NotFoundException(`Task not found in trash`);
+    }
+    return task;
+  }
+
+  async restore(id: string, actor: TaskActor): Promise<Task> {
+    await this.findTrashed(id);
+
+    try {
+      await retry(() => this.tasksRepository.restore({ id }));
+      await this.recordEvent(this.tasksRepository.manager, id, TaskEventType.RESTORED, actor, {});
+      await this.taskQueueService.enqueueDependencyRefresh(id);
+      const task = await this.findOne(id);
+      await this.syncDueReminders(task);
+      return task;
+    } catch (err) {
+      Logger.error(`Failed to restore task ${id}:`, err);
+      throw err;
+    }
+  }
+
+  // Permanently removes trashed tasks; live tasks have to be trashed first
+  async purge(ids: string[], actor: TaskActor): Promise<number> {
+    if (!Array.isArray(ids) || ids.length === 0) {
+      throw new BadRequestException('IDs array must be non-empty');
+    }
+
+    const queryRunner = this.tasksRepository.manager.connection.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
+    try {
+      const tasks: Task[] = await queryRunner.manager.find(Task, {
+        where: { id: In(ids), deletedAt: Not(IsNull()) },
+        withDeleted: true,
+      });
+      if (tasks.length === 0) {
+        await queryRunner.commitTransaction();
+        return 0;
+      }
+
+      const purgedIds = tasks.map(task => task.id);
+      const storageKeys = await this.findAttachmentKeys(queryRunner.manager, purgedIds);
+      await queryRunner.manager.delete(Task, purgedIds);
+      for (const task of tasks) {
+        await this.recordEvent(
+          queryRunner.manager,
+          task.id,
+          TaskEventType.PURGED,
+          actor,
+          diffTask(task, null),
+        );
+      }
+      await queryRunner.commitTransaction();
+      await this.cleanUpAttachments(storageKeys);
+      return tasks.length;
+    } catch (err) {
+      await queryRunner.rollbackTransaction();
+      Logger.error('Failed to purge tasks:', err);
+      throw err;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  async purgeTrashedBefore(cutoff: Date, actor: TaskActor): Promise<number> {
+    const batchSize = 100;
+    let purged = 0;
+
+    for (;;) {
+      const batch: Task[] = await retry(() =>
+        this.tasksRepository.find({
+          select: { id: true },
+          where: { deletedAt: LessThan(cutoff) },
+          order: { deletedAt: 'ASC' },
+          take: batchSize,
+          withDeleted: true,
+        }),
+      );
+      if (batch.length === 0) {
+        return purged;
+      }
+      purged += await this.purge(
+        batch.map(task => task.id),
+        actor,
+      );
+    }
+  }
+
+  async bulkTag(
+    ids: string[],
+    tagIds: string[],
+    user: any,
+    expectedVersions?: Record<string, number>,
+  ): Promise<Task[]> {
+    return this.bulkChangeTags(ids, tagIds, user, 'tag', expectedVersions);
+  }
+
+  async bulkUntag(
+    ids: string[],
+    tagIds: string[],
+    user: any,
+    expectedVersions?: Record<string, number>,
+  ): Promise<Task[]> {
+    return this.bulkChangeTags(ids, tagIds, user, 'untag', expectedVersions);
+  }
+
+  async assign(id: string, assigneeId: string, actor: TaskActor): Promise<Task> {
+    const task = await this.findOne(id);
+    await this.validateAssignee(this.tasksRepository.manager, assigneeId, task.projectId);
+
+    try {
+      await this.tasksRepository.update(Task, id, { assigneeId });
+      await this.recordEvent(this.tasksRepository.manager, id, TaskEventType.UPDATED, actor, {
+        assigneeId: { from: task.assigneeId, to: assigneeId },
+      });
+      if (task.assigneeId !== assigneeId) {
+        await this.notificationsService.sendEmails(
+          await this.notifyAssigned(
+            this.tasksRepository.manager,
+            { ...task, assigneeId },
+            actor.userId,
+          ),
+        );
+      }
+      return await this.findOne(id);
+    } catch (err) {
+      Logger.error(`Failed to assign task ${id} to user ${assigneeId}:`, err);
+      throw err;
+    }
+  }
+
+  async unassign(id: string, actor: TaskActor): Promise<Task> {
+    const task = await this.findOne(id);
+
+    try {
+      await this.tasksRepository.update(Task, id, { assigneeId: null });
+      await this.recordEvent(this.tasksRepository.manager, id, TaskEventType.UPDATED, actor, {
+        assigneeId: { from: task.assigneeId, to: null },
+      });
+      return await this.findOne(id);
+    } catch (err) {
+      Logger.error(`Failed to unassign task ${id}:`, err);
+      throw err;
+    }
+  }
+
+  private async bulkChangeTags(
+    ids: string[],
+    tagIds: string[],
+    user: any,
+    mode: 'tag' | 'untag',
+    expectedVersions?: Record<string, number>,
+  ): Promise<Task[]> {
+    if (!Array.isArray(ids) || ids.length === 0) {
+      throw new BadRequestException('IDs array must be non-empty');
+    }
+    if (!Array.isArray(tagIds) || tagIds.length === 0) {
+      throw new BadRequestException('Tag IDs array must be non-empty');
+    }
+
+    const queryRunner = this.tasksRepository.manager.connection.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
+    try {
+      await this.assertVersions(queryRunner.manager, ids, expectedVersions);
+
+      const tasks: Task[] = await queryRunner.manager.find(Task, {
+        where: { id: In(ids) },
+        relations: ['project', 'project.members'],
+      });
+      if (tasks.length !== new Set(ids).size) {
+        throw new NotFoundException('One or more tasks do not exist');
+      }
+      if (tasks.some(task => !canEditTask(task, user))) {
+        throw new ForbiddenException('You are not allowed to update one or more of these tasks');
+      }
+
+      const ownedTags = await queryRunner.manager.count(Tag, {
+        where: { id: In(tagIds), userId: user.id },
+      });
+      if (ownedTags !== new Set(tagIds).size) {
+        throw new BadRequestException('One or more tags do not exist');
+      }
+
+      if (mode === 'tag') {
+        await queryRunner.query(
+          `INSERT INTO task_tags (task_id, tag_id)
+           SELECT t.id, g.id FROM tasks t CROSS JOIN tags g
+           WHERE t.id = ANY($1) AND g.id = ANY($2)
+           ON CONFLICT DO NOTHING`,
+          [ids, tagIds],
+        );
+      } else {
+        await queryRunner.query(
+          `DELETE FROM task_tags WHERE task_id = ANY($1) AND tag_id = ANY($2)`,
+          [ids, tagIds],
+        );
+      }
+      // Tags are part of the task's representation, so its ETag has to change with them
+      await queryRunner.query(`UPDATE tasks SET version = version + 1 WHERE id = ANY($1)`, [ids]);
+
+      const updatedTasks = await queryRunner.manager.find(Task, {
+        where: { id: In(ids) },
+        relations: ['tags'],
+      });
+
+      await queryRunner.commitTransaction();
+      return updatedTasks;
+    } catch (err) {
+      await queryRunner.rollbackTransaction();
+      Logger.error(`Failed to bulk ${mode} tasks:`, err);
+      throw err;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  async rebalanceRanks(status: TaskStatus): Promise<number> {
+    try {
+      return await this.tasksRepository.manager.transaction((manager: any) =>
+        this.rebalanceColumn(manager, status),
+      );
+    } catch (err) {
+      Logger.error(`Failed to rebalance ranks of ${status} tasks:`, err);
+      throw err;
+    }
+  }
+
+  async findHistory(id: string): Promise<TaskEvent[]> {
+    try {
+      return await retry(() =>
+        this.tasksRepository.manager.find(TaskEvent, {
+          where: { taskId: id },
+          order: { createdAt: 'DESC' },
+        }),
+      );
+    } catch (err) {
+      Logger.error(`Error fetching history for task ${id}:`, err);
+      throw err;
+    }
+  }
+
   async findByStatus(status: TaskStatus): Promise<Task[]> {
     try {
       return await retry(() =>
         this.tasksRepository
           .createQueryBuilder('task')
-          .leftJoinAndSelect('task.user', 'user')
+          .leftJoinAndSelect('task.creator', 'creator')
+          .leftJoinAndSelect('task.assignee', 'assignee')
           .where('task.status = :status', { status })
           .orderBy('task.createdAt', 'DESC')
           .getMany(),
@@ -288,26 +1185,429 @@ export class TasksService {
     }
   }
 
-  async applyStatusUpdateFromQueue(id: string, status: string): Promise<Task> {
+  async applyStatusUpdateFromQueue(
+    id: string,
+    status: string,
+    actorId: string | null = null,
+  ): Promise<Task> {
     try {
-      const updateResult = await this.tasksRepository
-        .createQueryBuilder('task')
-        .update(Task)
-        .set({ status: status as any })
-        .where('id = :id', { id })
-        .execute();
-
-      if (updateResult.affected === 0) {
+      const previous = await this.tasksRepository.findOne({ where: { id } });
+      if (!previous) {
         throw new NotFoundException(`Task not found for status update from queue`);
       }
 
-      return await this.findOne(id);
+      // Requests that already changed the status enqueue it again; only real moves are checked
+      if (previous.status !== status) {
+        const actor: TaskActor = { userId: actorId, source: TaskEventSource.QUEUE };
+        const transition = assertTransition(previous, status as TaskStatus, actor);
+
+        const notifications: NewNotification[] = await this.tasksRepository.manager.transaction(
+          async (manager: any) => {
+            await manager.update(Task, id, { status: status as TaskStatus });
+            const recorded = await this.recordStatusChanges(
+              manager,
+              [previous],
+              status as TaskStatus,
+              actor,
+            );
+            await runTransitionEffects(transition, {
+              manager,
+              task: previous,
+              from: previous.status,
+              to: status as TaskStatus,
+              actor,
+            });
+            return recorded;
+          },
+        );
+        await this.notificationsService.sendEmails(notifications);
+      }
+
+      // Dependents recompute their blocked flag whenever a blocker changes status
+      await this.taskQueueService.enqueueDependencyRefresh(id);
+
+      const task = await this.findOne(id);
+      if (previous.status !== task.status) {
+        await this.syncDueReminders(task);
+      }
+      return task;
     } catch (err) {
       Logger.error(`Failed to apply status update from queue for task ${id}:`, err);
       throw err;
     }
   }
 
+  async ensureProjectRole(projectId: string, user: any, roles: ProjectRole[]): Promise<void> {
+    if (user.role === Role.Admin) {
+      return;
+    }
+
+    const membership: ProjectMember | null = await this.tasksRepository.manager.findOne(
+      ProjectMember,
+      { where: { projectId, userId: user.id } },
+    );
+    if (!membership || !roles.includes(membership.role)) {
+      throw new ForbiddenException('You are not allowed to add tasks to this project');
+    }
+  }
+
+  // Attachment rows go away with the purged task through the FK cascade, the blobs are
+  // removed asynchronously by the task processor
+  private async findAttachmentKeys(manager: any, taskIds: string[]): Promise<string[]> {
+    const attachments: Attachment[] = await manager.find(Attachment, {
+      select: { storageKey: true },
+      where: { taskId: In(taskIds) },
+    });
+    return attachments.map(attachment => attachment.storageKey);
+  }
+
+  private async cleanUpAttachments(storageKeys: string[]): Promise<void> {
+    if (storageKeys.length > 0) {
+      await this.taskQueueService.enqueueAttachmentCleanup(storageKeys);
+    }
+  }
+
+  private async notifyAssigned(
+    manager: any,
+    task: Pick<Task, 'id' | 'title' | 'assigneeId'>,
+    actorId: string | null,
+  ): Promise<NewNotification[]> {
+    if (!task.assigneeId) {
+      return [];
+    }
+    return this.notificationsService.notify(
+      [
+        {
+          userId: task.assigneeId,
+          type: NotificationType.ASSIGNED,
+          taskId: task.id,
+          actorId,
+          title: `You were assigned "${task.title}"`,
+        },
+      ],
+      manager,
+    );
+  }
+
+  // The creator and the assignee hear about status changes made by anyone else, jobs included
+  private async notifyStatusChanged(
+    manager: any,
+    task: Pick<Task, 'id' | 'title' | 'status' | 'createdBy' | 'assigneeId'>,
+    to: TaskStatus,
+    actor: TaskActor,
+  ): Promise<NewNotification[]> {
+    const recipients = [task.createdBy, task.assigneeId].filter((userId): userId is string =>
+      Boolean(userId),
+    );
+    return this.notificationsService.notify(
+      recipients.map(userId => ({
+        userId,
+        type: NotificationType.STATUS_CHANGED,
+        taskId: task.id,
+        actorId: actor.userId,
+        title: `"${task.title}" moved from ${task.status} to ${to}`,
+        data: { from: task.status, to },
+      })),
+      manager,
+    );
+  }
+
+  // Open tasks with a due date keep their reminders pending; any other task has none
+  private async syncDueReminders(
+    task: Pick<Task, 'id' | 'status' | 'dueDate' | 'deletedAt'>,
+  ): Promise<void> {
+    if (task.dueDate && !task.deletedAt && !CLOSED_TASK_STATUSES.includes(task.status)) {
+      await this.taskQueueService.scheduleDueReminders(task.id, new Date(task.dueDate));
+    } else {
+      await this.taskQueueService.cancelDueReminders(task.id);
+    }
+  }
+
+  private async recordEvent(
+    manager: any,
+    taskId: string,
+    type: TaskEventType,
+    actor: TaskActor,
+    changes: TaskFieldChanges,
+  ): Promise<void> {
+    await recordTaskEvent(manager, taskId, type, actor, changes);
+  }
+
+  private async recordStatusChanges(
+    manager: any,
+    tasks: Task[],
+    status: TaskStatus,
+    actor: TaskActor,
+  ): Promise<NewNotification[]> {
+    const notifications: NewNotification[] = [];
+    for (const task of tasks) {
+      if (task.status !== status) {
+        await this.recordEvent(manager, task.id, TaskEventType.UPDATED, actor, {
+          status: { from: task.status, to: status },
+        });
+        notifications.push(...(await this.notifyStatusChanged(manager, task, status, actor)));
+      }
+    }
+    return notifications;
+  }
+
+  // Neighbours without a rank (never placed) or in the wrong order (created at the same
+  // moment) are fixed by rebalancing the column before the task is slotted in
+  private async rankForMove(manager: any, task: Task, dto: MoveTaskDto): Promise<string> {
+    if (dto.beforeId === task.id || dto.afterId === task.id) {
+      throw new BadRequestException('A task cannot be its own neighbour');
+    }
+
+    let neighbours = await this.findNeighbours(manager, task.id, dto);
+    if (!this.inRankOrder(neighbours)) {
+      await this.rebalanceColumn(manager, dto.status);
+      neighbours = await this.findNeighbours(manager, task.id, dto);
+      if (!this.inRankOrder(neighbours)) {
+        throw new BadRequestException('beforeId must be above afterId in the column');
+      }
+    }
+
+    const [before, after] = neighbours;
+    return rankBetween(before?.rank ?? null, after?.rank ?? null);
+  }
+
+  // With a single neighbour given, the other one is whichever task sits next to it now
+  private async findNeighbours(
+    manager: any,
+    taskId: string,
+    dto: MoveTaskDto,
+  ): Promise<[Task | null, Task | null]> {
+    const before = dto.beforeId
+      ? await this.findNeighbour(manager, dto.beforeId, dto.status)
+      : null;
+    const after = dto.afterId ? await this.findNeighbour(manager, dto.afterId, dto.status) : null;
+
+    if (!before && !after) {
+      return [await this.adjacentTask(manager, dto.status, taskId, '<', null), null];
+    }
+    if (before?.rank && !after) {
+      return [before, await this.adjacentTask(manager, dto.status, taskId, '>', before.rank)];
+    }
+    if (after?.rank && !before) {
+      return [await this.adjacentTask(manager, dto.status, taskId, '<', after.rank), after];
+    }
+    return [before, after];
+  }
+
+  private async findNeighbour(manager: any, id: string, status: TaskStatus): Promise<Task> {
+    const neighbour: Task | null = await manager.findOne(Task, { where: { id } });
+    if (!neighbour || neighbour.status !== status) {
+      throw new BadRequestException(`Task ${id} is not in the ${status} column`);
+    }
+    return neighbour;
+  }
+
+  // The closest ranked task above ('<') or below ('>') the given rank; the last one without
+  private async adjacentTask(
+    manager: any,
+    status: TaskStatus,
+    excludeId: string,
+    direction: '<' | '>',
+    rank: string | null,
+  ): Promise<Task | null> {
+    const query = manager
+      .createQueryBuilder(Task, 'task')
+      .where('task.status = :status', { status })
+      .andWhere('task.id <> :excludeId', { excludeId })
+      .andWhere('task.rank IS NOT NULL')
+      .orderBy('task.rank', direction === '>' ? 'ASC' : 'DESC');
+
+    if (rank !== null) {
+      query.andWhere(`task.rank ${direction} :rank`, { rank });
+    }
+
+    return query.getOne();
+  }
+
+  private inRankOrder([before, after]: [Task | null, Task | null]): boolean {
+    if ((before && !before.rank) || (after && !after.rank)) {
+      return false;
+    }
+    return !before || !after || before.rank! < after.rank!;
+  }
+
+  private async lastRank(manager: any, status: TaskStatus): Promise<string | null> {
+    const row = await manager
+      .createQueryBuilder(Task, 'task')
+      .select('MAX(task.rank)', 'rank')
+      .where('task.status = :status', { status })
+      .getRawOne();
+    return row?.rank ?? null;
+  }
+
+  // Only the keys change, not the order, so task versions are left alone
+  private async rebalanceColumn(manager: any, status: TaskStatus): Promise<number> {
+    const rows: { id: string }[] = await manager.query(
+      `SELECT id FROM tasks WHERE status = $1 AND deleted_at IS NULL
+       ORDER BY rank ASC NULLS LAST, created_at ASC, id ASC
+       FOR UPDATE`,
+      [status],
+    );
+    if (rows.length === 0) {
+      return 0;
+    }
+
+    await manager.query(
+      `UPDATE tasks SET rank = ranked.rank
+       FROM unnest($1::uuid[], $2::text[]) AS ranked(id, rank)
+       WHERE tasks.id = ranked.id`,
+      [rows.map(row => row.id), spreadRanks(rows.length)],
+    );
+    return rows.length;
+  }
+
+  private async findCustomFields(): Promise<CustomFieldDefinition[]> {
+    return retry(() => this.tasksRepository.manager.find(CustomFieldDefinition));
+  }
+
+  private async resolveCustomFields(
+    manager: any,
+    existing: CustomFieldValues,
+    changes: Record<string, unknown>,
+  ): Promise<CustomFieldValues> {
+    const definitions: CustomFieldDefinition[] = await manager.find(CustomFieldDefinition);
+    const values = mergeCustomFieldValues(definitions, existing, changes);
+
+    const userIds = definitions
+      .filter(definition => definition.type === CustomFieldType.USER && changes[definition.key])
+      .map(definition => values[definition.key] as string);
+    if (userIds.length > 0) {
+      const found = await manager.count(User, { where: { id: In(userIds) } });
+      if (found !== new Set(userIds).size) {
+        throw new BadRequestException('A user custom field refers to a user that does not exist');
+      }
+    }
+
+    return values;
+  }
+
+  private async validateAssignee(
+    manager: any,
+    assigneeId: string,
+    projectId: string | null,
+  ): Promise<void> {
+    const exists = await manager.count(User, { where: { id: assigneeId } });
+    if (!exists) {
+      throw new BadRequestException('Assignee not found');
+    }
+
+    if (projectId) {
+      const isMember = await manager.count(ProjectMember, {
+        where: { projectId, userId: assigneeId },
+      });
+      if (!isMember) {
+        throw new BadRequestException('Assignee must be a member of the task project');
+      }
+    }
+  }
+
+  private async validateParent(
+    manager: any,
+    parentId: string,
+    ownerId: string,
+    taskId?: string,
+  ): Promise<void> {
+    if (taskId && parentId === taskId) {
+      throw new BadRequestException('A task cannot be its own parent');
+    }
+
+    const parent: Task | null = await manager.findOne(Task, { where: { id: parentId } });
+    if (!parent) {
+      throw new BadRequestException('Parent task not found');
+    }
+    if (parent.createdBy !== ownerId) {
+      throw new BadRequestException('Parent task must belong to the same user');
+    }
+
+    if (taskId) {
+      // Walk up from the proposed parent; meeting the task itself means a cycle
+      const ancestors: { id: string }[] = await manager.query(
+        `WITH RECURSIVE ancestors AS (
+           SELECT id, parent_id FROM tasks WHERE id = $1
+           UNION
+           SELECT t.id, t.parent_id FROM tasks t INNER JOIN ancestors a ON t.id = a.parent_id
+         )
+         SELECT id FROM ancestors`,
+        [parentId],
+      );
+      if (ancestors.some(ancestor => ancestor.id === taskId)) {
+        throw new BadRequestException('Parent assignment would create a cycle');
+      }
+    }
+  }
+
+  // Locks the tasks that carry an expected version and fails if any has moved on since it was read
+  private async assertVersions(
+    manager: any,
+    ids: string[],
+    expectedVersions: Record<string, number> | undefined,
+  ): Promise<void> {
+    const checkedIds = ids.filter(id => expectedVersions?.[id] !== undefined);
+    if (checkedIds.length === 0) {
+      return;
+    }
+    if (checkedIds.some(id => !Number.isInteger(expectedVersions![id]))) {
+      throw new BadRequestException('Expected versions must be integers');
+    }
+
+    const rows: { id: string; version: number }[] = await manager.query(
+      `SELECT id, version FROM tasks WHERE id = ANY($1) AND deleted_at IS NULL FOR UPDATE`,
+      [checkedIds],
+    );
+    const staleIds = rows
+      .filter(row => row.version !== expectedVersions![row.id])
+      .map(row => row.id);
+
+    if (staleIds.length > 0) {
+      throw new PreconditionFailedException(
+        `Task(s) ${staleIds.join(', ')} were modified since they were read`,
+      );
+    }
+  }
+
+  private async assertNotBlocked(manager: any, ids: string[], status: TaskStatus): Promise<void> {
+    if (status !== TaskStatus.IN_PROGRESS && status !== TaskStatus.COMPLETED) {
+      return;
+    }
+
+    // Blockers completed in the same batch do not count against their dependents
+    const rows: { id: string }[] = await manager.query(
+      `SELECT DISTINCT d.blocked_id AS id
+       FROM task_dependencies d
+       INNER JOIN tasks b ON b.id = d.blocker_id
+       WHERE d.blocked_id = ANY($1)
+         AND b.status <> ALL($2)
+         AND b.deleted_at IS NULL
+         AND NOT ($3 AND b.id = ANY($1))`,
+      [ids, CLOSED_TASK_STATUSES, status === TaskStatus.COMPLETED],
+    );
+
+    if (rows.length > 0) {
+      throw new ConflictException(
+        `Task(s) ${rows.map(row => row.id).join(', ')} are blocked by unfinished dependencies`,
+      );
+    }
+  }
+
+  private async findOpenSubtaskIds(manager: any, parentIds: string[]): Promise<string[]> {
+    const rows: { id: string }[] = await manager.query(
+      `WITH RECURSIVE descendants AS (
+         SELECT id, status FROM tasks WHERE parent_id = ANY($1) AND deleted_at IS NULL
+         UNION
+         SELECT t.id, t.status FROM tasks t INNER JOIN descendants d ON t.parent_id = d.id
+         WHERE t.deleted_at IS NULL
+       )
+       SELECT id FROM descendants WHERE status <> ALL($2) AND NOT (id = ANY($1))`,
+      [parentIds, CLOSED_TASK_STATUSES],
+    );
+    return rows.map(row => row.id);
+  }
+
   async getOverdueTasks(): Promise<Task[]> {
     try {
       const now = new Date();
@@ -315,9 +1615,9 @@ export class TasksService {
         this.tasksRepository.find({
           where: {
             dueDate: LessThan(now),
-            status: Not(TaskStatus.COMPLETED),
+            status: In(OPEN_TASK_STATUSES),
           },
-          relations: ['user'],
+          relations: ['creator', 'assignee'],
         }),
       );
     } catch (error) {
@@ -325,16 +1625,69 @@ export class TasksService {
       throw new Error('Failed to fetch overdue tasks');
     }
   }
+
+  // Reminders are queued for every offset; only the ones the task or the person reminded asked
+  // for are sent, and only while the task is open and still due when the job was scheduled
+  async sendDueReminder(taskId: string, dueDate: string, offsetMinutes: number): Promise<boolean> {
+    try {
+      const task = await retry(() =>
+        this.tasksRepository.findOne({
+          where: { id: taskId },
+          relations: ['creator', 'assignee'],
+        }),
+      );
+      if (
+        !task?.dueDate ||
+        CLOSED_TASK_STATUSES.includes(task.status) ||
+        new Date(task.dueDate).getTime() !== new Date(dueDate).getTime()
+      ) {
+        return false;
+      }
+
+      const recipient = task.assignee ?? task.creator;
+      const offsets = resolveReminderOffsets(task.reminderOffsets, recipient?.reminderOffsets);
+      if (!offsets.includes(offsetMinutes)) {
+        return false;
+      }
+
+      const due = new Date(task.dueDate).toISOString();
+      await this.notificationsService.notify([
+        {
+          userId: recipient.id,
+          type: NotificationType.DUE_SOON,
+          taskId: task.id,
+          title: `"${task.title}" is due in ${describeReminderOffset(offsetMinutes)}`,
+          data: { dueDate: due, offsetMinutes },
+          dedupeKey: `due-soon:${task.id}:${offsetMinutes}:${due}`,
+        },
+      ]);
+      return true;
+    } catch (error) {
+      Logger.error(`Failed to send due reminder for task ${taskId}:`, error);
+      throw error;
+    }
+  }
+
+  // Tells the assignee, or the creator of an unassigned task, once per due date
   async notifyOverdueTasks(task: Task): Promise<void> {
-    // Log only if task is truly overdue and not already completed
     if (!task) {
       Logger.error('No task provided to notifyOverdueTasks');
       return;
     }
-    if (task.dueDate && task.dueDate < new Date() && task.status !== TaskStatus.COMPLETED) {
-      Logger.log(`Notifying about overdue task with id ${task.id} and title "${task.title}".`);
-    } else {
-      Logger.log(`Task with id ${task.id} is not overdue or already completed.`);
+    if (!task.dueDate || task.dueDate >= new Date() || CLOSED_TASK_STATUSES.includes(task.status)) {
+      return;
     }
+
+    const due = new Date(task.dueDate).toISOString();
+    await this.notificationsService.notify([
+      {
+        userId: task.assigneeId ?? task.createdBy,
+        type: NotificationType.OVERDUE,
+        taskId: task.id,
+        title: `"${task.title}" is overdue`,
+        data: { dueDate: due },
+        dedupeKey: `overdue:${task.id}:${due}`,
+      },
+    ]);
   }
 }
@@ -0,0 +1,201 @@
+import { BadRequestException } from '@nestjs/common';
+import { TaskStatus } from '../enums/task-status.enum';
+import { TaskEventType } from '../enums/task-event-type.enum';
+import { TaskFieldChanges } from '../entities/task-event.entity';
+import { CLOSED_TASK_STATUSES } from '../workflow/task-workflow';
+import { resolveDateToken, startOfDay } from './date-token';
+
+export interface BurndownTask {
+  id: string;
+  status: TaskStatus;
+  storyPoints: number | null;
+  projectId: string | null;
+  createdAt: Date;
+  deletedAt: Date | null;
+}
+
+export interface BurndownEvent {
+  taskId: string;
+  type: TaskEventType;
+  changes: TaskFieldChanges;
+  createdAt: Date;
+}
+
+export interface BurndownDay {
+  date: string;
+  // Points of open tasks in scope at the end of the day
+  remainingPoints: number;
+  completedPoints: number;
+  scopeAddedPoints: number;
+  scopeRemovedPoints: number;
+  // Points of every task in scope at the end of the day, closed ones included
+  scopePoints: number;
+}
+
+export interface Burndown {
+  from: string;
+  to: string;
+  initialRemainingPoints: number;
+  days: BurndownDay[];
+}
+
+export interface BurndownRange {
+  from: Date;
+  to: Date;
+}
+
+interface TaskState {
+  exists: boolean;
+  deleted: boolean;
+  status: TaskStatus;
+  storyPoints: number | null;
+  projectId: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_RANGE_DAYS = 366;
+
+export function resolveBurndownRange(from: string, to: string, now = new Date()): BurndownRange {
+  if (!from || !to) {
+    throw new BadRequestException('Both "from" and "to" are required');
+  }
+
+  const range = {
+    from: startOfDay(resolveDateToken(from, 'start', now)),
+    to: resolveDateToken(to, 'end', now),
+  };
+  if (range.to < range.from) {
+    throw new BadRequestException('"to" must not be before "from"');
+  }
+  if (range.to.getTime() - range.from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+    throw new BadRequestException(`Burndown ranges cover at most ${MAX_RANGE_DAYS} days`);
+  }
+  return range;
+}
+
+// Rebuilds the state of every task at each day boundary by undoing, from its current state,
+// the history recorded after that boundary. `events` must hold every event since range.from.
+// With a projectId only the days a task spent in that project count towards the scope.
+export function computeBurndown(
+  range: BurndownRange,
+  tasks: BurndownTask[],
+  events: BurndownEvent[],
+  projectId?: string,
+): Burndown {
+  const boundaries: Date[] = [];
+  for (let day = range.from; day <= range.to; day = new Date(day.getTime() + DAY_MS)) {
+    boundaries.push(day);
+  }
+  boundaries.push(new Date(boundaries[boundaries.length - 1].getTime() + DAY_MS));
+
+  const eventsByTask = new Map<string, BurndownEvent[]>();
+  for (const event of events) {
+    eventsByTask.set(event.taskId, [...(eventsByTask.get(event.taskId) ?? []), event]);
+  }
+
+  const points = (state: TaskState) =>
+    state.exists && !state.deleted && (!projectId || state.projectId === projectId)
+      ? (state.storyPoints ?? 0)
+      : null;
+
+  const days: BurndownDay[] = boundaries.slice(0, -1).map(day => ({
+    date: day.toISOString().slice(0, 10),
+    remainingPoints: 0,
+    completedPoints: 0,
+    scopeAddedPoints: 0,
+    scopeRemovedPoints: 0,
+    scopePoints: 0,
+  }));
+  let initialRemainingPoints = 0;
+
+  for (const task of tasks) {
+    const states = statesAt(task, eventsByTask.get(task.id) ?? [], boundaries);
+
+    const initial = points(states[0]);
+    if (initial !== null && !CLOSED_TASK_STATUSES.includes(states[0].status)) {
+      initialRemainingPoints += initial;
+    }
+
+    days.forEach((day, index) => {
+      const start = states[index];
+      const end = states[index + 1];
+      const startPoints = points(start);
+      const endPoints = points(end);
+
+      if (endPoints !== null) {
+        day.scopePoints += endPoints;
+        if (!CLOSED_TASK_STATUSES.includes(end.status)) {
+          day.remainingPoints += endPoints;
+        }
+        if (
+          end.status === TaskStatus.COMPLETED &&
+          (startPoints === null || start.status !== TaskStatus.COMPLETED)
+        ) {
+          day.completedPoints += endPoints;
+        }
+      }
+
+      const delta = (endPoints ?? 0) - (startPoints ?? 0);
+      if (delta > 0) {
+        day.scopeAddedPoints += delta;
+      } else {
+        day.scopeRemovedPoints -= delta;
+      }
+    });
+  }
+
+  return {
+    from: days[0].date,
+    to: days[days.length - 1].date,
+    initialRemainingPoints,
+    days,
+  };
+}
+
+// Returns the state of the task just before each boundary; boundaries are ascending
+function statesAt(task: BurndownTask, events: BurndownEvent[], boundaries: Date[]): TaskState[] {
+  const state: TaskState = {
+    exists: true,
+    deleted: task.deletedAt !== null,
+    status: task.status,
+    storyPoints: task.storyPoints,
+    projectId: task.projectId,
+  };
+  const newestFirst = [...events].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  const states: TaskState[] = [];
+  let next = 0;
+
+  for (let index = boundaries.length - 1; index >= 0; index--) {
+    const boundary = boundaries[index];
+    while (next < newestFirst.length && newestFirst[next].createdAt >= boundary) {
+      undo(state, newestFirst[next]);
+      next++;
+    }
+    states[index] = { ...state, exists: task.createdAt < boundary };
+  }
+
+  return states;
+}
+
+function undo(state: TaskState, event: BurndownEvent): void {
+  // Before its creation the task does not exist at all, see statesAt
+  if (event.type === TaskEventType.CREATED) {
+    return;
+  }
+  if (event.type === TaskEventType.DELETED) {
+    state.deleted = false;
+  } else if (event.type === TaskEventType.RESTORED) {
+    state.deleted = true;
+  }
+
+  const { status, storyPoints, projectId } = event.changes;
+  if (status) {
+    state.status = status.from as TaskStatus;
+  }
+  if (storyPoints) {
+    state.storyPoints = storyPoints.from as number | null;
+  }
+  if (projectId) {
+    state.projectId = projectId.from as string | null;
+  }
+}
@@ -0,0 +1,47 @@
+import { BadRequestException } from '@nestjs/common';
+
+export const DATE_TOKEN_PATTERN =
+  /^(now|today|tomorrow|yesterday|[+-]\d+[hdw]|\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?)$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NAMED_DAYS: Record<string, number> = { yesterday: -1, today: 0, tomorrow: 1 };
+const UNIT_DAYS: Record<string, number> = { d: 1, w: 7 };
+
+// Resolves "today", "+7d", "-2w", "+12h", "now" or an ISO date against `now`. Tokens
+// naming a whole day cover it entirely, so a lower bound starts at midnight (UTC) and
+// an upper bound includes the last millisecond of that day.
+export function resolveDateToken(token: string, bound: 'start' | 'end', now = new Date()): Date {
+  if (!DATE_TOKEN_PATTERN.test(token)) {
+    throw new BadRequestException(`Invalid date or relative date token: ${token}`);
+  }
+
+  if (token === 'now') {
+    return new Date(now);
+  }
+  if (token.endsWith('h') && /^[+-]/.test(token)) {
+    return new Date(now.getTime() + parseInt(token, 10) * 60 * 60 * 1000);
+  }
+
+  let day: Date;
+  if (token in NAMED_DAYS) {
+    day = new Date(startOfDay(now).getTime() + NAMED_DAYS[token] * DAY_MS);
+  } else if (/^[+-]/.test(token)) {
+    const days = parseInt(token, 10) * UNIT_DAYS[token.slice(-1)];
+    day = new Date(startOfDay(now).getTime() + days * DAY_MS);
+  } else {
+    const date = new Date(token);
+    if (isNaN(date.getTime())) {
+      throw new BadRequestException(`Invalid date: ${token}`);
+    }
+    if (token.includes('T')) {
+      return date;
+    }
+    day = date;
+  }
+
+  return bound === 'start' ? day : new Date(day.getTime() + DAY_MS - 1);
+}
+
+export function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
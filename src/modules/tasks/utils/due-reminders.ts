@@ -0,0 +1,42 @@
+// Minutes before the due date a reminder can be sent at: one day, one hour, fifteen minutes.
+// Offsets are limited to these so every reminder job id of a task is known up front.
+export const REMINDER_OFFSETS = [1440, 60, 15];
+
+export const DEFAULT_REMINDER_OFFSETS = REMINDER_OFFSETS;
+
+export interface DueReminder {
+  offsetMinutes: number;
+  delay: number;
+}
+
+export function reminderJobId(taskId: string, offsetMinutes: number): string {
+  return `reminder:${taskId}:${offsetMinutes}`;
+}
+
+// One reminder per offset still ahead of us; those already passed are dropped, not sent late.
+// Which of them are wanted is only decided when they fire, so preference changes need no
+// rescheduling.
+export function planDueReminders(dueDate: Date, now = new Date()): DueReminder[] {
+  return REMINDER_OFFSETS.map(offsetMinutes => ({
+    offsetMinutes,
+    delay: dueDate.getTime() - offsetMinutes * 60 * 1000 - now.getTime(),
+  })).filter(reminder => reminder.delay > 0);
+}
+
+// The task's own offsets win over those of the person being reminded
+export function resolveReminderOffsets(
+  taskOffsets: number[] | null,
+  userOffsets: number[] | null | undefined,
+): number[] {
+  return taskOffsets ?? userOffsets ?? DEFAULT_REMINDER_OFFSETS;
+}
+
+export function describeReminderOffset(offsetMinutes: number): string {
+  const [amount, unit] =
+    offsetMinutes % 1440 === 0
+      ? [offsetMinutes / 1440, 'day']
+      : offsetMinutes % 60 === 0
+        ? [offsetMinutes / 60, 'hour']
+        : [offsetMinutes, 'minute'];
+  return `${amount} ${unit}${amount === 1 ? '' : 's'}`;
+}
@@ -0,0 +1,61 @@
+import { EscalationAction } from '../enums/escalation-action.enum';
+
+export interface EscalationStep {
+  // Identifies the step in task_escalations, e.g. "3d:notify-admins"
+  key: string;
+  afterMs: number;
+  action: EscalationAction;
+}
+
+export const DEFAULT_ESCALATION_POLICY = '1d:raise-priority,3d:notify-admins,7d:mark-stale';
+
+const UNIT_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+const STEP_PATTERN = /^(\d+)([mhd]):([a-z-]+)$/;
+
+// Parses comma-separated "<amount><m|h|d>:<action>" steps, ordered by how long the task has
+// to be overdue. An empty policy disables escalation.
+export function parseEscalationPolicy(value: string): EscalationStep[] {
+  const steps: EscalationStep[] = [];
+
+  for (const token of value.split(',').map(part => part.trim().toLowerCase())) {
+    if (!token) {
+      continue;
+    }
+    const match = STEP_PATTERN.exec(token);
+    if (!match) {
+      throw new Error(`Invalid escalation step "${token}", expected e.g. 3d:notify-admins`);
+    }
+    const [, amount, unit, action] = match;
+    if (!Object.values(EscalationAction).includes(action as EscalationAction)) {
+      throw new Error(
+        `Unknown escalation action "${action}", expected one of: ${Object.values(EscalationAction).join(', ')}`,
+      );
+    }
+    if (steps.some(step => step.key === token)) {
+      throw new Error(`Escalation step "${token}" is listed twice`);
+    }
+    steps.push({
+      key: token,
+      afterMs: Number(amount) * UNIT_MS[unit],
+      action: action as EscalationAction,
+    });
+  }
+
+  return steps.sort((a, b) => a.afterMs - b.afterMs);
+}
+
+// Steps the task has been overdue long enough for and that have not fired for this due date
+export function pendingEscalationSteps(
+  policy: EscalationStep[],
+  dueDate: Date,
+  fired: string[],
+  now = new Date(),
+): EscalationStep[] {
+  const overdueMs = now.getTime() - dueDate.getTime();
+  return policy.filter(step => overdueMs >= step.afterMs && !fired.includes(step.key));
+}
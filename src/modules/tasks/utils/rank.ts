@@ -0,0 +1,89 @@
+// Board positions are base-36 strings compared byte by byte (the column uses the "C"
+// collation). Keys never end in '0', so another key always fits between two of them.
+const DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+
+// Past this length a column is spread out again by the rank-rebalance job
+export const RANK_REBALANCE_LENGTH = 16;
+
+// Returns a key sorting strictly between `before` and `after`; null stands for the start or
+// the end of the column.
+export function rankBetween(before: string | null, after: string | null): string {
+  if (before === null && after === null) {
+    return DIGITS[DIGITS.length / 2];
+  }
+  if (after === null) {
+    return keyAfter(before!);
+  }
+  if (before === null) {
+    return keyBefore(after);
+  }
+  if (before >= after) {
+    throw new Error(`Rank "${before}" does not sort before "${after}"`);
+  }
+  return midpoint(before, after);
+}
+
+// Evenly spaced keys of equal length, for rewriting a whole column of `count` tasks. They
+// fill the middle half of the key space, leaving room to add tasks at either end.
+export function spreadRanks(count: number): string[] {
+  let width = 1;
+  while (DIGITS.length ** width < 2 * (count + 1) * DIGITS.length) {
+    width++;
+  }
+
+  const space = DIGITS.length ** width;
+  const step = space / 2 / (count + 1);
+  return Array.from({ length: count }, (_, index) => {
+    let value = Math.floor(space / 4 + (index + 1) * step);
+    if (value % DIGITS.length === 0) {
+      value++;
+    }
+    return value.toString(DIGITS.length).padStart(width, '0');
+  });
+}
+
+// Stepping the first digit with room, rather than halving, keeps keys short when tasks are
+// repeatedly added to the end or the top of a column
+function keyAfter(key: string): string {
+  for (let index = 0; index < key.length; index++) {
+    const digit = DIGITS.indexOf(key[index]);
+    if (digit < DIGITS.length - 1) {
+      return key.slice(0, index) + DIGITS[digit + 1];
+    }
+  }
+  return key + DIGITS[1];
+}
+
+function keyBefore(key: string): string {
+  const digit = DIGITS.indexOf(key[0]);
+  if (digit > 1) {
+    return DIGITS[digit - 1];
+  }
+  if (digit === 1) {
+    return DIGITS[0] + DIGITS[DIGITS.length - 1];
+  }
+  return DIGITS[0] + keyBefore(key.slice(1));
+}
+
+// `low` may be empty and `high` null, meaning the bounds of the key space
+function midpoint(low: string, high: string | null): string {
+  if (high !== null) {
+    let shared = 0;
+    while ((low[shared] ?? DIGITS[0]) === high[shared]) {
+      shared++;
+    }
+    if (shared > 0) {
+      return high.slice(0, shared) + midpoint(low.slice(shared), high.slice(shared));
+    }
+  }
+
+  const lowDigit = low ? DIGITS.indexOf(low[0]) : 0;
+  const highDigit = high !== null ? DIGITS.indexOf(high[0]) : DIGITS.length;
+  if (highDigit - lowDigit > 1) {
+    return DIGITS[Math.round((lowDigit + highDigit) / 2)];
+  }
+  if (high !== null && high.length > 1) {
+    return high[0];
+  }
+  return DIGITS[lowDigit] + midpoint(low.slice(1), null);
+}
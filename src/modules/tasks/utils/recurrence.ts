@@ -0,0 +1,38 @@
+import { BadRequestException } from '@nestjs/common';
+import { RRule } from 'rrule';
+
+export function buildRecurrence(recurrenceRule: string, startsAt: Date): RRule {
+  let options;
+  try {
+    options = RRule.parseString(recurrenceRule.replace(/^RRULE:/i, ''));
+  } catch (error) {
+    throw new BadRequestException(
+      `Invalid recurrence rule: ${error instanceof Error ? error.message : recurrenceRule}`,
+    );
+  }
+
+  if (options.freq === undefined || options.freq === null) {
+    throw new BadRequestException('Recurrence rule must specify FREQ');
+  }
+  if (options.dtstart) {
+    throw new BadRequestException('Recurrence rule must not contain DTSTART; use startsAt');
+  }
+
+  return new RRule({ ...options, dtstart: startsAt });
+}
+
+export function normalizeRecurrenceRule(recurrenceRule: string): string {
+  return recurrenceRule
+    .replace(/^RRULE:/i, '')
+    .trim()
+    .toUpperCase();
+}
+
+export function nextOccurrence(
+  recurrenceRule: string,
+  startsAt: Date,
+  after: Date | null,
+): Date | null {
+  const rule = buildRecurrence(recurrenceRule, startsAt);
+  return after ? rule.after(after, false) : rule.after(startsAt, true);
+}
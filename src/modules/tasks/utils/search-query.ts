@@ -0,0 +1,54 @@
+import { escapeHtml } from '@common/utils/html';
+
+export const SEARCH_CONFIG = 'english';
+
+// ts_headline returns the stored text as it is, so matches are delimited with control
+// characters and only turned into <mark> tags after the text has been HTML-escaped
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_STOP = '\u0003';
+
+export function headlineOptions(options = ''): string {
+  return [`StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}`, options]
+    .filter(Boolean)
+    .join(', ');
+}
+
+export function renderHighlight(headline: string): string;
+export function renderHighlight(headline: string | null): string | null;
+export function renderHighlight(headline: string | null): string | null {
+  if (headline === null) {
+    return null;
+  }
+  return escapeHtml(headline)
+    .replaceAll(HIGHLIGHT_START, '<mark>')
+    .replaceAll(HIGHLIGHT_STOP, '</mark>');
+}
+
+// Turns free text into a to_tsquery() expression: "quoted words" must appear as a phrase,
+// a trailing * matches by prefix and all remaining terms have to be present
+export function buildTsQuery(input: string): string | null {
+  const clauses: string[] = [];
+
+  for (const match of input.matchAll(/"([^"]*)"?|(\S+)/g)) {
+    const [, phrase, term] = match;
+    const words = lexemes(phrase ?? term);
+    if (words.length === 0) {
+      continue;
+    }
+
+    if (term?.endsWith('*')) {
+      words[words.length - 1] += ':*';
+    }
+    clauses.push(words.length === 1 ? words[0] : `(${words.join(' <-> ')})`);
+  }
+
+  return clauses.length > 0 ? clauses.join(' & ') : null;
+}
+
+// Only letters and digits reach to_tsquery, so user input can never produce a syntax error
+function lexemes(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
@@ -0,0 +1,54 @@
+import { Task } from '../entities/task.entity';
+import { TaskFieldChanges } from '../entities/task-event.entity';
+
+// Fields recorded in the task history; relations and bookkeeping columns are left out
+export const TRACKED_TASK_FIELDS = [
+  'title',
+  'description',
+  'status',
+  'priority',
+  'dueDate',
+  'estimateMinutes',
+  'storyPoints',
+  'createdBy',
+  'assigneeId',
+  'parentId',
+  'projectId',
+] as const;
+
+type TrackedTask = Partial<Pick<Task, (typeof TRACKED_TASK_FIELDS)[number] | 'customFields'>>;
+
+function normalize(value: unknown): unknown {
+  if (value === undefined) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return value;
+}
+
+export function diffTask(before: TrackedTask | null, after: TrackedTask | null): TaskFieldChanges {
+  const changes: TaskFieldChanges = {};
+
+  for (const field of TRACKED_TASK_FIELDS) {
+    const from = normalize(before?.[field]);
+    const to = normalize(after?.[field]);
+    if (from !== to) {
+      changes[field] = { from, to };
+    }
+  }
+
+  // Custom fields are recorded one key at a time, e.g. "customFields.severity"
+  const fromFields = before?.customFields ?? {};
+  const toFields = after?.customFields ?? {};
+  for (const key of new Set([...Object.keys(fromFields), ...Object.keys(toFields)])) {
+    const from = fromFields[key] ?? null;
+    const to = toFields[key] ?? null;
+    if (from !== to) {
+      changes[`customFields.${key}`] = { from, to };
+    }
+  }
+
+  return changes;
+}
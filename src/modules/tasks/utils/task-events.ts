@@ -0,0 +1,25 @@
+import { TaskEvent, TaskFieldChanges } from '../entities/task-event.entity';
+import { TaskEventType } from '../enums/task-event-type.enum';
+import type { TaskActor } from '../interfaces/task-actor.interface';
+
+// Written with the caller's transaction manager so the history commits or rolls back with the
+// change it describes
+export async function recordTaskEvent(
+  manager: any,
+  taskId: string,
+  type: TaskEventType,
+  actor: TaskActor,
+  changes: TaskFieldChanges,
+): Promise<void> {
+  if (type === TaskEventType.UPDATED && Object.keys(changes).length === 0) {
+    return;
+  }
+
+  await manager.insert(TaskEvent, {
+    taskId,
+    type,
+    source: actor.source,
+    actorId: actor.userId,
+    changes,
+  });
+}
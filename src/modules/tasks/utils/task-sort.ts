@@ -0,0 +1,51 @@
+import { BadRequestException } from '@nestjs/common';
+import { SortKey, parseSort } from '@common/utils/cursor-pagination';
+import { TaskSortField } from '../enums/task-sort-field.enum';
+import { CustomFieldDefinition } from '../../custom-fields/entities/custom-field-definition.entity';
+import { CustomFieldType } from '../../custom-fields/enums/custom-field-type.enum';
+import { CUSTOM_FIELD_KEY_PATTERN } from '../../custom-fields/utils/custom-field-values';
+
+export type CustomFieldSortField = `cf.${string}`;
+
+export type TaskSort = SortKey<TaskSortField | CustomFieldSortField>[];
+
+export const DEFAULT_TASK_SORT: TaskSort = [{ field: TaskSortField.CREATED_AT, direction: 'DESC' }];
+
+const CUSTOM_FIELD_CASTS: Partial<Record<CustomFieldType, string>> = {
+  [CustomFieldType.NUMBER]: '::numeric',
+  [CustomFieldType.DATE]: '::timestamptz',
+  [CustomFieldType.BOOLEAN]: '::boolean',
+};
+
+export function parseTaskSort(input: string | undefined): TaskSort {
+  return parseSort<TaskSortField | CustomFieldSortField>(
+    input,
+    Object.values(TaskSortField),
+    DEFAULT_TASK_SORT,
+    field => field.startsWith('cf.') && CUSTOM_FIELD_KEY_PATTERN.test(field.slice(3)),
+  );
+}
+
+// Points cf.<key> sort keys at the stored value, cast to the field's type
+export function resolveCustomFieldSort(
+  sort: TaskSort,
+  definitions: CustomFieldDefinition[],
+): TaskSort {
+  return sort.map(key => {
+    if (!key.field.startsWith('cf.')) {
+      return key;
+    }
+
+    const name = key.field.slice(3);
+    const definition = definitions.find(field => field.key === name);
+    if (!definition) {
+      throw new BadRequestException(`Unknown custom field "${name}" in sort`);
+    }
+    // The key is safe to inline: it matched CUSTOM_FIELD_KEY_PATTERN and an existing definition
+    return {
+      ...key,
+      expression: `(task.custom_fields ->> '${name}')${CUSTOM_FIELD_CASTS[definition.type] ?? ''}`,
+      readValue: row => row.customFields?.[name] ?? null,
+    };
+  });
+}
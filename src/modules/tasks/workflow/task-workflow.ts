@@ -0,0 +1,134 @@
+import { ConflictException } from '@nestjs/common';
+import { In } from 'typeorm';
+import { Task } from '../entities/task.entity';
+import { TaskEvent } from '../entities/task-event.entity';
+import { TaskEventType } from '../enums/task-event-type.enum';
+import { TaskStatus } from '../enums/task-status.enum';
+import { TaskActor } from '../interfaces/task-actor.interface';
+
+export const OPEN_TASK_STATUSES = [
+  TaskStatus.PENDING,
+  TaskStatus.IN_PROGRESS,
+  TaskStatus.BLOCKED,
+  TaskStatus.IN_REVIEW,
+];
+
+export const CLOSED_TASK_STATUSES = [TaskStatus.COMPLETED, TaskStatus.CANCELLED];
+
+export interface TransitionContext {
+  manager: any;
+  task: Task;
+  from: TaskStatus;
+  to: TaskStatus;
+  actor: TaskActor;
+}
+
+// Returns the reason a transition is refused, or null to let it through
+export type TransitionGuard = (task: Task, actor: TaskActor) => string | null;
+
+// Runs in the same transaction as the status change
+export type TransitionEffect = (context: TransitionContext) => Promise<void>;
+
+export interface TaskTransition {
+  from: TaskStatus[];
+  to: TaskStatus;
+  guards?: TransitionGuard[];
+  effects?: TransitionEffect[];
+}
+
+// Jobs started by the system have no user to check against
+const onlyAssignee: TransitionGuard = (task, actor) =>
+  actor.userId === null || task.assigneeId === actor.userId
+    ? null
+    : 'only the assignee can submit it for review';
+
+const cancelOpenSubtasks: TransitionEffect = async ({ manager, task, actor }) => {
+  const rows: { id: string; status: TaskStatus }[] = await manager.query(
+    `WITH RECURSIVE descendants AS (
+       SELECT id, status FROM tasks WHERE parent_id = $1 AND deleted_at IS NULL
+       UNION
+       SELECT t.id, t.status FROM tasks t INNER JOIN descendants d ON t.parent_id = d.id
+       WHERE t.deleted_at IS NULL
+     )
+     SELECT id, status FROM descendants WHERE status <> ALL($2)`,
+    [task.id, CLOSED_TASK_STATUSES],
+  );
+  if (rows.length === 0) {
+    return;
+  }
+
+  await manager.update(Task, { id: In(rows.map(row => row.id)) }, { status: TaskStatus.CANCELLED });
+  await manager.insert(
+    TaskEvent,
+    rows.map(row => ({
+      taskId: row.id,
+      type: TaskEventType.UPDATED,
+      source: actor.source,
+      actorId: actor.userId,
+      changes: { status: { from: row.status, to: TaskStatus.CANCELLED } },
+    })),
+  );
+};
+
+export const TASK_TRANSITIONS: TaskTransition[] = [
+  {
+    from: [TaskStatus.IN_PROGRESS, TaskStatus.BLOCKED, TaskStatus.COMPLETED, TaskStatus.CANCELLED],
+    to: TaskStatus.PENDING,
+  },
+  {
+    from: [TaskStatus.PENDING, TaskStatus.BLOCKED, TaskStatus.IN_REVIEW, TaskStatus.COMPLETED],
+    to: TaskStatus.IN_PROGRESS,
+  },
+  {
+    from: [TaskStatus.PENDING, TaskStatus.IN_PROGRESS],
+    to: TaskStatus.BLOCKED,
+  },
+  {
+    from: [TaskStatus.IN_PROGRESS],
+    to: TaskStatus.IN_REVIEW,
+    guards: [onlyAssignee],
+  },
+  {
+    from: [TaskStatus.PENDING, TaskStatus.IN_PROGRESS, TaskStatus.IN_REVIEW],
+    to: TaskStatus.COMPLETED,
+  },
+  {
+    from: OPEN_TASK_STATUSES,
+    to: TaskStatus.CANCELLED,
+    effects: [cancelOpenSubtasks],
+  },
+];
+
+export function findTransition(from: TaskStatus, to: TaskStatus): TaskTransition | undefined {
+  return TASK_TRANSITIONS.find(
+    transition => transition.to === to && transition.from.includes(from),
+  );
+}
+
+// Throws 409 when the table has no such transition or one of its guards refuses it
+export function assertTransition(task: Task, to: TaskStatus, actor: TaskActor): TaskTransition {
+  const transition = findTransition(task.status, to);
+  if (!transition) {
+    throw new ConflictException(`Task ${task.id} cannot move from ${task.status} to ${to}`);
+  }
+
+  for (const guard of transition.guards ?? []) {
+    const reason = guard(task, actor);
+    if (reason) {
+      throw new ConflictException(
+        `Task ${task.id} cannot move from ${task.status} to ${to}: ${reason}`,
+      );
+    }
+  }
+
+  return transition;
+}
+
+export async function runTransitionEffects(
+  transition: TaskTransition,
+  context: TransitionContext,
+): Promise<void> {
+  for (const effect of transition.effects ?? []) {
+    await effect(context);
+  }
+}
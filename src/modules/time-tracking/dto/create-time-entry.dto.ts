@@ -0,0 +1,20 @@
+import { IsDateString, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { TimerNoteDto } from './timer-note.dto';
+
+export class CreateTimeEntryDto extends TimerNoteDto {
+  @ApiProperty({ example: 90, description: 'Time spent, in minutes' })
+  @IsInt()
+  @Min(1)
+  @Max(24 * 60)
+  durationMinutes: number;
+
+  @ApiProperty({
+    example: '2026-10-19T09:00:00.000Z',
+    required: false,
+    description: 'When the work started; defaults to the duration before now',
+  })
+  @IsDateString()
+  @IsOptional()
+  startedAt?: string;
+}
@@ -0,0 +1,10 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TimerNoteDto {
+  @ApiProperty({ example: 'Pairing on the import bug', required: false })
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  note?: string;
+}
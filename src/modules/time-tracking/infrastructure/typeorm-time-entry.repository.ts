@@ -0,0 +1,37 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { TimeEntry } from '../entities/time-entry.entity';
+import { ITimeEntryRepository } from '../interfaces/time-entry-repository.interface';
+
+@Injectable()
+export class TypeOrmTimeEntryRepository implements ITimeEntryRepository {
+  constructor(
+    @InjectRepository(TimeEntry)
+    private readonly repository: Repository<TimeEntry>,
+  ) {}
+
+  create(data: Partial<TimeEntry>): TimeEntry {
+    return this.repository.create(data);
+  }
+
+  save(entry: TimeEntry): Promise<TimeEntry> {
+    return this.repository.save(entry);
+  }
+
+  findOne(options: any): Promise<TimeEntry | null> {
+    return this.repository.findOne(options);
+  }
+
+  find(options?: any): Promise<TimeEntry[]> {
+    return this.repository.find(options);
+  }
+
+  createQueryBuilder(alias: string) {
+    return this.repository.createQueryBuilder(alias);
+  }
+
+  delete(criteria: any): Promise<any> {
+    return this.repository.delete(criteria);
+  }
+}
@@ -0,0 +1,10 @@
+import { TimeEntry } from '../entities/time-entry.entity';
+
+export interface ITimeEntryRepository {
+  create(data: Partial<TimeEntry>): TimeEntry;
+  save(entry: TimeEntry): Promise<TimeEntry>;
+  findOne(options: any): Promise<TimeEntry | null>;
+  find(options?: any): Promise<TimeEntry[]>;
+  createQueryBuilder(alias: string): any;
+  delete(criteria: any): Promise<any>;
+}
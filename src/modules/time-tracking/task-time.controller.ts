@@ -0,0 +1,87 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Delete,
+  UseGuards,
+  HttpStatus,
+  UsePipes,
+  ValidationPipe,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { JwtAuthGuard } from '@modules/auth/guards/jwt-auth.guard';
+import { CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { TimeTrackingService } from './time-tracking.service';
+import { TimerNoteDto } from './dto/timer-note.dto';
+import { CreateTimeEntryDto } from './dto/create-time-entry.dto';
+
+@ApiTags('time-tracking')
+@Controller('tasks/:taskId/time')
+@UseGuards(JwtAuthGuard, RateLimitGuard)
+@RateLimit({ limit: 100, windowMs: 60000 })
+@ApiBearerAuth()
+@UsePipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
+export class TaskTimeController {
+  constructor(private readonly timeTrackingService: TimeTrackingService) {}
+
+  @Get()
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Logged time per user, running timers and recent entries' })
+  getSummary(@Param('taskId', ParseUUIDPipe) taskId: string, @CurrentUser() user: any) {
+    return this.timeTrackingService.getTaskTime(taskId, user);
+  }
+
+  @Post('timer/start')
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Start a timer on a task; only one timer can run per user' })
+  startTimer(
+    @Param('taskId', ParseUUIDPipe) taskId: string,
+    @Body() timerNoteDto: TimerNoteDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.timeTrackingService.startTimer(taskId, timerNoteDto, user);
+  }
+
+  @Post('timer/stop')
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Stop your running timer on a task' })
+  stopTimer(
+    @Param('taskId', ParseUUIDPipe) taskId: string,
+    @Body() timerNoteDto: TimerNoteDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.timeTrackingService.stopTimer(taskId, timerNoteDto, user);
+  }
+
+  @Post('entries')
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Log time spent on a task' })
+  logTime(
+    @Param('taskId', ParseUUIDPipe) taskId: string,
+    @Body() createTimeEntryDto: CreateTimeEntryDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.timeTrackingService.logTime(taskId, createTimeEntryDto, user);
+  }
+
+  @Delete('entries/:entryId')
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Delete a time entry' })
+  async removeEntry(
+    @Param('taskId', ParseUUIDPipe) taskId: string,
+    @Param('entryId', ParseUUIDPipe) entryId: string,
+    @CurrentUser() user: any,
+  ) {
+    await this.timeTrackingService.removeEntry(taskId, entryId, user);
+    return {
+      statusCode: HttpStatus.OK,
+      message: 'Time entry successfully deleted',
+    };
+  }
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { TasksModule } from '../tasks/tasks.module';
+import { TimeTrackingService } from './time-tracking.service';
+import { TaskTimeController } from './task-time.controller';
+import { TimesheetController } from './timesheet.controller';
+import { TimeEntry } from './entities/time-entry.entity';
+import { TypeOrmTimeEntryRepository } from './infrastructure/typeorm-time-entry.repository';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([TimeEntry]), TasksModule],
+  controllers: [TaskTimeController, TimesheetController],
+  providers: [
+    TimeTrackingService,
+    {
+      provide: 'ITimeEntryRepository',
+      useClass: TypeOrmTimeEntryRepository,
+    },
+  ],
+  exports: [TimeTrackingService],
+})
+export class TimeTrackingModule {}
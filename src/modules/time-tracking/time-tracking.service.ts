@@ -0,0 +1,268 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { IsNull, QueryFailedError, UpdateResult } from 'typeorm';
+import { TasksService } from '../tasks/tasks.service';
+import { Task } from '../tasks/entities/task.entity';
+import { Role } from '../auth/enums/role.enum';
+import { canEditTask, canViewTask } from '../tasks/policies/task-access.policy';
+import { TimeEntry } from './entities/time-entry.entity';
+import { TimerNoteDto } from './dto/timer-note.dto';
+import { CreateTimeEntryDto } from './dto/create-time-entry.dto';
+import type { ITimeEntryRepository } from './interfaces/time-entry-repository.interface';
+import { buildTimesheet, resolveTimesheetRange, Timesheet, TimesheetRow } from './utils/timesheet';
+import { retry } from '@common/utils/retry';
+
+const RECENT_ENTRIES_LIMIT = 50;
+
+export interface TaskTimeSummary {
+  taskId: string;
+  totalSeconds: number;
+  users: { userId: string; name: string; totalSeconds: number }[];
+  running: TimeEntry[];
+  recentEntries: TimeEntry[];
+}
+
+@Injectable()
+export class TimeTrackingService {
+  constructor(
+    @Inject('ITimeEntryRepository')
+    private readonly timeEntriesRepository: ITimeEntryRepository,
+    private readonly tasksService: TasksService,
+  ) {}
+
+  async startTimer(taskId: string, dto: TimerNoteDto, user: any): Promise<TimeEntry> {
+    await this.ensureTaskAccess(taskId, user, canEditTask);
+
+    const running = await this.findRunningTimer(user.id);
+    if (running) {
+      throw new ConflictException(
+        `A timer is already running on task ${running.taskId}, stop it before starting another`,
+      );
+    }
+
+    try {
+      const entry = this.timeEntriesRepository.create({
+        taskId,
+        userId: user.id,
+        startedAt: new Date(),
+        note: dto.note ?? null,
+      });
+      return await this.timeEntriesRepository.save(entry);
+    } catch (err) {
+      // Two concurrent starts both pass the check above; the partial unique index stops one
+      if (err instanceof QueryFailedError && (err as any).code === '23505') {
+        throw new ConflictException('A timer is already running, stop it before starting another');
+      }
+      Logger.error(`Failed to start timer on task ${taskId}:`, err);
+      throw err;
+    }
+  }
+
+  async stopTimer(taskId: string, dto: TimerNoteDto, user: any): Promise<TimeEntry> {
+    const entry = await retry(() =>
+      this.timeEntriesRepository.findOne({
+        where: { taskId, userId: user.id, endedAt: IsNull() },
+      }),
+    );
+    if (!entry) {
+      throw new NotFoundException('No running timer on this task');
+    }
+
+    const endedAt = new Date();
+    entry.endedAt = endedAt;
+    entry.durationSeconds = Math.max(
+      0,
+      Math.floor((endedAt.getTime() - entry.startedAt.getTime()) / 1000),
+    );
+    if (dto.note !== undefined) {
+      entry.note = dto.note;
+    }
+
+    try {
+      return await retry(() => this.timeEntriesRepository.save(entry));
+    } catch (err) {
+      Logger.error(`Failed to stop timer ${entry.id}:`, err);
+      throw err;
+    }
+  }
+
+  async logTime(taskId: string, dto: CreateTimeEntryDto, user: any): Promise<TimeEntry> {
+    await this.ensureTaskAccess(taskId, user, canEditTask);
+
+    const now = new Date();
+    const durationSeconds = dto.durationMinutes * 60;
+    const startedAt = dto.startedAt
+      ? new Date(dto.startedAt)
+      : new Date(now.getTime() - durationSeconds * 1000);
+    const endedAt = new Date(startedAt.getTime() + durationSeconds * 1000);
+    if (endedAt > now) {
+      throw new BadRequestException('Time entries cannot end in the future');
+    }
+
+    try {
+      const entry = this.timeEntriesRepository.create({
+        taskId,
+        userId: user.id,
+        startedAt,
+        endedAt,
+        durationSeconds,
+        note: dto.note ?? null,
+      });
+      return await this.timeEntriesRepository.save(entry);
+    } catch (err) {
+      Logger.error(`Failed to log time on task ${taskId}:`, err);
+      throw err;
+    }
+  }
+
+  async removeEntry(taskId: string, entryId: string, user: any): Promise<void> {
+    const entry = await retry(() =>
+      this.timeEntriesRepository.findOne({ where: { id: entryId, taskId } }),
+    );
+    if (!entry) {
+      throw new NotFoundException('Time entry not found');
+    }
+    if (user.role !== Role.Admin && entry.userId !== user.id) {
+      throw new ForbiddenException('Only the owner can delete this time entry');
+    }
+
+    try {
+      await retry(() => this.timeEntriesRepository.delete({ id: entry.id }));
+    } catch (err) {
+      Logger.error(`Failed to delete time entry ${entryId}:`, err);
+      throw err;
+    }
+  }
+
+  async getTaskTime(taskId: string, user: any): Promise<TaskTimeSummary> {
+    await this.ensureTaskAccess(taskId, user, canViewTask);
+
+    try {
+      const totals: { userId: string; name: string; totalSeconds: string }[] = await retry(() =>
+        this.timeEntriesRepository
+          .createQueryBuilder('entry')
+          .innerJoin('entry.user', 'user')
+          .select('entry.userId', 'userId')
+          .addSelect('user.name', 'name')
+          .addSelect('SUM(entry.durationSeconds)', 'totalSeconds')
+          .where('entry.taskId = :taskId', { taskId })
+          .andWhere('entry.endedAt IS NOT NULL')
+          .groupBy('entry.userId')
+          .addGroupBy('user.name')
+          .orderBy('"totalSeconds"', 'DESC')
+          .getRawMany(),
+      );
+      const running = await retry(() =>
+        this.timeEntriesRepository.find({
+          where: { taskId, endedAt: IsNull() },
+          order: { startedAt: 'ASC' },
+        }),
+      );
+      const recentEntries = await retry(() =>
+        this.timeEntriesRepository.find({
+          where: { taskId },
+          order: { startedAt: 'DESC' },
+          take: RECENT_ENTRIES_LIMIT,
+        }),
+      );
+
+      const users = totals.map(row => ({ ...row, totalSeconds: Number(row.totalSeconds) }));
+      return {
+        taskId,
+        totalSeconds: users.reduce((sum, row) => sum + row.totalSeconds, 0),
+        users,
+        running,
+        recentEntries,
+      };
+    } catch (err) {
+      Logger.error(`Error fetching time entries for task ${taskId}:`, err);
+      throw err;
+    }
+  }
+
+  async getTimesheet(user: any, userId?: string, from?: string, to?: string): Promise<Timesheet> {
+    const targetId = userId ?? user.id;
+    if (targetId !== user.id && user.role !== Role.Admin) {
+      throw new ForbiddenException('Only admins can view timesheets of other users');
+    }
+    const range = resolveTimesheetRange(from, to);
+
+    try {
+      // Entries count towards the day they started on
+      const rows = await retry<TimesheetRow[]>(() =>
+        this.timeEntriesRepository
+          .createQueryBuilder('entry')
+          .innerJoin('entry.task', 'task')
+          .select(`to_char(entry.startedAt, 'YYYY-MM-DD')`, 'date')
+          .addSelect('entry.taskId', 'taskId')
+          .addSelect('task.title', 'title')
+          .addSelect('SUM(entry.durationSeconds)', 'seconds')
+          .where('entry.userId = :userId', { userId: targetId })
+          .andWhere('entry.endedAt IS NOT NULL')
+          .andWhere('entry.startedAt BETWEEN :from AND :to', range)
+          .groupBy('date')
+          .addGroupBy('entry.taskId')
+          .addGroupBy('task.title')
+          .orderBy('date', 'ASC')
+          .getRawMany(),
+      );
+      return buildTimesheet(targetId, range, rows);
+    } catch (err) {
+      Logger.error(`Error building timesheet for user ${targetId}:`, err);
+      throw err;
+    }
+  }
+
+  // Forgotten timers are closed at the limit rather than now, so they never log more than it
+  async stopTimersOlderThan(maxSeconds: number, now = new Date()): Promise<number> {
+    const seconds = Math.floor(maxSeconds);
+    const cutoff = new Date(now.getTime() - seconds * 1000);
+
+    try {
+      const result = await retry<UpdateResult>(() =>
+        this.timeEntriesRepository
+          .createQueryBuilder('entry')
+          .update(TimeEntry)
+          .set({
+            endedAt: () => `started_at + make_interval(secs => ${seconds})`,
+            durationSeconds: seconds,
+            autoStopped: true,
+          })
+          .where('ended_at IS NULL')
+          .andWhere('started_at <= :cutoff', { cutoff })
+          .execute(),
+      );
+      return result.affected ?? 0;
+    } catch (err) {
+      Logger.error('Failed to stop expired timers:', err);
+      throw err;
+    }
+  }
+
+  private findRunningTimer(userId: string): Promise<TimeEntry | null> {
+    return retry(() =>
+      this.timeEntriesRepository.findOne({ where: { userId, endedAt: IsNull() } }),
+    );
+  }
+
+  private async ensureTaskAccess(
+    taskId: string,
+    user: any,
+    allowed: (task: Task, user: any) => boolean,
+  ): Promise<Task> {
+    const task = await this.tasksService.findOne(taskId);
+
+    if (!allowed(task, user)) {
+      throw new ForbiddenException('You are not allowed to track time on this task');
+    }
+
+    return task;
+  }
+}
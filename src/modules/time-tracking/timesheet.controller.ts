@@ -0,0 +1,36 @@
+import { Controller, Get, UseGuards, Query, ParseUUIDPipe } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { JwtAuthGuard } from '@modules/auth/guards/jwt-auth.guard';
+import { CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { TimeTrackingService } from './time-tracking.service';
+
+@ApiTags('time-tracking')
+@Controller('timesheet')
+@UseGuards(JwtAuthGuard, RateLimitGuard)
+@RateLimit({ limit: 100, windowMs: 60000 })
+@ApiBearerAuth()
+export class TimesheetController {
+  constructor(private readonly timeTrackingService: TimeTrackingService) {}
+
+  @Get()
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Logged time per day and week' })
+  @ApiQuery({
+    name: 'from',
+    required: false,
+    description: 'First day, e.g. 2026-10-01 or -7d; defaults to the start of this week',
+  })
+  @ApiQuery({ name: 'to', required: false, description: 'Last day, included' })
+  @ApiQuery({ name: 'userId', required: false, description: 'Admins only; defaults to you' })
+  getTimesheet(
+    @CurrentUser() user: any,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('userId', new ParseUUIDPipe({ optional: true })) userId?: string,
+  ) {
+    return this.timeTrackingService.getTimesheet(user, userId, from, to);
+  }
+}
@@ -0,0 +1,111 @@
+import { BadRequestException } from '@nestjs/common';
+import { resolveDateToken, startOfDay } from '../../tasks/utils/date-token';
+
+export interface TimesheetRow {
+  date: string;
+  taskId: string;
+  title: string;
+  seconds: number | string;
+}
+
+export interface TimesheetDay {
+  date: string;
+  totalSeconds: number;
+  tasks: { taskId: string; title: string; seconds: number }[];
+}
+
+export interface TimesheetWeek {
+  // Monday of the ISO week
+  weekStart: string;
+  totalSeconds: number;
+}
+
+export interface Timesheet {
+  userId: string;
+  from: string;
+  to: string;
+  totalSeconds: number;
+  days: TimesheetDay[];
+  weeks: TimesheetWeek[];
+}
+
+export interface TimesheetRange {
+  from: Date;
+  to: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_RANGE_DAYS = 366;
+
+// Accepts the same tokens as the task filters ("today", "-7d", 2026-01-31); `to` includes
+// the whole day it names. Without bounds the current week is used.
+export function resolveTimesheetRange(
+  from: string | undefined,
+  to: string | undefined,
+  now = new Date(),
+): TimesheetRange {
+  const start = from ? resolveDateToken(from, 'start', now) : startOfWeek(now);
+  const end = to
+    ? resolveDateToken(to, 'end', now)
+    : new Date(startOfWeek(from ? start : now).getTime() + 7 * DAY_MS - 1);
+
+  if (end < start) {
+    throw new BadRequestException('Timesheet "to" must not be before "from"');
+  }
+  if (end.getTime() - start.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+    throw new BadRequestException(`Timesheets cover at most ${MAX_RANGE_DAYS} days`);
+  }
+  return { from: start, to: end };
+}
+
+export function startOfWeek(date: Date): Date {
+  const day = startOfDay(date);
+  const daysSinceMonday = (day.getUTCDay() + 6) % 7;
+  return new Date(day.getTime() - daysSinceMonday * DAY_MS);
+}
+
+// Every day and week in the range is listed, including the ones without logged time
+export function buildTimesheet(
+  userId: string,
+  range: TimesheetRange,
+  rows: TimesheetRow[],
+): Timesheet {
+  const days = new Map<string, TimesheetDay>();
+  const weeks = new Map<string, TimesheetWeek>();
+
+  for (let day = startOfDay(range.from); day <= range.to; day = new Date(day.getTime() + DAY_MS)) {
+    const date = toDateString(day);
+    days.set(date, { date, totalSeconds: 0, tasks: [] });
+
+    const weekStart = toDateString(startOfWeek(day));
+    if (!weeks.has(weekStart)) {
+      weeks.set(weekStart, { weekStart, totalSeconds: 0 });
+    }
+  }
+
+  let totalSeconds = 0;
+  for (const row of rows) {
+    const day = days.get(row.date);
+    if (!day) {
+      continue;
+    }
+    const seconds = Number(row.seconds);
+    day.tasks.push({ taskId: row.taskId, title: row.title, seconds });
+    day.totalSeconds += seconds;
+    weeks.get(toDateString(startOfWeek(new Date(row.date))))!.totalSeconds += seconds;
+    totalSeconds += seconds;
+  }
+
+  return {
+    userId,
+    from: toDateString(range.from),
+    to: toDateString(range.to),
+    totalSeconds,
+    days: [...days.values()],
+    weeks: [...weeks.values()],
+  };
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
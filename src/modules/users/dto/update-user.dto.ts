@@ -1,4 +1,17 @@
-import { PartialType } from '@nestjs/swagger';
+import { ApiProperty, PartialType } from '@nestjs/swagger';
+import { ArrayUnique, IsArray, IsIn, IsOptional } from 'class-validator';
 import { CreateUserDto } from './create-user.dto';
+import { REMINDER_OFFSETS } from '../../tasks/utils/due-reminders';
 
-export class UpdateUserDto extends PartialType(CreateUserDto) {} 
\ No newline at end of file
+export class UpdateUserDto extends PartialType(CreateUserDto) {
+  @ApiProperty({
+    example: [1440, 60],
+    required: false,
+    description: `Default minutes before a due date to be reminded at, any of ${REMINDER_OFFSETS.join(', ')}`,
+  })
+  @IsArray()
+  @ArrayUnique()
+  @IsIn(REMINDER_OFFSETS, { each: true })
+  @IsOptional()
+  reminderOffsets?: number[];
+}
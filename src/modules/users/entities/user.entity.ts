@@ -10,6 +10,7 @@ import {
 import { Task } from '../../tasks/entities/task.entity';
 import { Exclude } from 'class-transformer';
 import { Role } from '../../auth/enums/role.enum';
+import { DEFAULT_REMINDER_OFFSETS } from '../../tasks/utils/due-reminders';
 
 @Entity('users')
 export class User {
@@ -39,9 +40,20 @@ export class User {
   })
   role: Role;
 
-  @OneToMany(() => Task, task => task.user)
+  @Column({
+    name: 'reminder_offsets',
+    type: 'integer',
+    array: true,
+    default: () => `'{${DEFAULT_REMINDER_OFFSETS.join(',')}}'`,
+  })
+  reminderOffsets: number[];
+
+  @OneToMany(() => Task, task => task.creator)
   tasks: Task[];
 
+  @OneToMany(() => Task, task => task.assignee)
+  assignedTasks: Task[];
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 
@@ -0,0 +1,5 @@
+export enum UserSortField {
+  CREATED_AT = 'createdAt',
+  NAME = 'name',
+  EMAIL = 'email',
+}
@@ -28,6 +28,9 @@ import { Roles } from '@common/decorators/roles.decorator';
 import { RolesGuard } from '@common/guards/roles.guard';
 import { Throttle } from '@nestjs/throttler';
 import { Role } from '@modules/auth/enums/role.enum';
+import { parseSort } from '@common/utils/cursor-pagination';
+import { MAX_PAGE_SIZE } from '@common/utils/offset-pagination';
+import { UserSortField } from './enums/user-sort-field.enum';
 
 @ApiTags('users')
 @Controller('users')
@@ -53,21 +56,43 @@ export class UsersController {
   @Get()
   @Throttle({ default: { limit: 5, ttl: 10 } })
   @ApiOperation({ summary: 'Find all users' })
-  @ApiQuery({ name: 'cursor', required: false })
   @ApiQuery({
-    name: 'limit',
+    name: 'cursor',
     required: false,
-    description: 'CreatedAt timestamp of the last item from previous page',
+    description: 'nextCursor returned with the previous page',
   })
-  async findAll(@Query('cursor') cursor?: string, @Query('limit') limit?: number) {
+  @ApiQuery({ name: 'limit', required: false })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    description: 'Page number; switches to offset pagination with totals',
+  })
+  @ApiQuery({
+    name: 'sort',
+    required: false,
+    description: `Comma-separated field:direction pairs, e.g. name:asc. Fields: ${Object.values(UserSortField).join(', ')}`,
+  })
+  async findAll(
+    @Query('cursor') cursor?: string,
+    @Query('limit') limit?: number,
+    @Query('sort') sort?: string,
+    @Query('page') page?: string,
+  ) {
     try {
       const pageSize = limit ? parseInt(limit as any, 10) : 10;
       if (isNaN(pageSize) || pageSize <= 0) {
         throw new BadRequestException('Invalid pagination limit');
       }
-      return await this.usersService.findAll(pageSize, cursor);
+      const sortKeys = parseSort(sort, Object.values(UserSortField), [
+        { field: UserSortField.CREATED_AT, direction: 'DESC' },
+      ]);
+      if (page !== undefined) {
+        return await this.usersService.findPage({ page: Number(page), limit: pageSize }, sortKeys);
+      }
+      return await this.usersService.findAll(Math.min(pageSize, MAX_PAGE_SIZE), sortKeys, cursor);
     } catch (error) {
       Logger.error('Failed to retrieve users:', error);
+      if (error instanceof BadRequestException) throw error;
       throw new NotFoundException('Failed to retrieve users');
     }
   }
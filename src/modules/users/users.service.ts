@@ -13,6 +13,10 @@ import { UpdateUserDto } from './dto/update-user.dto';
 import * as bcrypt from 'bcrypt';
 import type { IUserRepository } from './interfaces/user-repository.interface';
 import { retry } from '@common/utils/retry';
+import { SortKey, applySortAndCursor, toCursorPage } from '@common/utils/cursor-pagination';
+import { CursorPage, PaginatedResponse, PaginationOptions } from '../../types/pagination.interface';
+import { resolvePagination, toPaginatedResponse } from '@common/utils/offset-pagination';
+import { UserSortField } from './enums/user-sort-field.enum';
 
 @Injectable()
 export class UsersService {
@@ -74,23 +78,22 @@ export class UsersService {
     }
   }
 
-  async findAll(limit: number, afterCursor?: string): Promise<User[]> {
+  async findAll(
+    limit: number,
+    sort: SortKey<UserSortField>[],
+    afterCursor?: string,
+  ): Promise<CursorPage<User>> {
     const logPrefix = '[UsersService][findAll]';
     try {
       if (!Number.isInteger(limit) || limit <= 0) {
         Logger.warn(`${logPrefix} Invalid limit: ${limit}`);
         throw new HttpException('Limit must be a positive integer', HttpStatus.BAD_REQUEST);
       }
-      const query = this.usersRepository
-        .createQueryBuilder('user')
-        .orderBy('user.createdAt', 'DESC')
-        .limit(limit);
-
-      if (afterCursor) {
-        query.where('user.createdAt < :afterCursor', { afterCursor });
-      }
+      const query = this.usersRepository.createQueryBuilder('user').limit(limit + 1);
+      applySortAndCursor(query, 'user', sort, afterCursor);
       try {
-        return await retry(() => query.getMany());
+        const users: User[] = await retry(() => query.getMany());
+        return toCursorPage(users, limit, sort);
       } catch (retryErr) {
         Logger.error(`${logPrefix} Retry failed:`, retryErr);
         throw new InternalServerErrorException('Could not retrieve user list');
@@ -102,6 +105,27 @@ export class UsersService {
     }
   }
 
+  async findPage(
+    options: PaginationOptions,
+    sort: SortKey<UserSortField>[],
+  ): Promise<PaginatedResponse<User>> {
+    const logPrefix = '[UsersService][findPage]';
+    const { page, limit } = resolvePagination(options);
+    try {
+      const query = this.usersRepository
+        .createQueryBuilder('user')
+        .skip((page - 1) * limit)
+        .take(limit);
+      applySortAndCursor(query, 'user', sort);
+      const [users, total] = await retry<[User[], number]>(() => query.getManyAndCount());
+      return toPaginatedResponse(users, total, page, limit);
+    } catch (error) {
+      Logger.error(`${logPrefix} Failed to retrieve users:`, error);
+      if (error instanceof HttpException) throw error;
+      throw new InternalServerErrorException('Could not retrieve user list');
+    }
+  }
+
   async findOne(id: string): Promise<User> {
     try {
       const user = await retry(() => this.usersRepository.findOne({ where: { id } }));
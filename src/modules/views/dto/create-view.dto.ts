@@ -0,0 +1,41 @@
+import {
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { ViewFilterDto } from './view-filter.dto';
+import { TaskSortField } from '../../tasks/enums/task-sort-field.enum';
+import { SortDirection } from '../../tasks/enums/sort-direction.enum';
+
+export class CreateViewDto {
+  @ApiProperty({ example: 'My urgent work this week' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    type: ViewFilterDto,
+    required: false,
+    example: { priority: 'HIGH', excludeStatuses: ['COMPLETED'], dueFrom: 'today', dueTo: '+7d' },
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ViewFilterDto)
+  filter?: ViewFilterDto;
+
+  @ApiProperty({ enum: TaskSortField, required: false, default: TaskSortField.CREATED_AT })
+  @IsOptional()
+  @IsEnum(TaskSortField)
+  sortBy?: TaskSortField;
+
+  @ApiProperty({ enum: SortDirection, required: false, default: SortDirection.DESC })
+  @IsOptional()
+  @IsEnum(SortDirection)
+  sortDirection?: SortDirection;
+}
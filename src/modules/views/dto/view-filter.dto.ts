@@ -0,0 +1,4 @@
+import { OmitType } from '@nestjs/swagger';
+import { TaskFilterDto } from '../../tasks/dto/task-filter.dto';
+
+export class ViewFilterDto extends OmitType(TaskFilterDto, ['userId'] as const) {}
@@ -0,0 +1,59 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  Unique,
+  UpdateDateColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { TaskFilterDto } from '../../tasks/dto/task-filter.dto';
+import { TaskSortField } from '../../tasks/enums/task-sort-field.enum';
+import { SortDirection } from '../../tasks/enums/sort-direction.enum';
+
+@Entity('saved_views')
+@Unique('UQ_saved_views_user_name', ['userId', 'name'])
+export class SavedView {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ length: 100 })
+  name: string;
+
+  @Index()
+  @Column({ name: 'user_id' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  // Stored as entered, relative date tokens are resolved whenever the view runs
+  @Column({ type: 'jsonb', default: {} })
+  filter: Omit<TaskFilterDto, 'userId'>;
+
+  @Column({
+    name: 'sort_by',
+    type: 'enum',
+    enum: TaskSortField,
+    default: TaskSortField.CREATED_AT,
+  })
+  sortBy: TaskSortField;
+
+  @Column({
+    name: 'sort_direction',
+    type: 'enum',
+    enum: SortDirection,
+    default: SortDirection.DESC,
+  })
+  sortDirection: SortDirection;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
@@ -0,0 +1,37 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { SavedView } from '../entities/saved-view.entity';
+import { IViewRepository } from '../interfaces/view-repository.interface';
+
+@Injectable()
+export class TypeOrmViewRepository implements IViewRepository {
+  constructor(
+    @InjectRepository(SavedView)
+    private readonly repository: Repository<SavedView>,
+  ) {}
+
+  create(data: Partial<SavedView>): SavedView {
+    return this.repository.create(data);
+  }
+
+  save(view: SavedView): Promise<SavedView> {
+    return this.repository.save(view);
+  }
+
+  findOne(options: any): Promise<SavedView | null> {
+    return this.repository.findOne(options);
+  }
+
+  find(options?: any): Promise<SavedView[]> {
+    return this.repository.find(options);
+  }
+
+  merge(view: SavedView, data: Partial<SavedView>): SavedView {
+    return this.repository.merge(view, data);
+  }
+
+  delete(criteria: any): Promise<any> {
+    return this.repository.delete(criteria);
+  }
+}
@@ -0,0 +1,10 @@
+import { SavedView } from '../entities/saved-view.entity';
+
+export interface IViewRepository {
+  create(data: Partial<SavedView>): SavedView;
+  save(view: SavedView): Promise<SavedView>;
+  findOne(options: any): Promise<SavedView | null>;
+  find(options?: any): Promise<SavedView[]>;
+  merge(view: SavedView, data: Partial<SavedView>): SavedView;
+  delete(criteria: any): Promise<any>;
+}
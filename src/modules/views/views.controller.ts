@@ -0,0 +1,114 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+  HttpStatus,
+  UsePipes,
+  ValidationPipe,
+  ParseUUIDPipe,
+  BadRequestException,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { JwtAuthGuard } from '@modules/auth/guards/jwt-auth.guard';
+import { CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { ViewsService } from './views.service';
+import { CreateViewDto } from './dto/create-view.dto';
+import { UpdateViewDto } from './dto/update-view.dto';
+
+@ApiTags('views')
+@Controller('views')
+@UseGuards(JwtAuthGuard, RateLimitGuard)
+@RateLimit({ limit: 100, windowMs: 60000 })
+@ApiBearerAuth()
+@UsePipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
+export class ViewsController {
+  constructor(private readonly viewsService: ViewsService) {}
+
+  @Post()
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Save a task filter and sort order as a view' })
+  create(@Body() createViewDto: CreateViewDto, @CurrentUser() user: any) {
+    return this.viewsService.create(user.id, createViewDto);
+  }
+
+  @Get()
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'List your saved views' })
+  findAll(@CurrentUser() user: any) {
+    return this.viewsService.findAll(user.id);
+  }
+
+  @Get(':id')
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Find a saved view by ID' })
+  findOne(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: any) {
+    return this.viewsService.findOne(user.id, id);
+  }
+
+  @Get(':id/tasks')
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Run a saved view' })
+  @ApiQuery({
+    name: 'cursor',
+    required: false,
+    description: 'nextCursor returned with the previous page',
+  })
+  @ApiQuery({ name: 'limit', required: false })
+  async findTasks(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: any,
+    @Query('cursor') cursor?: string,
+    @Query('limit') limit?: number,
+  ) {
+    const pageSize = limit ? parseInt(limit as any, 10) : 10;
+    if (isNaN(pageSize) || pageSize <= 0) {
+      throw new BadRequestException('Invalid pagination limit');
+    }
+
+    const { data, nextCursor, hasMore } = await this.viewsService.findTasks(
+      user.id,
+      id,
+      cursor,
+      Math.min(pageSize, 100),
+    );
+
+    return {
+      data,
+      count: data.length,
+      limit: pageSize,
+      nextCursor,
+      hasMore,
+    };
+  }
+
+  @Patch(':id')
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Update a saved view' })
+  update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateViewDto: UpdateViewDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.viewsService.update(user.id, id, updateViewDto);
+  }
+
+  @Delete(':id')
+  @Throttle({ default: { limit: 5, ttl: 10 } })
+  @ApiOperation({ summary: 'Delete a saved view' })
+  async remove(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: any) {
+    await this.viewsService.remove(user.id, id);
+    return {
+      statusCode: HttpStatus.OK,
+      message: 'View successfully deleted',
+    };
+  }
+}
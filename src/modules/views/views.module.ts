@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ViewsService } from './views.service';
+import { ViewsController } from './views.controller';
+import { SavedView } from './entities/saved-view.entity';
+import { TypeOrmViewRepository } from './infrastructure/typeorm-view.repository';
+import { TasksModule } from '../tasks/tasks.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([SavedView]), TasksModule],
+  controllers: [ViewsController],
+  providers: [
+    ViewsService,
+    {
+      provide: 'IViewRepository',
+      useClass: TypeOrmViewRepository,
+    },
+  ],
+  exports: [ViewsService],
+})
+export class ViewsModule {}
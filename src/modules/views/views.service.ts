@@ -0,0 +1,124 @@
+import { ConflictException, Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { SavedView } from './entities/saved-view.entity';
+import { CreateViewDto } from './dto/create-view.dto';
+import { UpdateViewDto } from './dto/update-view.dto';
+import { TasksService } from '../tasks/tasks.service';
+import { Task } from '../tasks/entities/task.entity';
+import { parseTaskQuery } from '../tasks/query/task-query.parser';
+import type { IViewRepository } from './interfaces/view-repository.interface';
+import { retry } from '@common/utils/retry';
+import { CursorPage } from '../../types/pagination.interface';
+
+@Injectable()
+export class ViewsService {
+  constructor(
+    @Inject('IViewRepository')
+    private readonly viewsRepository: IViewRepository,
+    private readonly tasksService: TasksService,
+  ) {}
+
+  async create(userId: string, createViewDto: CreateViewDto): Promise<SavedView> {
+    this.validateQuery(createViewDto.filter?.q);
+    await this.ensureNameAvailable(userId, createViewDto.name);
+
+    try {
+      const view = this.viewsRepository.create({
+        ...createViewDto,
+        filter: { ...createViewDto.filter },
+        userId,
+      });
+      return await this.viewsRepository.save(view);
+    } catch (err) {
+      Logger.error(`Failed to create view for user ${userId}:`, err);
+      throw err;
+    }
+  }
+
+  async findAll(userId: string): Promise<SavedView[]> {
+    try {
+      return await retry(() =>
+        this.viewsRepository.find({ where: { userId }, order: { name: 'ASC' } }),
+      );
+    } catch (err) {
+      Logger.error(`Error fetching views for user ${userId}:`, err);
+      return [];
+    }
+  }
+
+  async findOne(userId: string, id: string): Promise<SavedView> {
+    const view = await retry(() => this.viewsRepository.findOne({ where: { id, userId } }));
+    if (!view) {
+      throw new NotFoundException('View not found');
+    }
+    return view;
+  }
+
+  async update(userId: string, id: string, updateViewDto: UpdateViewDto): Promise<SavedView> {
+    const view = await this.findOne(userId, id);
+    this.validateQuery(updateViewDto.filter?.q);
+
+    if (updateViewDto.name && updateViewDto.name !== view.name) {
+      await this.ensureNameAvailable(userId, updateViewDto.name);
+    }
+
+    try {
+      // A new filter replaces the stored one instead of being merged into it
+      const { filter, ...changes } = updateViewDto;
+      this.viewsRepository.merge(view, changes);
+      if (filter) {
+        view.filter = { ...filter };
+      }
+      return await retry(() => this.viewsRepository.save(view));
+    } catch (err) {
+      Logger.error(`Failed to update view ${id}:`, err);
+      throw err;
+    }
+  }
+
+  async remove(userId: string, id: string): Promise<void> {
+    try {
+      const deleteResult = await retry(() => this.viewsRepository.delete({ id, userId }));
+      if (deleteResult.affected === 0) {
+        throw new NotFoundException('View not found for deletion');
+      }
+    } catch (err) {
+      Logger.error(`Failed to delete view ${id}:`, err);
+      throw err;
+    }
+  }
+
+  async findTasks(
+    userId: string,
+    id: string,
+    cursor: string | undefined,
+    pageSize: number,
+  ): Promise<CursorPage<Task>> {
+    const view = await this.findOne(userId, id);
+    // "me" is saved as is and resolved when the view runs, like on GET /tasks
+    const filter =
+      view.filter.assignee === 'me' ? { ...view.filter, assignee: userId } : view.filter;
+
+    return this.tasksService.findAll(
+      userId,
+      filter,
+      [{ field: view.sortBy, direction: view.sortDirection }],
+      cursor,
+      pageSize,
+    );
+  }
+
+  // A saved query is only compiled when the view runs; rejecting a malformed one here keeps
+  // the view from failing on every later use
+  private validateQuery(q: string | undefined): void {
+    if (q) {
+      parseTaskQuery(q);
+    }
+  }
+
+  private async ensureNameAvailable(userId: string, name: string): Promise<void> {
+    const existing = await retry(() => this.viewsRepository.findOne({ where: { userId, name } }));
+    if (existing) {
+      throw new ConflictException(`A view named "${name}" already exists`);
+    }
+  }
+}
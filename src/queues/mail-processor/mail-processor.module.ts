@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bullmq';
+import { MailProcessorService } from './mail-processor.service';
+import { MailModule } from '../../modules/mail/mail.module';
+
+@Module({
+  imports: [
+    BullModule.registerQueue({
+      name: 'mail',
+    }),
+    MailModule,
+  ],
+  providers: [MailProcessorService],
+  exports: [MailProcessorService],
+})
+export class MailProcessorModule {}
@@ -0,0 +1,58 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Processor, WorkerHost } from '@nestjs/bullmq';
+import { Job } from 'bullmq';
+import { MailJob } from '../../modules/mail/interfaces/mail-queue.interface';
+import type { IMailTransport } from '../../modules/mail/interfaces/mail-transport.interface';
+import { renderMail } from '../../modules/mail/templates';
+
+// Sends run on their own queue so a slow or unreachable SMTP server never holds up task jobs
+// or HTTP requests. Failed sends are retried by BullMQ with the backoff set when queueing.
+@Injectable()
+@Processor('mail', { concurrency: 2 })
+export class MailProcessorService extends WorkerHost {
+  private readonly logger = new Logger(MailProcessorService.name);
+  private readonly from: string;
+  private readonly appUrl: string;
+
+  constructor(
+    @Inject('IMailTransport')
+    private readonly transport: IMailTransport,
+    configService: ConfigService,
+  ) {
+    super();
+    this.from = configService.get<string>('MAIL_FROM') ?? 'TaskFlow <no-reply@taskflow.local>';
+    this.appUrl = (configService.get<string>('APP_URL') ?? 'http://localhost:3000').replace(
+      /\/+$/,
+      '',
+    );
+  }
+
+  async process(job: Job<MailJob>): Promise<any> {
+    this.logger.debug(`Processing mail job ${job.id} (${job.data.template})`);
+
+    if (!job.data.to) {
+      return { success: false, error: 'Missing recipient' };
+    }
+
+    let mail;
+    try {
+      mail = renderMail(job.data, { appUrl: this.appUrl });
+    } catch (error) {
+      // Rendering again will not help, so the job is not retried
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    try {
+      await this.transport.send({ from: this.from, to: job.data.to, ...mail });
+      return { success: true, template: job.data.template };
+    } catch (error) {
+      this.logger.error(
+        `Failed to send ${job.data.template} mail (attempt ${job.attemptsMade + 1}): ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+      throw error;
+    }
+  }
+}
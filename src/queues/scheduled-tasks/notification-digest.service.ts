@@ -0,0 +1,28 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { NotificationsService } from '../../modules/notifications/notifications.service';
+
+@Injectable()
+export class NotificationDigestService {
+  private readonly logger = new Logger(NotificationDigestService.name);
+
+  constructor(private readonly notificationsService: NotificationsService) {}
+
+  // Mails everyone a summary of what they left unread over the last day
+  @Cron(CronExpression.EVERY_DAY_AT_7AM)
+  async sendDailyDigests() {
+    const now = new Date();
+    const since = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+
+    try {
+      const count = await this.notificationsService.sendDigests(since, now);
+      this.logger.debug(`Enqueued ${count} notification digest(s)`);
+    } catch (error) {
+      if (error instanceof Error) {
+        this.logger.error(`Failed to enqueue notification digests: ${error.message}`);
+      } else {
+        this.logger.error(`Failed to enqueue notification digests: ${JSON.stringify(error)}`);
+      }
+    }
+  }
+}
@@ -5,7 +5,7 @@ import { Queue } from 'bullmq';
 import { InjectRepository } from '@nestjs/typeorm';
 import { LessThan, Repository } from 'typeorm';
 import { Task } from '../../modules/tasks/entities/task.entity';
-import { TaskStatus } from '../../modules/tasks/enums/task-status.enum';
+import { OPEN_TASK_STATUSES } from '../../modules/tasks/workflow/task-workflow';
 
 @Injectable()
 export class OverdueTasksService {
@@ -25,30 +25,58 @@ export class OverdueTasksService {
     const now = new Date();
     const batchSize = 100;
 
-    const overdueTasks = await this.tasksRepository
-      .createQueryBuilder('task')
-      .where('task.dueDate < :now', { now })
-      .andWhere('task.status IN (:...statuses)', {
-        statuses: [TaskStatus.PENDING, TaskStatus.IN_PROGRESS],
-      })
-      .limit(batchSize)
-      .getMany();
+    // Every overdue task gets a job each hour; the escalation policy decides what, if anything,
+    // is left to do for it
+    let found = 0;
+    let lastId: string | null = null;
+    for (;;) {
+      const query = this.tasksRepository
+        .createQueryBuilder('task')
+        .where('task.dueDate < :now', { now })
+        .andWhere('task.status IN (:...statuses)', {
+          statuses: OPEN_TASK_STATUSES,
+        })
+        .orderBy('task.id', 'ASC')
+        .limit(batchSize);
+      if (lastId) {
+        query.andWhere('task.id > :lastId', { lastId });
+      }
+      const overdueTasks = await query.getMany();
+      if (overdueTasks.length === 0) {
+        break;
+      }
+
+      found += overdueTasks.length;
+      lastId = overdueTasks[overdueTasks.length - 1].id;
+      this.logger.debug(`Overdue Task IDs: ${overdueTasks.map(t => t.id).join(', ')}`);
+      await this.enqueueEscalations(overdueTasks);
+    }
 
-    if (overdueTasks.length === 0) {
+    if (found === 0) {
       this.logger.debug('No overdue tasks found.');
-      return;
+    } else {
+      this.logger.log(`Found ${found} overdue tasks`);
     }
 
-    this.logger.log(`Found ${overdueTasks.length} overdue tasks`);
-    this.logger.debug(`Overdue Task IDs: ${overdueTasks.map(t => t.id).join(', ')}`);
+    this.logger.debug('Overdue tasks check completed');
+  }
 
-    for (const task of overdueTasks) {
+  private async enqueueEscalations(tasks: Task[]) {
+    for (const task of tasks) {
       try {
+        // Completed jobs are removed so the id is free again for the next check
         await this.taskQueue.add(
           'process-overdue-task',
           { taskId: task.id },
           {
             jobId: `overdue:${task.id}`,
+            attempts: 5,
+            backoff: {
+              type: 'exponential',
+              delay: 10000,
+            },
+            removeOnComplete: true,
+            removeOnFail: 100,
           },
         );
       } catch (error) {
@@ -59,7 +87,5 @@ export class OverdueTasksService {
         }
       }
     }
-
-    this.logger.debug('Overdue tasks check completed');
   }
 }
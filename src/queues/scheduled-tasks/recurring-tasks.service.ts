@@ -0,0 +1,61 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { TaskSeries } from '../../modules/tasks/entities/task-series.entity';
+import { TaskSeriesService } from '../../modules/tasks/task-series.service';
+
+@Injectable()
+export class RecurringTasksService {
+  private readonly logger = new Logger(RecurringTasksService.name);
+
+  constructor(
+    @InjectRepository(TaskSeries)
+    private seriesRepository: Repository<TaskSeries>,
+    private readonly seriesService: TaskSeriesService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async generateDueOccurrences() {
+    this.logger.debug('Checking for recurring tasks to generate...');
+
+    const lookaheadHours = Number(this.configService.get('RECURRENCE_LOOKAHEAD_HOURS') ?? 24);
+    const horizon = new Date(Date.now() + lookaheadHours * 60 * 60 * 1000);
+    const batchSize = 100;
+
+    const dueSeries = await this.seriesRepository
+      .createQueryBuilder('series')
+      .where('series.active = true')
+      .andWhere('series.nextOccurrenceAt <= :horizon', { horizon })
+      .orderBy('series.nextOccurrenceAt', 'ASC')
+      .limit(batchSize)
+      .getMany();
+
+    if (dueSeries.length === 0) {
+      this.logger.debug('No recurring tasks due.');
+      return;
+    }
+
+    this.logger.log(`Generating occurrences for ${dueSeries.length} recurring series`);
+
+    for (const series of dueSeries) {
+      try {
+        await this.seriesService.generateNext(series.id);
+      } catch (error) {
+        if (error instanceof Error) {
+          this.logger.error(
+            `Failed to generate occurrence for series ${series.id}: ${error.message}`,
+          );
+        } else {
+          this.logger.error(
+            `Failed to generate occurrence for series ${series.id}: ${JSON.stringify(error)}`,
+          );
+        }
+      }
+    }
+
+    this.logger.debug('Recurring tasks generation completed');
+  }
+}
@@ -2,9 +2,16 @@ import { Module } from '@nestjs/common';
 import { ScheduleModule } from '@nestjs/schedule';
 import { BullModule } from '@nestjs/bullmq';
 import { OverdueTasksService } from './overdue-tasks.service';
+import { RecurringTasksService } from './recurring-tasks.service';
+import { TrashPurgeService } from './trash-purge.service';
+import { TimerAutoStopService } from './timer-auto-stop.service';
+import { NotificationDigestService } from './notification-digest.service';
 import { TasksModule } from '../../modules/tasks/tasks.module';
+import { TimeTrackingModule } from '../../modules/time-tracking/time-tracking.module';
+import { NotificationsModule } from '../../modules/notifications/notifications.module';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { Task } from '../../modules/tasks/entities/task.entity';
+import { TaskSeries } from '../../modules/tasks/entities/task-series.entity';
 
 @Module({
   imports: [
@@ -13,9 +20,23 @@ import { Task } from '../../modules/tasks/entities/task.entity';
       name: 'task-processing',
     }),
     TasksModule,
-    TypeOrmModule.forFeature([Task]),
+    TimeTrackingModule,
+    NotificationsModule,
+    TypeOrmModule.forFeature([Task, TaskSeries]),
+  ],
+  providers: [
+    OverdueTasksService,
+    RecurringTasksService,
+    TrashPurgeService,
+    TimerAutoStopService,
+    NotificationDigestService,
+  ],
+  exports: [
+    OverdueTasksService,
+    RecurringTasksService,
+    TrashPurgeService,
+    TimerAutoStopService,
+    NotificationDigestService,
   ],
-  providers: [OverdueTasksService],
-  exports: [OverdueTasksService],
 })
 export class ScheduledTasksModule { }
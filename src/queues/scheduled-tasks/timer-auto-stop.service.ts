@@ -0,0 +1,36 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { ConfigService } from '@nestjs/config';
+import { TimeTrackingService } from '../../modules/time-tracking/time-tracking.service';
+
+@Injectable()
+export class TimerAutoStopService {
+  private readonly logger = new Logger(TimerAutoStopService.name);
+
+  constructor(
+    private readonly timeTrackingService: TimeTrackingService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async stopExpiredTimers() {
+    const maxHours = Number(this.configService.get('TIMER_MAX_HOURS') ?? 12);
+    if (!Number.isFinite(maxHours) || maxHours <= 0) {
+      this.logger.warn(`Invalid TIMER_MAX_HOURS, skipping timer auto-stop`);
+      return;
+    }
+
+    try {
+      const stopped = await this.timeTrackingService.stopTimersOlderThan(maxHours * 60 * 60);
+      if (stopped > 0) {
+        this.logger.log(`Auto-stopped ${stopped} timer(s) running longer than ${maxHours}h`);
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        this.logger.error(`Failed to auto-stop timers: ${error.message}`);
+      } else {
+        this.logger.error(`Failed to auto-stop timers: ${JSON.stringify(error)}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { ConfigService } from '@nestjs/config';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+
+@Injectable()
+export class TrashPurgeService {
+  private readonly logger = new Logger(TrashPurgeService.name);
+
+  constructor(
+    @InjectQueue('task-processing')
+    private taskQueue: Queue,
+    private readonly configService: ConfigService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async purgeExpiredTrash() {
+    const retentionDays = Number(this.configService.get('TRASH_RETENTION_DAYS') ?? 30);
+    if (!Number.isFinite(retentionDays) || retentionDays < 0) {
+      this.logger.warn(`Invalid TRASH_RETENTION_DAYS, skipping trash purge`);
+      return;
+    }
+
+    const now = new Date();
+    const before = new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000);
+
+    try {
+      await this.taskQueue.add(
+        'trash-purge',
+        { before: before.toISOString() },
+        {
+          jobId: `trash-purge:${now.toISOString().slice(0, 10)}`,
+          attempts: 5,
+          backoff: {
+            type: 'exponential',
+            delay: 10000,
+          },
+          removeOnComplete: true,
+          removeOnFail: 100,
+        },
+      );
+      this.logger.debug(`Enqueued purge of tasks trashed before ${before.toISOString()}`);
+    } catch (error) {
+      if (error instanceof Error) {
+        this.logger.error(`Failed to enqueue trash purge: ${error.message}`);
+      } else {
+        this.logger.error(`Failed to enqueue trash purge: ${JSON.stringify(error)}`);
+      }
+    }
+  }
+}
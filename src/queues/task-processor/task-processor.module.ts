@@ -2,6 +2,7 @@ import { Module } from '@nestjs/common';
 import { BullModule } from '@nestjs/bullmq';
 import { TaskProcessorService } from './task-processor.service';
 import { TasksModule } from '../../modules/tasks/tasks.module';
+import { AttachmentsModule } from '../../modules/attachments/attachments.module';
 
 @Module({
   imports: [
@@ -9,6 +10,7 @@ import { TasksModule } from '../../modules/tasks/tasks.module';
       name: 'task-processing',
     }),
     TasksModule,
+    AttachmentsModule,
   ],
   providers: [TaskProcessorService],
   exports: [TaskProcessorService],
@@ -1,8 +1,14 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { ConflictException, Injectable, Logger } from '@nestjs/common';
 import { Processor, WorkerHost } from '@nestjs/bullmq';
 import { Job } from 'bullmq';
 import { TasksService } from '../../modules/tasks/tasks.service';
+import { TaskDependenciesService } from '../../modules/tasks/task-dependencies.service';
+import { TaskSeriesService } from '../../modules/tasks/task-series.service';
+import { TaskEscalationService } from '../../modules/tasks/task-escalation.service';
+import { AttachmentsService } from '../../modules/attachments/attachments.service';
 import { TaskStatus } from '@modules/tasks/enums/task-status.enum';
+import { CLOSED_TASK_STATUSES } from '@modules/tasks/workflow/task-workflow';
+import { TaskEventSource } from '@modules/tasks/enums/task-event-source.enum';
 import { retry } from '@common/utils/retry';
 import { DataSource } from 'typeorm';
 
@@ -13,6 +19,10 @@ export class TaskProcessorService extends WorkerHost {
 
   constructor(
     private readonly tasksService: TasksService,
+    private readonly dependenciesService: TaskDependenciesService,
+    private readonly seriesService: TaskSeriesService,
+    private readonly escalationService: TaskEscalationService,
+    private readonly attachmentsService: AttachmentsService,
     private readonly dataSource: DataSource,
   ) {
     super();
@@ -34,6 +44,18 @@ export class TaskProcessorService extends WorkerHost {
             return await this.handleStatusUpdate(job);
           case 'overdue-tasks-notification':
             return await this.handleOverdueTasks(job);
+          case 'process-overdue-task':
+            return await this.handleOverdueTask(job);
+          case 'task-dependency-refresh':
+            return await this.handleDependencyRefresh(job);
+          case 'attachment-cleanup':
+            return await this.handleAttachmentCleanup(job);
+          case 'trash-purge':
+            return await this.handleTrashPurge(job);
+          case 'rank-rebalance':
+            return await this.handleRankRebalance(job);
+          case 'task-due-reminder':
+            return await this.handleDueReminder(job);
           default:
             this.logger.warn(`Unknown job type: ${job.name}`);
             return { success: false, error: 'Unknown job type' };
@@ -49,7 +71,7 @@ export class TaskProcessorService extends WorkerHost {
   }
 
   private async handleStatusUpdate(job: Job) {
-    const { taskId, status } = job.data;
+    const { taskId, status, actorId } = job.data;
 
     // Validate input and status value
     if (!taskId || !status || typeof status !== 'string') {
@@ -65,27 +87,139 @@ export class TaskProcessorService extends WorkerHost {
       const task = await retry(
         async () => {
           return await this.dataSource.transaction(async () => {
-            return await this.tasksService.applyStatusUpdateFromQueue(taskId, status);
+            return await this.tasksService.applyStatusUpdateFromQueue(taskId, status, actorId);
           });
         },
         {
           attempts: 3,
           delayMs: 500,
           factor: 2,
+          shouldRetry: error => !(error instanceof ConflictException),
         },
       );
 
+      if (CLOSED_TASK_STATUSES.includes(task.status) && task.seriesId) {
+        const nextOccurrence = await this.seriesService.handleOccurrenceCompleted(task);
+        if (nextOccurrence) {
+          this.logger.debug(`Generated next occurrence ${nextOccurrence.id} for task ${task.id}`);
+        }
+      }
+
       return {
         success: true,
         taskId: task.id,
         newStatus: task.status,
       };
     } catch (err) {
+      // Illegal transitions will not become legal on retry
+      if (err instanceof ConflictException) {
+        this.logger.warn(`Rejected status update for task ${taskId}: ${err.message}`);
+        return { success: false, error: err.message };
+      }
       this.logger.error(`Failed to update status for task ${taskId}`, err);
       throw err;
     }
   }
 
+  private async handleDependencyRefresh(job: Job) {
+    const { blockerId } = job.data;
+
+    if (!blockerId || typeof blockerId !== 'string') {
+      return { success: false, error: 'Missing or invalid blocker id' };
+    }
+
+    try {
+      const refreshedIds = await this.dependenciesService.refreshDependentsOf(blockerId);
+      return { success: true, blockerId, refreshed: refreshedIds.length };
+    } catch (err) {
+      this.logger.error(`Failed to refresh dependents of task ${blockerId}`, err);
+      throw err;
+    }
+  }
+
+  private async handleAttachmentCleanup(job: Job) {
+    const { storageKeys } = job.data;
+
+    if (!Array.isArray(storageKeys)) {
+      return { success: false, error: 'Missing or invalid storage keys' };
+    }
+
+    try {
+      await this.attachmentsService.deleteBlobs(storageKeys);
+      return { success: true, deleted: storageKeys.length };
+    } catch (err) {
+      this.logger.error(`Failed to delete ${storageKeys.length} attachment blob(s)`, err);
+      throw err;
+    }
+  }
+
+  private async handleTrashPurge(job: Job) {
+    const cutoff = new Date(job.data.before);
+
+    if (isNaN(cutoff.getTime())) {
+      return { success: false, error: 'Missing or invalid purge cutoff' };
+    }
+
+    try {
+      const purged = await this.tasksService.purgeTrashedBefore(cutoff, {
+        userId: null,
+        source: TaskEventSource.QUEUE,
+      });
+      return { success: true, purged };
+    } catch (err) {
+      this.logger.error(`Failed to purge tasks trashed before ${cutoff.toISOString()}`, err);
+      throw err;
+    }
+  }
+
+  private async handleRankRebalance(job: Job) {
+    const { status } = job.data;
+
+    if (!Object.values(TaskStatus).includes(status)) {
+      return { success: false, error: 'Missing or invalid status' };
+    }
+
+    try {
+      const rebalanced = await this.tasksService.rebalanceRanks(status);
+      return { success: true, status, rebalanced };
+    } catch (err) {
+      this.logger.error(`Failed to rebalance ranks of ${status} tasks`, err);
+      throw err;
+    }
+  }
+
+  private async handleDueReminder(job: Job) {
+    const { taskId, dueDate, offsetMinutes } = job.data;
+
+    if (!taskId || !dueDate || typeof offsetMinutes !== 'number') {
+      return { success: false, error: 'Missing taskId, dueDate or offsetMinutes' };
+    }
+
+    try {
+      const sent = await this.tasksService.sendDueReminder(taskId, dueDate, offsetMinutes);
+      return { success: true, taskId, offsetMinutes, sent };
+    } catch (err) {
+      this.logger.error(`Failed to send due reminder for task ${taskId}`, err);
+      throw err;
+    }
+  }
+
+  private async handleOverdueTask(job: Job) {
+    const { taskId } = job.data;
+
+    if (!taskId) {
+      return { success: false, error: 'Missing taskId' };
+    }
+
+    try {
+      const escalated = await this.escalationService.escalate(taskId);
+      return { success: true, taskId, escalated };
+    } catch (err) {
+      this.logger.error(`Failed to escalate overdue task ${taskId}`, err);
+      throw err;
+    }
+  }
+
   private async handleOverdueTasks(job: Job) {
     try {
       const allOverdueTasks = await this.tasksService.getOverdueTasks();
@@ -13,4 +13,10 @@ export interface PaginatedResponse<T> {
     limit: number;
     totalPages: number;
   };
-} 
\ No newline at end of file
+} 
+
+export interface CursorPage<T> {
+  data: T[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
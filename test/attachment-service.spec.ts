@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, jest } from 'bun:test';
+import {
+  ForbiddenException,
+  PayloadTooLargeException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AttachmentsService } from '../src/modules/attachments/attachments.service';
+import { LocalStorageDriver } from '../src/modules/attachments/infrastructure/local-storage.driver';
+import { Role } from '@modules/auth/enums/role.enum';
+
+const mockAttachmentRepo = {
+  create: jest.fn((data: any) => ({ ...data })),
+  save: jest.fn(async (attachment: any) => ({ id: 'attachment-1', ...attachment })),
+  find: jest.fn(),
+  findOne: jest.fn(),
+  delete: jest.fn(),
+};
+
+const mockStorage = {
+  put: jest.fn(async () => undefined),
+  get: jest.fn(),
+  delete: jest.fn(async () => undefined),
+};
+
+const mockTasksService = {
+  findOne: jest.fn(),
+};
+
+const config = {
+  get: jest.fn(
+    (key: string) =>
+      ({ ATTACHMENT_MAX_BYTES: '1024', ATTACHMENT_ALLOWED_TYPES: 'text/plain,image/png' })[key],
+  ),
+};
+
+const owner = { id: 'user-1', role: Role.User };
+const stranger = { id: 'user-2', role: Role.User };
+const task = { id: 'task-1', createdBy: owner.id, assigneeId: null };
+
+const file = (overrides: Record<string, any> = {}): any => ({
+  originalname: 'notes.txt',
+  mimetype: 'text/plain',
+  size: 5,
+  buffer: Buffer.from('hello'),
+  ...overrides,
+});
+
+let service: AttachmentsService;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockTasksService.findOne.mockResolvedValue(task);
+  service = new AttachmentsService(
+    mockAttachmentRepo as any,
+    mockStorage as any,
+    mockTasksService as any,
+    config as any,
+  );
+});
+
+describe('AttachmentsService', () => {
+  it('should store the blob and record the attachment', async () => {
+    const attachment = await service.upload(task.id, file(), owner);
+
+    expect(mockStorage.put).toHaveBeenCalledWith(
+      attachment.storageKey,
+      expect.any(Buffer),
+      'text/plain',
+    );
+    expect(attachment.storageKey.startsWith(`${task.id}/`)).toBe(true);
+    expect(attachment.uploadedById).toBe(owner.id);
+  });
+
+  it('should enforce the size limit and content-type allowlist', async () => {
+    await expect(service.upload(task.id, file({ size: 2048 }), owner)).rejects.toThrow(
+      PayloadTooLargeException,
+    );
+    await expect(
+      service.upload(task.id, file({ mimetype: 'application/x-msdownload' }), owner),
+    ).rejects.toThrow(UnsupportedMediaTypeException);
+    expect(mockStorage.put).not.toHaveBeenCalled();
+  });
+
+  it('should reject uploads from users who cannot edit the task', async () => {
+    await expect(service.upload(task.id, file(), stranger)).rejects.toThrow(ForbiddenException);
+  });
+
+  it('should remove the blob when an attachment is deleted', async () => {
+    mockAttachmentRepo.findOne.mockResolvedValue({
+      id: 'attachment-1',
+      taskId: task.id,
+      storageKey: 'task-1/blob',
+    });
+    await service.remove(task.id, 'attachment-1', owner);
+    expect(mockAttachmentRepo.delete).toHaveBeenCalledWith({ id: 'attachment-1' });
+    expect(mockStorage.delete).toHaveBeenCalledWith('task-1/blob');
+  });
+});
+
+describe('LocalStorageDriver', () => {
+  it('should write, read and delete blobs under its root', async () => {
+    const root = await mkdtemp(join(tmpdir(), 'attachments-'));
+    const driver = new LocalStorageDriver(root);
+
+    try {
+      await driver.put('task-1/blob', Buffer.from('hello'));
+      const chunks: Buffer[] = [];
+      for await (const chunk of await driver.get('task-1/blob')) {
+        chunks.push(chunk as Buffer);
+      }
+      expect(Buffer.concat(chunks).toString()).toBe('hello');
+
+      await driver.delete('task-1/blob');
+      await expect(driver.get('task-1/blob')).rejects.toThrow();
+      await expect(driver.put('../escape', Buffer.from('x'))).rejects.toThrow();
+    } finally {
+      await rm(root, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'bun:test';
+import { BadRequestException } from '@nestjs/common';
+import { TaskStatus } from '../src/modules/tasks/enums/task-status.enum';
+import { TaskEventType } from '../src/modules/tasks/enums/task-event-type.enum';
+import {
+  BurndownEvent,
+  BurndownTask,
+  computeBurndown,
+  resolveBurndownRange,
+} from '../src/modules/tasks/utils/burndown';
+
+const now = new Date('2026-10-19T12:00:00.000Z');
+
+const task = (id: string, overrides: Partial<BurndownTask>): BurndownTask => ({
+  id,
+  status: TaskStatus.PENDING,
+  storyPoints: null,
+  projectId: 'project-1',
+  createdAt: new Date('2026-09-01T00:00:00.000Z'),
+  deletedAt: null,
+  ...overrides,
+});
+
+const event = (
+  taskId: string,
+  createdAt: string,
+  changes: BurndownEvent['changes'],
+  type = TaskEventType.UPDATED,
+): BurndownEvent => ({ taskId, type, changes, createdAt: new Date(createdAt) });
+
+describe('computeBurndown', () => {
+  it('should replay the history into daily points', () => {
+    const range = resolveBurndownRange('2026-10-01', '2026-10-03', now);
+    const tasks = [
+      task('a', { status: TaskStatus.COMPLETED, storyPoints: 5 }),
+      task('b', { storyPoints: 3, createdAt: new Date('2026-10-02T09:00:00.000Z') }),
+      task('c', { storyPoints: 8, projectId: 'project-2' }),
+    ];
+    const events = [
+      event('a', '2026-10-02T10:00:00.000Z', {
+        status: { from: TaskStatus.IN_PROGRESS, to: TaskStatus.COMPLETED },
+      }),
+      event(
+        'b',
+        '2026-10-02T09:00:00.000Z',
+        { storyPoints: { from: null, to: 2 } },
+        TaskEventType.CREATED,
+      ),
+      event('b', '2026-10-03T12:00:00.000Z', { storyPoints: { from: 2, to: 3 } }),
+      event('c', '2026-10-03T08:00:00.000Z', {
+        projectId: { from: 'project-1', to: 'project-2' },
+      }),
+    ];
+
+    const burndown = computeBurndown(range, tasks, events, 'project-1');
+
+    expect(burndown.initialRemainingPoints).toBe(13);
+    expect(burndown.days).toEqual([
+      {
+        date: '2026-10-01',
+        remainingPoints: 13,
+        completedPoints: 0,
+        scopeAddedPoints: 0,
+        scopeRemovedPoints: 0,
+        scopePoints: 13,
+      },
+      {
+        date: '2026-10-02',
+        remainingPoints: 10,
+        completedPoints: 5,
+        scopeAddedPoints: 2,
+        scopeRemovedPoints: 0,
+        scopePoints: 15,
+      },
+      {
+        date: '2026-10-03',
+        remainingPoints: 3,
+        completedPoints: 0,
+        scopeAddedPoints: 1,
+        scopeRemovedPoints: 8,
+        scopePoints: 8,
+      },
+    ]);
+  });
+
+  it('should leave deleted tasks out of the scope', () => {
+    const range = resolveBurndownRange('2026-10-01', '2026-10-02', now);
+    const tasks = [task('a', { storyPoints: 5, deletedAt: new Date('2026-10-02T10:00:00.000Z') })];
+    const events = [event('a', '2026-10-02T10:00:00.000Z', {}, TaskEventType.DELETED)];
+
+    const burndown = computeBurndown(range, tasks, events);
+
+    expect(burndown.days.map(day => day.remainingPoints)).toEqual([5, 0]);
+    expect(burndown.days[1].scopeRemovedPoints).toBe(5);
+  });
+});
+
+describe('resolveBurndownRange', () => {
+  it('should require both bounds in order', () => {
+    expect(() => resolveBurndownRange('2026-10-01', '', now)).toThrow(BadRequestException);
+    expect(() => resolveBurndownRange('2026-10-02', '2026-10-01', now)).toThrow(
+      BadRequestException,
+    );
+  });
+});
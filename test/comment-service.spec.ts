@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, jest } from 'bun:test';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { CommentsService } from '../src/modules/comments/comments.service';
+import { Role } from '@modules/auth/enums/role.enum';
+
+const mockCommentRepo = {
+  create: jest.fn((data: any) => ({ ...data })),
+  save: jest.fn(async (comment: any) => ({ id: 'comment-1', ...comment })),
+  findOne: jest.fn(),
+  delete: jest.fn(),
+  createQueryBuilder: jest.fn(),
+  manager: {
+    createQueryBuilder: jest.fn(),
+  },
+};
+
+const mockTasksService = {
+  findOne: jest.fn(),
+};
+
+const mockNotificationsService = {
+  notify: jest.fn(),
+};
+
+const owner = { id: 'user-1', role: Role.User };
+const stranger = { id: 'user-2', role: Role.User };
+const task = { id: 'task-1', createdBy: owner.id, assigneeId: null };
+
+let service: CommentsService;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockTasksService.findOne.mockResolvedValue(task);
+  service = new CommentsService(
+    mockCommentRepo as any,
+    mockTasksService as any,
+    mockNotificationsService as any,
+  );
+});
+
+describe('CommentsService', () => {
+  it('should create a top-level comment for the task owner', async () => {
+    const comment = await service.create(task.id, { body: 'Hello' }, owner);
+    expect(comment.authorId).toBe(owner.id);
+    expect(comment.parentId).toBeNull();
+  });
+
+  it('should notify mentioned users who can see the task', async () => {
+    const assignee = { id: 'user-3', email: 'sam@example.com', role: Role.User };
+    mockTasksService.findOne.mockResolvedValue({ ...task, assigneeId: assignee.id });
+    mockCommentRepo.manager.createQueryBuilder.mockReturnValue({
+      where: jest.fn().mockReturnThis(),
+      getMany: jest.fn().mockResolvedValue([assignee, { ...stranger, email: 'kim@example.com' }]),
+    });
+
+    await service.create(task.id, { body: 'Ping @Sam@example.com and @kim@example.com' }, owner);
+
+    expect(mockNotificationsService.notify).toHaveBeenCalledWith([
+      expect.objectContaining({
+        userId: assignee.id,
+        actorId: owner.id,
+        dedupeKey: 'mention:comment-1',
+      }),
+    ]);
+  });
+
+  it('should reject comments from users without access to the task', async () => {
+    await expect(service.create(task.id, { body: 'Hello' }, stranger)).rejects.toThrow(
+      ForbiddenException,
+    );
+  });
+
+  it('should reject replies to a comment on another task', async () => {
+    mockCommentRepo.findOne.mockResolvedValue(null);
+    await expect(
+      service.create(task.id, { body: 'Reply', parentId: 'other-comment' }, owner),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('should mark a comment as edited when the body changes', async () => {
+    mockCommentRepo.findOne.mockResolvedValue({
+      id: 'comment-1',
+      taskId: task.id,
+      authorId: owner.id,
+      body: 'Old',
+      isEdited: false,
+      editedAt: null,
+    });
+    const updated = await service.update(task.id, 'comment-1', { body: 'New' }, owner);
+    expect(updated.isEdited).toBe(true);
+    expect(updated.editedAt).toBeInstanceOf(Date);
+  });
+
+  it('should not allow admins to edit comments they did not write', async () => {
+    mockCommentRepo.findOne.mockResolvedValue({
+      id: 'comment-1',
+      taskId: task.id,
+      authorId: owner.id,
+      body: 'Old',
+    });
+    await expect(
+      service.update(task.id, 'comment-1', { body: 'New' }, { id: 'admin', role: Role.Admin }),
+    ).rejects.toThrow(ForbiddenException);
+  });
+});
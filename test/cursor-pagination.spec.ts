@@ -0,0 +1,135 @@
+import { describe, it, expect, jest } from 'bun:test';
+import { BadRequestException } from '@nestjs/common';
+import { applySortAndCursor, parseSort, toCursorPage } from '../src/common/utils/cursor-pagination';
+import { parseTaskSort, resolveCustomFieldSort } from '../src/modules/tasks/utils/task-sort';
+import { CustomFieldType } from '../src/modules/custom-fields/enums/custom-field-type.enum';
+
+const fields = ['createdAt', 'dueDate', 'priority'] as const;
+const fallback = [{ field: 'createdAt' as const, direction: 'DESC' as const }];
+
+function recordingQuery() {
+  const calls: { orderBy: unknown[][]; where: unknown[][] } = { orderBy: [], where: [] };
+  const query = {
+    orderBy: (...args: unknown[]) => calls.orderBy.push(args),
+    addOrderBy: (...args: unknown[]) => calls.orderBy.push(args),
+    andWhere: (...args: unknown[]) => calls.where.push(args),
+  };
+  return { query, calls };
+}
+
+describe('parseSort', () => {
+  it('should parse field:direction pairs and fall back when empty', () => {
+    expect(parseSort('dueDate:asc,priority:DESC', fields, fallback)).toEqual([
+      { field: 'dueDate', direction: 'ASC' },
+      { field: 'priority', direction: 'DESC' },
+    ]);
+    expect(parseSort(undefined, fields, fallback)).toBe(fallback);
+  });
+
+  it('should reject unknown fields, directions and duplicates', () => {
+    expect(() => parseSort('password:asc', fields, fallback)).toThrow(BadRequestException);
+    expect(() => parseSort('dueDate:up', fields, fallback)).toThrow(BadRequestException);
+    expect(() => parseSort('dueDate,dueDate:desc', fields, fallback)).toThrow(BadRequestException);
+  });
+});
+
+describe('cursor pagination', () => {
+  const sort = parseSort('dueDate:asc,priority:desc', fields, fallback);
+  const rows = [
+    { id: 'a', dueDate: new Date('2030-01-01T00:00:00.000Z'), priority: 'HIGH' },
+    { id: 'b', dueDate: new Date('2030-01-02T00:00:00.000Z'), priority: 'LOW' },
+    { id: 'c', dueDate: null, priority: 'LOW' },
+  ];
+
+  it('should only hand out a cursor when there are more rows', () => {
+    const page = toCursorPage(rows, 2, sort);
+    expect(page.data.map(row => row.id)).toEqual(['a', 'b']);
+    expect(page.hasMore).toBe(true);
+    expect(typeof page.nextCursor).toBe('string');
+
+    expect(toCursorPage(rows, 3, sort)).toEqual({ data: rows, nextCursor: null, hasMore: false });
+  });
+
+  it('should continue after the sort keys and id encoded in the cursor', () => {
+    const { nextCursor } = toCursorPage(rows, 2, sort);
+    const { query, calls } = recordingQuery();
+
+    applySortAndCursor(query, 'task', sort, nextCursor!);
+
+    expect(calls.orderBy).toEqual([
+      ['task.dueDate', 'ASC', 'NULLS LAST'],
+      ['task.priority', 'DESC', 'NULLS LAST'],
+      ['task.id', 'ASC'],
+    ]);
+    expect(calls.where).toEqual([
+      [
+        '(((task.dueDate > :cursor0 OR task.dueDate IS NULL)) OR ' +
+          '(task.dueDate = :cursor0 AND (task.priority < :cursor1 OR task.priority IS NULL)) OR ' +
+          '(task.dueDate = :cursor0 AND task.priority = :cursor1 AND task.id > :cursorId))',
+        { cursor0: rows[1].dueDate, cursor1: 'LOW', cursorId: 'b' },
+      ],
+    ]);
+  });
+
+  it('should reject tampered cursors and cursors from another sort', () => {
+    const { nextCursor } = toCursorPage(rows, 2, sort);
+    const { query } = recordingQuery();
+
+    expect(() => applySortAndCursor(query, 'task', sort, 'not-a-cursor')).toThrow(
+      BadRequestException,
+    );
+    expect(() => applySortAndCursor(query, 'task', fallback, nextCursor!)).toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('should sort and compare timestamp columns at millisecond precision', () => {
+    const { nextCursor } = toCursorPage(rows, 2, sort);
+    const { query, calls } = recordingQuery();
+    const selects: unknown[][] = [];
+    const columnTypes: Record<string, unknown> = { dueDate: Date, priority: 'enum' };
+    Object.assign(query, {
+      addSelect: (...args: unknown[]) => selects.push(args),
+      expressionMap: {
+        aliases: [
+          {
+            name: 'task',
+            hasMetadata: true,
+            metadata: {
+              findColumnWithPropertyName: (field: string) => ({ type: columnTypes[field] }),
+            },
+          },
+        ],
+      },
+    });
+
+    applySortAndCursor(query, 'task', sort, nextCursor!);
+
+    expect(selects).toEqual([["date_trunc('milliseconds', task.dueDate)", 'sort_0']]);
+    expect(calls.orderBy[0]).toEqual(['sort_0', 'ASC', 'NULLS LAST']);
+    expect(calls.where[0][0]).toContain("date_trunc('milliseconds', task.dueDate) = :cursor0");
+  });
+
+  it('should page on the stored value when sorting by a custom field', () => {
+    const customSort = resolveCustomFieldSort(parseTaskSort('cf.severity:asc'), [
+      { key: 'severity', type: CustomFieldType.ENUM } as any,
+    ]);
+    const tasks = [
+      { id: 'a', customFields: { severity: 'high' } },
+      { id: 'b', customFields: { severity: 'low' } },
+      { id: 'c', customFields: {} },
+    ];
+    const { nextCursor } = toCursorPage(tasks, 2, customSort);
+    const { query, calls } = recordingQuery();
+    Object.assign(query, { addSelect: jest.fn() });
+
+    applySortAndCursor(query, 'task', customSort, nextCursor!);
+
+    expect(calls.where[0]).toEqual([
+      "((((task.custom_fields ->> 'severity') > :cursor0 OR " +
+        "(task.custom_fields ->> 'severity') IS NULL)) OR " +
+        "((task.custom_fields ->> 'severity') = :cursor0 AND task.id > :cursorId))",
+      { cursor0: 'low', cursorId: 'b' },
+    ]);
+  });
+});
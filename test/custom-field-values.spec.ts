@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'bun:test';
+import { BadRequestException } from '@nestjs/common';
+import { CustomFieldDefinition } from '../src/modules/custom-fields/entities/custom-field-definition.entity';
+import { CustomFieldType } from '../src/modules/custom-fields/enums/custom-field-type.enum';
+import { mergeCustomFieldValues } from '../src/modules/custom-fields/utils/custom-field-values';
+
+const definition = (
+  key: string,
+  type: CustomFieldType,
+  extra: Partial<CustomFieldDefinition> = {},
+): CustomFieldDefinition =>
+  Object.assign(new CustomFieldDefinition(), {
+    key,
+    type,
+    required: false,
+    options: null,
+    ...extra,
+  });
+
+const definitions = [
+  definition('estimate', CustomFieldType.NUMBER),
+  definition('severity', CustomFieldType.ENUM, { options: ['low', 'high'] }),
+  definition('release', CustomFieldType.DATE),
+];
+
+describe('mergeCustomFieldValues', () => {
+  it('should merge changes and normalize dates', () => {
+    const merged = mergeCustomFieldValues(
+      definitions,
+      { estimate: 3 },
+      { severity: 'high', release: '2026-03-01' },
+    );
+
+    expect(merged).toEqual({
+      estimate: 3,
+      severity: 'high',
+      release: '2026-03-01T00:00:00.000Z',
+    });
+  });
+
+  it('should clear a field set to null', () => {
+    expect(mergeCustomFieldValues(definitions, { estimate: 3 }, { estimate: null })).toEqual({});
+  });
+
+  it('should report every invalid value at once', () => {
+    try {
+      mergeCustomFieldValues(
+        definitions,
+        {},
+        { estimate: 'three', severity: 'urgent', owner: 'x' },
+      );
+      throw new Error('expected a BadRequestException');
+    } catch (error) {
+      expect(error).toBeInstanceOf(BadRequestException);
+      expect((error as BadRequestException).getResponse()).toMatchObject({
+        message: [
+          'Custom field "estimate" must be a number',
+          'Custom field "severity" must be one of: low, high',
+          'Unknown custom field "owner"',
+        ],
+      });
+    }
+  });
+
+  it('should enforce required fields', () => {
+    const required = [definition('team', CustomFieldType.TEXT, { required: true })];
+
+    expect(() => mergeCustomFieldValues(required, {}, {})).toThrow(BadRequestException);
+    expect(() => mergeCustomFieldValues(required, { team: 'core' }, { team: null })).toThrow(
+      BadRequestException,
+    );
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'bun:test';
+import { BadRequestException } from '@nestjs/common';
+import { resolveDateToken } from '../src/modules/tasks/utils/date-token';
+
+describe('resolveDateToken', () => {
+  const now = new Date('2030-03-14T15:30:00.000Z');
+
+  it('should resolve day tokens to the start or end of that day', () => {
+    expect(resolveDateToken('today', 'start', now).toISOString()).toBe('2030-03-14T00:00:00.000Z');
+    expect(resolveDateToken('+7d', 'end', now).toISOString()).toBe('2030-03-21T23:59:59.999Z');
+    expect(resolveDateToken('-1w', 'start', now).toISOString()).toBe('2030-03-07T00:00:00.000Z');
+    expect(resolveDateToken('2030-01-02', 'end', now).toISOString()).toBe(
+      '2030-01-02T23:59:59.999Z',
+    );
+  });
+
+  it('should keep exact instants as they are', () => {
+    expect(resolveDateToken('now', 'end', now)).toEqual(now);
+    expect(resolveDateToken('+2h', 'start', now).toISOString()).toBe('2030-03-14T17:30:00.000Z');
+    expect(resolveDateToken('2030-01-02T08:00:00Z', 'end', now).toISOString()).toBe(
+      '2030-01-02T08:00:00.000Z',
+    );
+  });
+
+  it('should reject unknown tokens', () => {
+    expect(() => resolveDateToken('next week', 'start', now)).toThrow(BadRequestException);
+    expect(() => resolveDateToken('2030-13-45', 'start', now)).toThrow(BadRequestException);
+  });
+});
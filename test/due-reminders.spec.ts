@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  DEFAULT_REMINDER_OFFSETS,
+  planDueReminders,
+  reminderJobId,
+  resolveReminderOffsets,
+} from '../src/modules/tasks/utils/due-reminders';
+
+const now = new Date('2026-03-10T12:00:00Z');
+
+describe('planDueReminders', () => {
+  it('should plan a reminder for every offset still ahead', () => {
+    const reminders = planDueReminders(new Date('2026-03-12T12:00:00Z'), now);
+    expect(reminders.map(reminder => reminder.offsetMinutes)).toEqual([1440, 60, 15]);
+    expect(reminders[0].delay).toBe(24 * 60 * 60 * 1000);
+  });
+
+  it('should drop reminders whose time has passed', () => {
+    const reminders = planDueReminders(new Date('2026-03-10T12:30:00Z'), now);
+    expect(reminders).toEqual([{ offsetMinutes: 15, delay: 15 * 60 * 1000 }]);
+    expect(planDueReminders(new Date('2026-03-10T11:00:00Z'), now)).toEqual([]);
+  });
+});
+
+describe('resolveReminderOffsets', () => {
+  it('should prefer the task offsets over the user ones', () => {
+    expect(resolveReminderOffsets([60], [1440])).toEqual([60]);
+    expect(resolveReminderOffsets([], [1440])).toEqual([]);
+    expect(resolveReminderOffsets(null, [1440])).toEqual([1440]);
+    expect(resolveReminderOffsets(null, undefined)).toEqual(DEFAULT_REMINDER_OFFSETS);
+  });
+});
+
+it('should derive reminder job ids from the task and offset', () => {
+  expect(reminderJobId('task-1', 60)).toBe('reminder:task-1:60');
+});
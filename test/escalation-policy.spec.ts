@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'bun:test';
+import { EscalationAction } from '../src/modules/tasks/enums/escalation-action.enum';
+import {
+  DEFAULT_ESCALATION_POLICY,
+  parseEscalationPolicy,
+  pendingEscalationSteps,
+} from '../src/modules/tasks/utils/escalation-policy';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('parseEscalationPolicy', () => {
+  it('should parse and order the steps', () => {
+    expect(parseEscalationPolicy('7d:mark-stale, 1d:raise-priority,30m:notify-admins')).toEqual([
+      { key: '30m:notify-admins', afterMs: HOUR / 2, action: EscalationAction.NOTIFY_ADMINS },
+      { key: '1d:raise-priority', afterMs: 24 * HOUR, action: EscalationAction.RAISE_PRIORITY },
+      { key: '7d:mark-stale', afterMs: 7 * 24 * HOUR, action: EscalationAction.MARK_STALE },
+    ]);
+    expect(parseEscalationPolicy('')).toEqual([]);
+  });
+
+  it('should reject malformed steps and unknown actions', () => {
+    expect(() => parseEscalationPolicy('1w:raise-priority')).toThrow('Invalid escalation step');
+    expect(() => parseEscalationPolicy('1d:archive')).toThrow('Unknown escalation action');
+    expect(() => parseEscalationPolicy('1d:mark-stale,1d:mark-stale')).toThrow('listed twice');
+  });
+});
+
+describe('pendingEscalationSteps', () => {
+  const policy = parseEscalationPolicy(DEFAULT_ESCALATION_POLICY);
+  const dueDate = new Date('2026-03-01T09:00:00Z');
+
+  it('should return the steps the task is overdue long enough for', () => {
+    const now = new Date(dueDate.getTime() + 4 * 24 * HOUR);
+    expect(pendingEscalationSteps(policy, dueDate, [], now).map(step => step.key)).toEqual([
+      '1d:raise-priority',
+      '3d:notify-admins',
+    ]);
+  });
+
+  it('should skip steps that already fired', () => {
+    const now = new Date(dueDate.getTime() + 8 * 24 * HOUR);
+    const pending = pendingEscalationSteps(
+      policy,
+      dueDate,
+      ['1d:raise-priority', '3d:notify-admins'],
+      now,
+    );
+    expect(pending.map(step => step.key)).toEqual(['7d:mark-stale']);
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'bun:test';
+import { createServer, AddressInfo } from 'net';
+import { mkdtemp, readFile, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { renderMail } from '../src/modules/mail/templates';
+import { MailTemplate } from '../src/modules/mail/enums/mail-template.enum';
+import { OutboxMailTransport } from '../src/modules/mail/infrastructure/outbox-mail.transport';
+import { SmtpMailTransport } from '../src/modules/mail/infrastructure/smtp-mail.transport';
+
+const context = { appUrl: 'https://tasks.example.com' };
+const message = {
+  from: 'TaskFlow <no-reply@example.com>',
+  to: 'jane@example.com',
+  subject: 'Ünicode subject',
+  html: '<p>Hello</p>',
+  text: 'Hello',
+};
+
+describe('renderMail', () => {
+  it('should escape task titles in HTML but not in the text fallback', () => {
+    const mail = renderMail(
+      {
+        template: MailTemplate.ASSIGNMENT,
+        to: 'jane@example.com',
+        data: {
+          recipientName: 'Jane',
+          taskId: 'task-1',
+          taskTitle: 'Fix <script> & deploy',
+          dueDate: '2026-03-10T14:30:00.000Z',
+          actorName: 'Sam',
+        },
+      },
+      context,
+    );
+
+    expect(mail.subject).toBe('You were assigned "Fix <script> & deploy"');
+    expect(mail.text).toContain('You were assigned "Fix <script> & deploy" by Sam.');
+    expect(mail.text).toContain('It is due 2026-03-10 14:30 UTC.');
+    expect(mail.text).toContain('https://tasks.example.com/tasks/task-1');
+    expect(mail.html).toContain('Fix &lt;script&gt; &amp; deploy');
+    expect(mail.html).not.toContain('<script>');
+  });
+
+  it('should render reminders with the offset and digests with the remaining count', () => {
+    const reminder = renderMail(
+      {
+        template: MailTemplate.REMINDER,
+        to: 'jane@example.com',
+        data: { recipientName: 'Jane', taskId: 'task-1', taskTitle: 'Ship', offsetMinutes: 60 },
+      },
+      context,
+    );
+    expect(reminder.subject).toBe('"Ship" is due in 1 hour');
+
+    const digest = renderMail(
+      {
+        template: MailTemplate.DIGEST,
+        to: 'jane@example.com',
+        data: {
+          recipientName: 'Jane',
+          unreadCount: 3,
+          notifications: [
+            { title: '"Ship" is overdue', taskId: 'task-1', createdAt: '2026-03-10T08:00:00.000Z' },
+          ],
+        },
+      },
+      context,
+    );
+    expect(digest.subject).toBe('You have 3 unread notifications');
+    expect(digest.text).toContain('...and 2 more');
+    expect(digest.html).toContain('href="https://tasks.example.com/tasks/task-1"');
+  });
+});
+
+describe('OutboxMailTransport', () => {
+  it('should write each message to a JSON file', async () => {
+    const root = await mkdtemp(join(tmpdir(), 'outbox-'));
+    try {
+      await new OutboxMailTransport(root).send(message);
+
+      const files = await readdir(root);
+      expect(files).toHaveLength(1);
+      expect(JSON.parse(await readFile(join(root, files[0]), 'utf8'))).toMatchObject(message);
+    } finally {
+      await rm(root, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('SmtpMailTransport', () => {
+  // Replies like a mail catcher would and records what the client sent
+  async function withSmtpServer(
+    run: (port: number, received: string[]) => Promise<void>,
+    rejectRecipient = false,
+  ) {
+    const received: string[] = [];
+    const server = createServer(socket => {
+      let inData = false;
+      let buffer = '';
+      socket.write('220 catcher ESMTP\r\n');
+      socket.on('data', chunk => {
+        buffer += chunk.toString();
+        let end: number;
+        while ((end = buffer.indexOf('\r\n')) !== -1) {
+          const line = buffer.slice(0, end);
+          buffer = buffer.slice(end + 2);
+          received.push(line);
+          if (inData) {
+            if (line === '.') {
+              inData = false;
+              socket.write('250 queued\r\n');
+            }
+          } else if (line.startsWith('EHLO')) {
+            socket.write('250-catcher\r\n250-SIZE 1000000\r\n250 AUTH PLAIN\r\n');
+          } else if (line.startsWith('RCPT') && rejectRecipient) {
+            socket.write('550 no such user\r\n');
+          } else if (line === 'DATA') {
+            inData = true;
+            socket.write('354 go ahead\r\n');
+          } else if (line === 'QUIT') {
+            socket.end('221 bye\r\n');
+          } else {
+            socket.write('250 ok\r\n');
+          }
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    try {
+      await run((server.address() as AddressInfo).port, received);
+    } finally {
+      server.close();
+    }
+  }
+
+  it('should deliver a multipart message', async () => {
+    await withSmtpServer(async (port, received) => {
+      await new SmtpMailTransport({ host: '127.0.0.1', port, secure: false }).send(message);
+
+      expect(received).toContain('MAIL FROM:<no-reply@example.com>');
+      expect(received).toContain('RCPT TO:<jane@example.com>');
+      expect(received).toContain(
+        `Subject: =?UTF-8?B?${Buffer.from(message.subject).toString('base64')}?=`,
+      );
+      expect(received.some(line => line.startsWith('Content-Type: multipart/alternative'))).toBe(
+        true,
+      );
+      expect(received[received.length - 1]).toBe('QUIT');
+    });
+  });
+
+  it('should refuse to authenticate over a plain connection unless allowed', () => {
+    const options = { host: '127.0.0.1', port: 1025, secure: false, user: 'u', pass: 'p' };
+
+    expect(() => new SmtpMailTransport(options)).toThrow('unencrypted connection');
+    expect(() => new SmtpMailTransport({ ...options, allowInsecureAuth: true })).not.toThrow();
+  });
+
+  it('should fail when the server rejects the recipient', async () => {
+    await withSmtpServer(async port => {
+      const transport = new SmtpMailTransport({ host: '127.0.0.1', port, secure: false });
+      await expect(transport.send(message)).rejects.toThrow('SMTP error 550');
+    }, true);
+  });
+});
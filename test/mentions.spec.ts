@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'bun:test';
+import { extractMentions } from '../src/modules/comments/utils/mentions';
+
+describe('extractMentions', () => {
+  it('should find mentioned emails once each, lower-cased', () => {
+    expect(
+      extractMentions(
+        '@Jane.Doe@example.com can you check? cc @sam@example.org, @jane.doe@example.com.',
+      ),
+    ).toEqual(['jane.doe@example.com', 'sam@example.org']);
+  });
+
+  it('should ignore plain email addresses', () => {
+    expect(extractMentions('Mail jane@example.com or ops@example.com')).toEqual([]);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, jest } from 'bun:test';
+import { NotificationsService } from '../src/modules/notifications/notifications.service';
+import { NotificationType } from '../src/modules/notifications/enums/notification-type.enum';
+import { MailTemplate } from '../src/modules/mail/enums/mail-template.enum';
+
+const assigned = {
+  userId: 'user-2',
+  type: NotificationType.ASSIGNED,
+  taskId: 'task-1',
+  actorId: 'user-1',
+  title: 'You were assigned "Ship"',
+};
+
+function managerInserting(userIds: string[]) {
+  const builder: any = {};
+  for (const method of [
+    'createQueryBuilder',
+    'insert',
+    'into',
+    'values',
+    'orIgnore',
+    'returning',
+  ]) {
+    builder[method] = jest.fn(() => builder);
+  }
+  builder.execute = jest.fn().mockResolvedValue({ raw: userIds.map(user_id => ({ user_id })) });
+  return builder;
+}
+
+describe('NotificationsService', () => {
+  let repositoryManager: any;
+  let mailQueue: { enqueueMail: ReturnType<typeof jest.fn> };
+  let service: NotificationsService;
+
+  beforeEach(() => {
+    repositoryManager = managerInserting(['user-2']);
+    repositoryManager.find = jest.fn((entity: any) =>
+      Promise.resolve(
+        entity.name === 'User'
+          ? [
+              { id: 'user-1', email: 'sam@example.com', name: 'Sam' },
+              { id: 'user-2', email: 'jane@example.com', name: 'Jane' },
+            ]
+          : [{ id: 'task-1', title: 'Ship', dueDate: null }],
+      ),
+    );
+    mailQueue = { enqueueMail: jest.fn() };
+    service = new NotificationsService({ manager: repositoryManager } as any, mailQueue as any);
+  });
+
+  it('should email new notifications right away outside of a transaction', async () => {
+    await service.notify([assigned]);
+
+    expect(mailQueue.enqueueMail).toHaveBeenCalledWith(
+      {
+        template: MailTemplate.ASSIGNMENT,
+        to: 'jane@example.com',
+        data: expect.objectContaining({ taskTitle: 'Ship', actorName: 'Sam' }),
+      },
+      undefined,
+    );
+  });
+
+  it('should leave emails to the caller when writing within a transaction', async () => {
+    const created = await service.notify([assigned], managerInserting(['user-2']));
+
+    expect(created).toEqual([assigned]);
+    expect(mailQueue.enqueueMail).not.toHaveBeenCalled();
+  });
+
+  it('should not email notifications skipped as duplicates', async () => {
+    const created = await service.notify([assigned], managerInserting([]));
+    await service.sendEmails(created);
+
+    expect(created).toEqual([]);
+    expect(mailQueue.enqueueMail).not.toHaveBeenCalled();
+  });
+});
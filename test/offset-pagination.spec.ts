@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'bun:test';
+import { BadRequestException } from '@nestjs/common';
+import {
+  MAX_PAGE_SIZE,
+  resolvePagination,
+  toPaginatedResponse,
+} from '../src/common/utils/offset-pagination';
+
+describe('offset pagination', () => {
+  it('should default to the first page and cap the page size', () => {
+    expect(resolvePagination({})).toEqual({ page: 1, limit: 10 });
+    expect(resolvePagination({ page: 3, limit: 500 })).toEqual({ page: 3, limit: MAX_PAGE_SIZE });
+  });
+
+  it('should reject invalid pages and limits', () => {
+    expect(() => resolvePagination({ page: 0 })).toThrow(BadRequestException);
+    expect(() => resolvePagination({ page: NaN })).toThrow(BadRequestException);
+    expect(() => resolvePagination({ limit: -5 })).toThrow(BadRequestException);
+  });
+
+  it('should report totals and the page count', () => {
+    expect(toPaginatedResponse(['a', 'b'], 21, 2, 10)).toEqual({
+      data: ['a', 'b'],
+      meta: { total: 21, page: 2, limit: 10, totalPages: 3 },
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'bun:test';
+import { rankBetween, spreadRanks } from '../src/modules/tasks/utils/rank';
+
+const isSorted = (keys: string[]) =>
+  keys.every((key, index) => index === 0 || keys[index - 1] < key);
+
+describe('rankBetween', () => {
+  it('should place keys between their neighbours', () => {
+    expect(rankBetween(null, null)).toBe('i');
+    expect(rankBetween('i', null) > 'i').toBe(true);
+    expect(rankBetween(null, 'i') < 'i').toBe(true);
+
+    const middle = rankBetween('a', 'b');
+    expect(middle > 'a' && middle < 'b').toBe(true);
+  });
+
+  it('should keep keys ordered and free of trailing zeros under repeated inserts', () => {
+    const keys: string[] = [];
+    for (let index = 0; index < 200; index++) {
+      // Alternate between the end, the top and the middle of the column
+      const position = [keys.length, 0, Math.floor(keys.length / 2)][index % 3];
+      keys.splice(position, 0, rankBetween(keys[position - 1] ?? null, keys[position] ?? null));
+    }
+
+    expect(isSorted(keys)).toBe(true);
+    expect(keys.some(key => key.endsWith('0'))).toBe(false);
+  });
+
+  it('should keep keys short when appending', () => {
+    let last: string | null = null;
+    for (let index = 0; index < 100; index++) {
+      last = rankBetween(last, null);
+    }
+
+    expect(last!.length).toBeLessThanOrEqual(4);
+  });
+
+  it('should reject neighbours out of order', () => {
+    expect(() => rankBetween('b', 'a')).toThrow();
+  });
+});
+
+describe('spreadRanks', () => {
+  it('should return evenly spaced keys of equal length', () => {
+    const keys = spreadRanks(1000);
+
+    expect(keys).toHaveLength(1000);
+    expect(isSorted(keys)).toBe(true);
+    expect(new Set(keys.map(key => key.length)).size).toBe(1);
+    expect(rankBetween(keys[999], null).length).toBeLessThanOrEqual(keys[999].length);
+  });
+});
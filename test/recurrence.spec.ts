@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'bun:test';
+import { BadRequestException } from '@nestjs/common';
+import {
+  buildRecurrence,
+  nextOccurrence,
+  normalizeRecurrenceRule,
+} from '../src/modules/tasks/utils/recurrence';
+
+describe('recurrence utils', () => {
+  it('should skip weekends for an every-weekday rule', () => {
+    // Friday 2025-01-03 09:00 UTC
+    const friday = new Date(Date.UTC(2025, 0, 3, 9));
+    const next = nextOccurrence('FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR', friday, friday);
+    expect(next?.toISOString()).toBe('2025-01-06T09:00:00.000Z');
+  });
+
+  it('should resolve the first Monday of the next month', () => {
+    const start = new Date(Date.UTC(2025, 0, 6, 9));
+    const next = nextOccurrence('FREQ=MONTHLY;BYDAY=1MO', start, start);
+    expect(next?.toISOString()).toBe('2025-02-03T09:00:00.000Z');
+  });
+
+  it('should return null once COUNT is exhausted', () => {
+    const start = new Date(Date.UTC(2025, 0, 1));
+    const second = new Date(Date.UTC(2025, 0, 2));
+    expect(nextOccurrence('FREQ=DAILY;COUNT=2', start, second)).toBeNull();
+  });
+
+  it('should reject rules without a frequency', () => {
+    expect(() => buildRecurrence('BYDAY=MO', new Date())).toThrow(BadRequestException);
+  });
+
+  it('should strip the RRULE prefix when normalising', () => {
+    expect(normalizeRecurrenceRule('rrule:freq=daily')).toBe('FREQ=DAILY');
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  buildTsQuery,
+  headlineOptions,
+  renderHighlight,
+} from '../src/modules/tasks/utils/search-query';
+
+describe('buildTsQuery', () => {
+  it('should require every term', () => {
+    expect(buildTsQuery('Deploy  backend')).toBe('deploy & backend');
+  });
+
+  it('should support phrase and prefix queries', () => {
+    expect(buildTsQuery('"release notes" migr*')).toBe('(release <-> notes) & migr:*');
+    expect(buildTsQuery('"unterminated phrase')).toBe('(unterminated <-> phrase)');
+  });
+
+  it('should drop tsquery operators from user input', () => {
+    expect(buildTsQuery('fix & (db) | !prod:')).toBe('fix & db & prod');
+    expect(buildTsQuery('!!! ""')).toBeNull();
+  });
+});
+
+describe('renderHighlight', () => {
+  it('should escape the stored text and only mark the matches', () => {
+    const [, start, stop] = /StartSel=(.), StopSel=(.)/.exec(headlineOptions())!;
+    const headline = `Fix ${start}login${stop} <script>alert("x")</script> & logout`;
+
+    expect(renderHighlight(headline)).toBe(
+      'Fix <mark>login</mark> &lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt; &amp; logout',
+    );
+    expect(renderHighlight(null)).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'bun:test';
+import { Role } from '../src/modules/auth/enums/role.enum';
+import { ProjectRole } from '../src/modules/projects/enums/project-role.enum';
+import {
+  canAssignTo,
+  canDeleteTask,
+  canEditTask,
+  canManageSeries,
+  canViewTask,
+} from '../src/modules/tasks/policies/task-access.policy';
+
+const taskInProject = (userId: string, role: ProjectRole): any => ({
+  id: 'task-1',
+  createdBy: 'creator',
+  assigneeId: null,
+  project: { id: 'project-1', members: [{ userId, role }] },
+});
+
+describe('task access policy', () => {
+  it('lets the creator and admins do everything', () => {
+    const task: any = { id: 'task-1', createdBy: 'creator', assigneeId: null, project: null };
+    const admin = { id: 'admin', role: Role.Admin };
+    const creator = { id: 'creator', role: Role.User };
+
+    for (const user of [admin, creator]) {
+      expect(canViewTask(task, user)).toBe(true);
+      expect(canEditTask(task, user)).toBe(true);
+      expect(canDeleteTask(task, user)).toBe(true);
+    }
+  });
+
+  it('lets the assignee view and update but not delete', () => {
+    const assignee = { id: 'assignee', role: Role.User };
+    const task: any = {
+      id: 'task-1',
+      createdBy: 'creator',
+      assigneeId: assignee.id,
+      project: null,
+    };
+
+    expect(canViewTask(task, assignee)).toBe(true);
+    expect(canEditTask(task, assignee)).toBe(true);
+    expect(canDeleteTask(task, assignee)).toBe(false);
+  });
+
+  it('only lets users assign to others inside a project', () => {
+    const user = { id: 'user', role: Role.User };
+
+    expect(canAssignTo(null, user.id, user)).toBe(true);
+    expect(canAssignTo(null, 'someone-else', user)).toBe(false);
+    expect(canAssignTo('project-1', 'someone-else', user)).toBe(true);
+    expect(canAssignTo(null, 'someone-else', { id: 'admin', role: Role.Admin })).toBe(true);
+  });
+
+  it('denies outsiders', () => {
+    const stranger = { id: 'stranger', role: Role.User };
+    const task = taskInProject('someone-else', ProjectRole.Owner);
+
+    expect(canViewTask(task, stranger)).toBe(false);
+    expect(canEditTask(task, stranger)).toBe(false);
+    expect(canDeleteTask(task, stranger)).toBe(false);
+  });
+
+  it('grants project members access according to their role', () => {
+    const user = { id: 'member', role: Role.User };
+
+    const viewerTask = taskInProject(user.id, ProjectRole.Viewer);
+    expect(canViewTask(viewerTask, user)).toBe(true);
+    expect(canEditTask(viewerTask, user)).toBe(false);
+
+    const memberTask = taskInProject(user.id, ProjectRole.Member);
+    expect(canEditTask(memberTask, user)).toBe(true);
+    expect(canDeleteTask(memberTask, user)).toBe(false);
+
+    const managerTask = taskInProject(user.id, ProjectRole.Manager);
+    expect(canDeleteTask(managerTask, user)).toBe(true);
+  });
+
+  it('only lets the series creator, admins and project managers change a series', () => {
+    const series: any = { id: 'series-1', userId: 'creator' };
+    const assignee = { id: 'assignee', role: Role.User };
+    const task: any = {
+      id: 'task-1',
+      createdBy: 'creator',
+      assigneeId: assignee.id,
+      project: null,
+    };
+
+    expect(canManageSeries(series, task, { id: 'creator', role: Role.User })).toBe(true);
+    expect(canManageSeries(series, task, { id: 'admin', role: Role.Admin })).toBe(true);
+    expect(canManageSeries(series, task, assignee)).toBe(false);
+
+    const user = { id: 'member', role: Role.User };
+    expect(canManageSeries(series, taskInProject(user.id, ProjectRole.Member), user)).toBe(false);
+    expect(canManageSeries(series, taskInProject(user.id, ProjectRole.Manager), user)).toBe(true);
+  });
+});
@@ -16,6 +16,8 @@ import {
 import { Task } from '../src/modules/tasks/entities/task.entity';
 import { TaskStatus } from '../src/modules/tasks/enums/task-status.enum';
 import { TaskPriority } from '../src/modules/tasks/enums/task-priority.enum';
+import { TaskEventSource } from '../src/modules/tasks/enums/task-event-source.enum';
+import { BatchAction } from '../src/modules/tasks/enums/batch-action.enum';
 import { UpdateTaskDto } from '../src/modules/tasks/dto/update-task.dto';
 
 // Mock TasksService
@@ -28,6 +30,17 @@ const mockTasksService = {
   getTaskStats: jest.fn(),
   bulkUpdateStatus: jest.fn(),
   bulkDelete: jest.fn(),
+  bulkTag: jest.fn(),
+  bulkUntag: jest.fn(),
+  findHistory: jest.fn(),
+  search: jest.fn(),
+  findTrash: jest.fn(),
+  findPage: jest.fn(),
+  move: jest.fn(),
+  findTrashed: jest.fn(),
+  restore: jest.fn(),
+  purge: jest.fn(),
+  purgeTrashedBefore: jest.fn(),
 };
 
 // Create mock objects using a more robust pattern to avoid TS errors
@@ -49,6 +62,8 @@ const mockAdminUser = Object.assign(new User(), {
   role: Role.Admin,
 });
 
+const httpActor = { userId: mockUser.id, source: TaskEventSource.HTTP };
+
 const mockTask = Object.assign(new Task(), {
   id: 'task-id-1',
   title: 'Test Task',
@@ -56,12 +71,16 @@ const mockTask = Object.assign(new Task(), {
   status: TaskStatus.PENDING,
   priority: TaskPriority.MEDIUM,
   dueDate: new Date(),
-  userId: mockUser.id,
-  user: mockUser,
+  createdBy: mockUser.id,
+  creator: mockUser,
+  assigneeId: mockUser.id,
   createdAt: new Date(),
   updatedAt: new Date(),
+  version: 3,
 });
 
+const mockResponse = { setHeader: jest.fn() } as any;
+
 describe('TasksController', () => {
   let controller: TasksController;
   let service: TasksService;
@@ -93,15 +112,15 @@ describe('TasksController', () => {
 
   describe('create', () => {
     it('should create a task for the current user', async () => {
-      const createTaskDto: CreateTaskDto = { title: 'New Task', userId: mockUser.id };
+      const createTaskDto: CreateTaskDto = { title: 'New Task' };
       mockTasksService.create.mockResolvedValue(mockTask);
       const result = await controller.create(createTaskDto, mockUser);
-      expect(service.create).toHaveBeenCalledWith(createTaskDto);
+      expect(service.create).toHaveBeenCalledWith(createTaskDto, mockUser.id);
       expect(result).toEqual(mockTask);
     });
 
     it('should throw ForbiddenException if a user tries to create a task for another user', async () => {
-      const createTaskDto: CreateTaskDto = { title: 'New Task', userId: 'another-user-id' };
+      const createTaskDto: CreateTaskDto = { title: 'New Task', assigneeId: 'another-user-id' };
       await expect(controller.create(createTaskDto, mockUser)).rejects.toThrow(ForbiddenException);
     });
   });
@@ -109,17 +128,18 @@ describe('TasksController', () => {
   describe('findOne', () => {
     it('should return a task if the user is the owner', async () => {
       mockTasksService.findOne.mockResolvedValue(mockTask);
-      const result = await controller.findOne(mockTask.id, mockUser);
+      const result = await controller.findOne(mockTask.id, mockUser, mockResponse);
       expect(service.findOne).toHaveBeenCalledWith(mockTask.id);
       expect(result).toEqual(mockTask);
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('ETag', '"3"');
     });
 
     it('should throw ForbiddenException if the user is not the owner', async () => {
-      const differentUserTask = { ...mockTask, userId: 'another-user-id' };
+      const differentUserTask = { ...mockTask, createdBy: 'another-user-id', assigneeId: null };
       mockTasksService.findOne.mockResolvedValue(differentUserTask);
-      await expect(controller.findOne(differentUserTask.id, mockUser)).rejects.toThrow(
-        ForbiddenException,
-      );
+      await expect(
+        controller.findOne(differentUserTask.id, mockUser, mockResponse),
+      ).rejects.toThrow(ForbiddenException);
     });
   });
 
@@ -129,20 +149,51 @@ describe('TasksController', () => {
       mockTasksService.findOne.mockResolvedValue(mockTask); // For ownership check
       mockTasksService.update.mockResolvedValue({ ...mockTask, ...updateDto });
 
-      const result = await controller.update(mockTask.id, updateDto, mockUser);
+      const result = await controller.update(mockTask.id, updateDto, mockUser, mockResponse);
 
-      expect(service.update).toHaveBeenCalledWith(mockTask.id, updateDto);
+      expect(service.update).toHaveBeenCalledWith(mockTask.id, updateDto, httpActor, undefined);
       expect(result.title).toEqual('Updated Title');
     });
 
+    it('should pass the If-Match version on to the service', async () => {
+      const updateDto: UpdateTaskDto = { title: 'Updated Title' };
+      mockTasksService.findOne.mockResolvedValue(mockTask);
+      mockTasksService.update.mockResolvedValue({ ...mockTask, ...updateDto, version: 4 });
+
+      await controller.update(mockTask.id, updateDto, mockUser, mockResponse, 'W/"3"');
+
+      expect(service.update).toHaveBeenCalledWith(mockTask.id, updateDto, httpActor, 3);
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('ETag', '"4"');
+    });
+
+    it('should reject a malformed If-Match header', async () => {
+      await expect(
+        controller.update(mockTask.id, {}, mockUser, mockResponse, 'not-an-etag'),
+      ).rejects.toThrow(BadRequestException);
+      expect(service.update).not.toHaveBeenCalled();
+    });
+
     it("should throw ForbiddenException when updating another user's task", async () => {
-      const differentUserTask = { ...mockTask, userId: 'another-user-id' };
+      const differentUserTask = { ...mockTask, createdBy: 'another-user-id', assigneeId: null };
       mockTasksService.findOne.mockResolvedValue(differentUserTask);
       const updateDto: UpdateTaskDto = { title: 'Updated Title' };
 
-      await expect(controller.update(differentUserTask.id, updateDto, mockUser)).rejects.toThrow(
-        ForbiddenException,
-      );
+      await expect(
+        controller.update(differentUserTask.id, updateDto, mockUser, mockResponse),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('move', () => {
+    it('should move the task and return its new ETag', async () => {
+      const moveDto = { status: TaskStatus.IN_PROGRESS, beforeId: 'task-above' };
+      mockTasksService.findOne.mockResolvedValue(mockTask);
+      mockTasksService.move.mockResolvedValue({ ...mockTask, ...moveDto, version: 2 });
+
+      await controller.move(mockTask.id, moveDto, mockUser, mockResponse, '"1"');
+
+      expect(service.move).toHaveBeenCalledWith(mockTask.id, moveDto, httpActor, 1);
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('ETag', '"2"');
     });
   });
 
@@ -153,12 +204,12 @@ describe('TasksController', () => {
 
       const result = await controller.remove(mockTask.id, mockUser);
 
-      expect(service.remove).toHaveBeenCalledWith(mockTask.id);
+      expect(service.remove).toHaveBeenCalledWith(mockTask.id, httpActor, undefined);
       expect(result.statusCode).toEqual(HttpStatus.OK);
     });
 
     it("should throw ForbiddenException when deleting another user's task", async () => {
-      const differentUserTask = { ...mockTask, userId: 'another-user-id' };
+      const differentUserTask = { ...mockTask, createdBy: 'another-user-id', assigneeId: null };
       mockTasksService.findOne.mockResolvedValue(differentUserTask);
 
       await expect(controller.remove(differentUserTask.id, mockUser)).rejects.toThrow(
@@ -167,27 +218,160 @@ describe('TasksController', () => {
     });
   });
 
+  describe('findAllForAdmin', () => {
+    it('should reject non-admin users', async () => {
+      await expect(controller.findAllForAdmin(mockUser)).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should return a numbered page across all users', async () => {
+      const page = { data: [mockTask], meta: { total: 1, page: 2, limit: 10, totalPages: 1 } };
+      mockTasksService.findPage.mockResolvedValue(page);
+
+      const result = await controller.findAllForAdmin(mockAdminUser, '2');
+
+      expect(service.findPage).toHaveBeenCalledWith(null, expect.anything(), expect.anything(), {
+        page: 2,
+        limit: undefined,
+      });
+      expect(result).toEqual(page);
+    });
+  });
+
+  describe('trash', () => {
+    it("should only list the current user's trashed tasks", async () => {
+      mockTasksService.findTrash.mockResolvedValue([mockTask]);
+
+      const result = await controller.findTrash(mockUser);
+
+      expect(service.findTrash).toHaveBeenCalledWith(mockUser.id, 10);
+      expect(result.count).toEqual(1);
+    });
+
+    it('should restore a trashed task the user created', async () => {
+      mockTasksService.findTrashed.mockResolvedValue(mockTask);
+      mockTasksService.restore.mockResolvedValue(mockTask);
+
+      await controller.restore(mockTask.id, mockUser);
+
+      expect(service.restore).toHaveBeenCalledWith(mockTask.id, httpActor);
+    });
+
+    it('should only let admins purge tasks', async () => {
+      await expect(controller.purge(mockTask.id, mockUser)).rejects.toThrow(ForbiddenException);
+
+      mockTasksService.findTrashed.mockResolvedValue(mockTask);
+      mockTasksService.purge.mockResolvedValue(1);
+      await controller.purge(mockTask.id, mockAdminUser);
+
+      expect(service.purge).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('findHistory', () => {
+    it('should return the history of a task the user can view', async () => {
+      const events = [{ id: 'event-1', taskId: mockTask.id }];
+      mockTasksService.findOne.mockResolvedValue(mockTask);
+      mockTasksService.findHistory.mockResolvedValue(events);
+
+      expect(await controller.findHistory(mockTask.id, mockUser)).toEqual(events);
+    });
+
+    it("should throw ForbiddenException for another user's task", async () => {
+      const differentUserTask = { ...mockTask, createdBy: 'another-user-id', assigneeId: null };
+      mockTasksService.findOne.mockResolvedValue(differentUserTask);
+
+      await expect(controller.findHistory(differentUserTask.id, mockUser)).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+  });
+
   describe('batchProcess', () => {
     it('should call bulkUpdateStatus for the "complete" action', async () => {
-      const operations = { tasks: ['task-1', 'task-2'], action: 'complete' };
+      const operations = { tasks: ['task-1', 'task-2'], action: BatchAction.COMPLETE };
       mockTasksService.bulkUpdateStatus.mockResolvedValue([]);
 
       await controller.batchProcess(operations, mockUser);
 
-      expect(service.bulkUpdateStatus).toHaveBeenCalledWith(operations.tasks, TaskStatus.COMPLETED);
+      expect(service.bulkUpdateStatus).toHaveBeenCalledWith(
+        operations.tasks,
+        TaskStatus.COMPLETED,
+        mockUser,
+        httpActor,
+        undefined,
+      );
+    });
+
+    it('should pass expected versions on to bulk operations', async () => {
+      const operations = {
+        tasks: ['task-1', 'task-2'],
+        action: BatchAction.DELETE,
+        versions: { 'task-1': 2, 'task-2': 5 },
+      };
+      mockTasksService.bulkDelete.mockResolvedValue(undefined);
+
+      await controller.batchProcess(operations, mockUser);
+
+      expect(service.bulkDelete).toHaveBeenCalledWith(
+        operations.tasks,
+        mockUser,
+        httpActor,
+        operations.versions,
+      );
     });
 
     it('should call bulkDelete for the "delete" action', async () => {
-      const operations = { tasks: ['task-1', 'task-2'], action: 'delete' };
+      const operations = { tasks: ['task-1', 'task-2'], action: BatchAction.DELETE };
       mockTasksService.bulkDelete.mockResolvedValue(undefined);
 
       await controller.batchProcess(operations, mockUser);
 
-      expect(service.bulkDelete).toHaveBeenCalledWith(operations.tasks);
+      expect(service.bulkDelete).toHaveBeenCalledWith(
+        operations.tasks,
+        mockUser,
+        httpActor,
+        undefined,
+      );
+    });
+
+    it('should call bulkTag for the "tag" action', async () => {
+      const operations = {
+        tasks: ['task-1', 'task-2'],
+        action: BatchAction.TAG,
+        tagIds: ['tag-1'],
+      };
+      mockTasksService.bulkTag.mockResolvedValue([]);
+
+      await controller.batchProcess(operations, mockUser);
+
+      expect(service.bulkTag).toHaveBeenCalledWith(
+        operations.tasks,
+        ['tag-1'],
+        mockUser,
+        undefined,
+      );
+    });
+
+    it('should throw BadRequestException when untagging without tag IDs', async () => {
+      const operations = { tasks: ['task-1'], action: BatchAction.UNTAG };
+      await expect(controller.batchProcess(operations, mockUser)).rejects.toThrow(
+        BadRequestException,
+      );
     });
 
     it('should throw BadRequestException for an unsupported action', async () => {
-      const operations = { tasks: ['task-1'], action: 'archive' };
+      const operations = { tasks: ['task-1'], action: 'archive' as BatchAction };
+      await expect(controller.batchProcess(operations, mockUser)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should pass client errors of the service through unchanged', async () => {
+      const operations = { tasks: ['task-1'], action: BatchAction.TAG, tagIds: ['tag-1'] };
+      mockTasksService.bulkTag.mockRejectedValue(
+        new BadRequestException('One or more tags do not exist'),
+      );
+
       await expect(controller.batchProcess(operations, mockUser)).rejects.toThrow(
         BadRequestException,
       );
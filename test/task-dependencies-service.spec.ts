@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, jest } from 'bun:test';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { TaskDependenciesService } from '../src/modules/tasks/task-dependencies.service';
+import { TaskStatus } from '../src/modules/tasks/enums/task-status.enum';
+
+const queryRunner = {
+  connect: jest.fn(),
+  startTransaction: jest.fn(),
+  commitTransaction: jest.fn(),
+  rollbackTransaction: jest.fn(),
+  release: jest.fn(),
+  query: jest.fn(),
+  manager: {
+    findOne: jest.fn(),
+    query: jest.fn(),
+    create: jest.fn((_entity: any, data: any) => data),
+    save: jest.fn(async (data: any) => ({ id: 'edge-1', ...data })),
+    update: jest.fn(),
+  },
+};
+
+const mockDependencyRepo = {
+  find: jest.fn(),
+  findOne: jest.fn(),
+  delete: jest.fn(),
+  manager: {
+    query: jest.fn(),
+    connection: { createQueryRunner: () => queryRunner },
+  },
+};
+
+let service: TaskDependenciesService;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  service = new TaskDependenciesService(mockDependencyRepo as any);
+});
+
+describe('TaskDependenciesService', () => {
+  it('should reject a task depending on itself', async () => {
+    await expect(service.addDependency('task-1', 'task-1')).rejects.toThrow(BadRequestException);
+  });
+
+  it('should reject an edge that closes a cycle', async () => {
+    queryRunner.manager.findOne
+      .mockResolvedValueOnce({ id: 'task-2', status: TaskStatus.PENDING })
+      .mockResolvedValueOnce(null);
+    queryRunner.manager.query.mockResolvedValue([{ '?column?': 1 }]);
+
+    await expect(service.addDependency('task-1', 'task-2')).rejects.toThrow(ConflictException);
+    expect(queryRunner.rollbackTransaction).toHaveBeenCalled();
+  });
+
+  it('should mark the dependent as blocked when the blocker is still open', async () => {
+    queryRunner.manager.findOne
+      .mockResolvedValueOnce({ id: 'task-2', status: TaskStatus.IN_PROGRESS })
+      .mockResolvedValueOnce(null);
+    queryRunner.manager.query.mockResolvedValue([]);
+
+    const edge = await service.addDependency('task-1', 'task-2');
+
+    expect(edge.blockerId).toBe('task-2');
+    expect(queryRunner.manager.update).toHaveBeenCalledWith(expect.anything(), 'task-1', {
+      isBlocked: true,
+    });
+    expect(queryRunner.commitTransaction).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'bun:test';
+import { diffTask } from '../src/modules/tasks/utils/task-diff';
+import { TaskStatus } from '../src/modules/tasks/enums/task-status.enum';
+
+describe('diffTask', () => {
+  it('should only report fields that changed', () => {
+    const dueDate = new Date('2030-01-01T00:00:00.000Z');
+    const before = { title: 'Old', status: TaskStatus.PENDING, dueDate };
+    const after = { title: 'New', status: TaskStatus.PENDING, dueDate: new Date(dueDate) };
+
+    expect(diffTask(before, after)).toEqual({ title: { from: 'Old', to: 'New' } });
+  });
+
+  it('should describe creation and deletion against an empty task', () => {
+    const task = { title: 'Task', status: TaskStatus.PENDING, assigneeId: null };
+
+    expect(diffTask(null, task)).toEqual({
+      title: { from: null, to: 'Task' },
+      status: { from: null, to: TaskStatus.PENDING },
+    });
+    expect(diffTask(task, null).title).toEqual({ from: 'Task', to: null });
+  });
+});
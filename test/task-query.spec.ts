@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'bun:test';
+import { parseTaskQuery } from '../src/modules/tasks/query/task-query.parser';
+import { compileTaskQuery } from '../src/modules/tasks/query/task-query.compiler';
+import { TaskStatus } from '../src/modules/tasks/enums/task-status.enum';
+import { TaskPriority } from '../src/modules/tasks/enums/task-priority.enum';
+import { CustomFieldDefinition } from '../src/modules/custom-fields/entities/custom-field-definition.entity';
+import { CustomFieldType } from '../src/modules/custom-fields/enums/custom-field-type.enum';
+
+describe('parseTaskQuery', () => {
+  it('should parse fields, negation and free text into terms', () => {
+    const { terms } = parseTaskQuery(
+      'status:PENDING,in_progress priority:HIGH due<2025-01-01 -tag:blocked "release notes"',
+    );
+
+    expect(terms).toEqual([
+      {
+        kind: 'status',
+        values: [TaskStatus.PENDING, TaskStatus.IN_PROGRESS],
+        negated: false,
+        column: 1,
+      },
+      {
+        kind: 'priority',
+        operator: ':',
+        values: [TaskPriority.HIGH],
+        negated: false,
+        column: 28,
+      },
+      {
+        kind: 'date',
+        field: 'dueDate',
+        operator: '<',
+        value: '2025-01-01',
+        negated: false,
+        column: 42,
+      },
+      { kind: 'tag', names: ['blocked'], negated: true, column: 57 },
+      { kind: 'text', text: 'release notes', phrase: true, negated: false, column: 70 },
+    ]);
+  });
+
+  it('should point at the column of the bad token', () => {
+    expect(() => parseTaskQuery('status:PENDING colour:red')).toThrow(
+      'Invalid query: unknown field "colour" at column 16',
+    );
+    expect(() => parseTaskQuery('priority:HIGH,URGENT')).toThrow(
+      'Invalid query: unknown priority "URGENT" at column 15',
+    );
+    expect(() => parseTaskQuery('due>soon')).toThrow(
+      'Invalid query: invalid date "soon" at column 5',
+    );
+    expect(() => parseTaskQuery('tag:a "open')).toThrow(
+      'Invalid query: unterminated quote at column 7',
+    );
+    expect(() => parseTaskQuery('status<PENDING')).toThrow(
+      'Invalid query: "<" is not supported for status at column 7',
+    );
+  });
+});
+
+describe('compileTaskQuery', () => {
+  it('should add one condition per term', () => {
+    const conditions: [string, Record<string, unknown>][] = [];
+    const query = {
+      andWhere: (condition: string, params: any) => conditions.push([condition, params]),
+    };
+    const now = new Date('2030-03-14T12:00:00.000Z');
+
+    compileTaskQuery(parseTaskQuery('assignee:me,none -due<=today'), query, {
+      userId: 'user-1',
+      now,
+    });
+
+    expect(conditions).toEqual([
+      ['(task.assigneeId IN (:...q0) OR task.assigneeId IS NULL)', { q0: ['user-1'] }],
+      ['NOT COALESCE((task.dueDate <= :q1), false)', { q1: new Date('2030-03-14T23:59:59.999Z') }],
+    ]);
+  });
+
+  it('should compile custom field terms against the jsonb column', () => {
+    const conditions: [string, Record<string, unknown>][] = [];
+    const query = {
+      andWhere: (condition: string, params: any) => conditions.push([condition, params]),
+    };
+    const estimate = Object.assign(new CustomFieldDefinition(), {
+      key: 'estimate',
+      type: CustomFieldType.NUMBER,
+    });
+
+    compileTaskQuery(parseTaskQuery('cf.estimate>=3'), query, { customFields: [estimate] });
+
+    expect(conditions).toHaveLength(1);
+    expect(conditions[0][0]).toContain('task.custom_fields ->> :q0Key');
+    expect(conditions[0][1]).toMatchObject({ q0Key: 'estimate' });
+  });
+
+  it('should only match tags of the current user', () => {
+    const conditions: [string, Record<string, unknown>][] = [];
+    const query = {
+      andWhere: (condition: string, params: any) => conditions.push([condition, params]),
+    };
+
+    compileTaskQuery(parseTaskQuery('tag:Urgent'), query, { userId: 'user-1' });
+
+    expect(conditions[0][0]).toContain('g.user_id = :q0User');
+    expect(conditions[0][1]).toEqual({ q0: ['urgent'], q0User: 'user-1' });
+  });
+
+  it('should reject "me" without a current user', () => {
+    expect(() => compileTaskQuery(parseTaskQuery('assignee:me'), { andWhere: () => {} })).toThrow(
+      'Invalid query: "me" is not available here at column 1',
+    );
+  });
+});
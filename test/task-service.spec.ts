@@ -1,13 +1,16 @@
 import { describe, it, expect, beforeEach, jest, mock } from 'bun:test';
 import { TasksService } from '../src/modules/tasks/tasks.service';
-import { NotFoundException } from '@nestjs/common';
+import { ForbiddenException, NotFoundException, PreconditionFailedException } from '@nestjs/common';
 import { TaskStatus } from '../src/modules/tasks/enums/task-status.enum';
 import { TaskPriority } from '../src/modules/tasks/enums/task-priority.enum';
+import { TaskEventSource } from '../src/modules/tasks/enums/task-event-source.enum';
 import { ITaskRepository } from '../src/modules/tasks/interfaces/task-repository.interface';
 import { ITaskQueueService } from '../src/modules/tasks/interfaces/task-queue.interface';
 import { Role } from '@modules/auth/enums/role.enum';
+import { NotificationType } from '../src/modules/notifications/enums/notification-type.enum';
 const mockTaskRepo = {
   manager: {
+    insert: jest.fn(),
     connection: {
       createQueryRunner: () => ({
         connect: jest.fn(),
@@ -42,10 +45,20 @@ const mockTaskRepo = {
   findOne: jest.fn(),
   find: jest.fn(),
   delete: jest.fn(),
+  softDelete: jest.fn(),
+  restore: jest.fn(),
 };
 
 const mockQueueService = {
   enqueueStatusUpdate: jest.fn(),
+  enqueueDependencyRefresh: jest.fn(),
+  scheduleDueReminders: jest.fn(),
+  cancelDueReminders: jest.fn(),
+};
+
+const mockNotificationsService = {
+  notify: jest.fn().mockResolvedValue([]),
+  sendEmails: jest.fn(),
 };
 
 const taskExample = {
@@ -57,24 +70,49 @@ const taskExample = {
   updatedAt: new Date(),
   priority: TaskPriority.HIGH,
   dueDate: new Date(Date.now() + 86400000), // 1 day from now
-  userId: 'user1',
-  user: {
+  reminderOffsets: null,
+  estimateMinutes: null,
+  storyPoints: null,
+  rank: null,
+  createdBy: 'user1',
+  assigneeId: 'user1',
+  assignee: null,
+  parentId: null,
+  parent: null,
+  children: [],
+  isBlocked: false,
+  seriesId: null,
+  series: null,
+  occurrenceAt: null,
+  tags: [],
+  projectId: null,
+  project: null,
+  customFields: {},
+  version: 1,
+  deletedAt: null,
+  creator: {
     id: 'user1',
     email: 'user1@example.com',
     name: 'User One',
     password: 'hashedpassword',
     refreshToken: 'sometoken',
     role: Role.User,
+    reminderOffsets: [1440, 60, 15],
     createdAt: new Date(),
     updatedAt: new Date(),
     tasks: [],
+    assignedTasks: [],
   },
 };
 
 let service: TasksService;
 
 beforeEach(() => {
-  service = new TasksService(mockTaskRepo as any, mockQueueService as any);
+  service = new TasksService(
+    mockTaskRepo as any,
+    mockQueueService as any,
+    mockNotificationsService as any,
+  );
 });
 
 describe('TasksService', () => {
@@ -96,19 +134,104 @@ describe('TasksService', () => {
     expect(tasks.length).toBe(1);
   });
 
-  it('should notify if there are overdue tasks', async () => {
-    mockTaskRepo.find.mockResolvedValue([taskExample]);
-    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => { });
-    await service.notifyOverdueTasks(taskExample);
-    expect(logSpy).toHaveBeenCalledWith(expect.stringMatching(/Notifying about/));
-    logSpy.mockRestore();
+  it('should notify the assignee once the task is overdue', async () => {
+    const dueDate = new Date(Date.now() - 3600000);
+    await service.notifyOverdueTasks({ ...taskExample, dueDate });
+    expect(mockNotificationsService.notify).toHaveBeenCalledWith([
+      expect.objectContaining({
+        userId: 'user1',
+        type: NotificationType.OVERDUE,
+        dedupeKey: `overdue:1:${dueDate.toISOString()}`,
+      }),
+    ]);
   });
 
-  it('should not notify if no overdue tasks', async () => {
-    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => { });
-    mockTaskRepo.find.mockResolvedValue([]);
+  it('should not notify about tasks that are not overdue', async () => {
+    mockNotificationsService.notify.mockClear();
     await service.notifyOverdueTasks(taskExample);
-    expect(errorSpy).toHaveBeenCalledWith(expect.stringMatching(/No overdue tasks/));
-    errorSpy.mockRestore();
+    await service.notifyOverdueTasks({
+      ...taskExample,
+      dueDate: new Date(Date.now() - 3600000),
+      status: TaskStatus.COMPLETED,
+    });
+    expect(mockNotificationsService.notify).not.toHaveBeenCalled();
+  });
+
+  it('should move a task to the trash instead of deleting it', async () => {
+    mockTaskRepo.softDelete.mockResolvedValue({ affected: 1 });
+    await service.remove('1', { userId: 'user1', source: TaskEventSource.HTTP });
+    expect(mockTaskRepo.softDelete).toHaveBeenCalledWith({ id: '1' });
+    expect(mockTaskRepo.delete).not.toHaveBeenCalled();
+    expect(mockQueueService.enqueueDependencyRefresh).toHaveBeenCalledWith('1');
+    expect(mockQueueService.cancelDueReminders).toHaveBeenCalledWith('1');
+  });
+
+  it('should refuse to delete a task that changed since it was read', async () => {
+    mockTaskRepo.softDelete.mockResolvedValue({ affected: 0 });
+    mockTaskRepo.findOne.mockResolvedValue(taskExample);
+    await expect(
+      service.remove('1', { userId: 'user1', source: TaskEventSource.HTTP }, 0),
+    ).rejects.toThrow(PreconditionFailedException);
+    expect(mockTaskRepo.softDelete).toHaveBeenCalledWith({ id: '1', version: 0 });
+  });
+
+  it('should throw when restoring a task that is not in the trash', async () => {
+    mockTaskRepo.findOne.mockResolvedValue(null);
+    await expect(
+      service.restore('1', { userId: 'user1', source: TaskEventSource.HTTP }),
+    ).rejects.toThrow(NotFoundException);
+    expect(mockTaskRepo.restore).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to tag tasks the user cannot edit', async () => {
+    const query = jest.fn();
+    const createQueryRunner = mockTaskRepo.manager.connection.createQueryRunner;
+    mockTaskRepo.manager.connection.createQueryRunner = (() => ({
+      ...createQueryRunner(),
+      query,
+      manager: {
+        find: jest
+          .fn()
+          .mockResolvedValue([{ ...taskExample, createdBy: 'user2', assigneeId: null }]),
+        count: jest.fn().mockResolvedValue(1),
+      },
+    })) as any;
+    try {
+      await expect(
+        service.bulkTag(['1'], ['tag-1'], { id: 'user1', role: Role.User }),
+      ).rejects.toThrow(ForbiddenException);
+      expect(query).not.toHaveBeenCalled();
+    } finally {
+      mockTaskRepo.manager.connection.createQueryRunner = createQueryRunner;
+    }
+  });
+
+  it('should refuse to delete tasks the user cannot delete', async () => {
+    const softDelete = jest.fn();
+    const createQueryRunner = mockTaskRepo.manager.connection.createQueryRunner;
+    mockTaskRepo.manager.connection.createQueryRunner = (() => ({
+      ...createQueryRunner(),
+      manager: {
+        find: jest
+          .fn()
+          .mockResolvedValue([{ ...taskExample, createdBy: 'user2', assigneeId: 'user1' }]),
+        softDelete,
+      },
+    })) as any;
+    try {
+      await expect(
+        service.bulkDelete(
+          ['1'],
+          { id: 'user1', role: Role.User },
+          {
+            userId: 'user1',
+            source: TaskEventSource.HTTP,
+          },
+        ),
+      ).rejects.toThrow(ForbiddenException);
+      expect(softDelete).not.toHaveBeenCalled();
+    } finally {
+      mockTaskRepo.manager.connection.createQueryRunner = createQueryRunner;
+    }
   });
 });
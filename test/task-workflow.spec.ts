@@ -0,0 +1,72 @@
+import { describe, it, expect, jest } from 'bun:test';
+import { ConflictException } from '@nestjs/common';
+import { Task } from '../src/modules/tasks/entities/task.entity';
+import { TaskStatus } from '../src/modules/tasks/enums/task-status.enum';
+import { TaskEventSource } from '../src/modules/tasks/enums/task-event-source.enum';
+import {
+  assertTransition,
+  runTransitionEffects,
+} from '../src/modules/tasks/workflow/task-workflow';
+
+const task = (status: TaskStatus) =>
+  Object.assign(new Task(), { id: 'task-1', status, assigneeId: 'assignee-1' });
+
+const actor = (userId: string | null) => ({ userId, source: TaskEventSource.HTTP });
+
+describe('task workflow', () => {
+  it('should allow transitions listed in the table', () => {
+    expect(assertTransition(task(TaskStatus.PENDING), TaskStatus.IN_PROGRESS, actor('u1')).to).toBe(
+      TaskStatus.IN_PROGRESS,
+    );
+    expect(assertTransition(task(TaskStatus.COMPLETED), TaskStatus.PENDING, actor('u1')).to).toBe(
+      TaskStatus.PENDING,
+    );
+  });
+
+  it('should reject transitions missing from the table', () => {
+    expect(() =>
+      assertTransition(task(TaskStatus.BLOCKED), TaskStatus.COMPLETED, actor('u1')),
+    ).toThrow(ConflictException);
+    expect(() =>
+      assertTransition(task(TaskStatus.CANCELLED), TaskStatus.IN_PROGRESS, actor('u1')),
+    ).toThrow('cannot move from CANCELLED to IN_PROGRESS');
+  });
+
+  it('should only let the assignee submit a task for review', () => {
+    expect(() =>
+      assertTransition(task(TaskStatus.IN_PROGRESS), TaskStatus.IN_REVIEW, actor('someone-else')),
+    ).toThrow('only the assignee');
+    expect(() =>
+      assertTransition(task(TaskStatus.IN_PROGRESS), TaskStatus.IN_REVIEW, actor('assignee-1')),
+    ).not.toThrow();
+    expect(() =>
+      assertTransition(task(TaskStatus.IN_PROGRESS), TaskStatus.IN_REVIEW, actor(null)),
+    ).not.toThrow();
+  });
+
+  it('should cancel open subtasks when a task is cancelled', async () => {
+    const manager = {
+      query: jest.fn().mockResolvedValue([{ id: 'sub-1', status: TaskStatus.IN_PROGRESS }]),
+      update: jest.fn(),
+      insert: jest.fn(),
+    };
+    const cancelled = task(TaskStatus.PENDING);
+    const transition = assertTransition(cancelled, TaskStatus.CANCELLED, actor('u1'));
+
+    await runTransitionEffects(transition, {
+      manager,
+      task: cancelled,
+      from: TaskStatus.PENDING,
+      to: TaskStatus.CANCELLED,
+      actor: actor('u1'),
+    });
+
+    expect(manager.update).toHaveBeenCalledTimes(1);
+    expect(manager.insert.mock.calls[0][1]).toEqual([
+      expect.objectContaining({
+        taskId: 'sub-1',
+        changes: { status: { from: TaskStatus.IN_PROGRESS, to: TaskStatus.CANCELLED } },
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'bun:test';
+import { BadRequestException } from '@nestjs/common';
+import {
+  buildTimesheet,
+  resolveTimesheetRange,
+} from '../src/modules/time-tracking/utils/timesheet';
+
+// A Wednesday
+const now = new Date('2026-10-21T15:30:00.000Z');
+
+describe('resolveTimesheetRange', () => {
+  it('should default to the current week', () => {
+    const range = resolveTimesheetRange(undefined, undefined, now);
+
+    expect(range.from).toEqual(new Date('2026-10-19T00:00:00.000Z'));
+    expect(range.to).toEqual(new Date('2026-10-25T23:59:59.999Z'));
+  });
+
+  it('should reject reversed and oversized ranges', () => {
+    expect(() => resolveTimesheetRange('2026-10-20', '2026-10-19', now)).toThrow(
+      BadRequestException,
+    );
+    expect(() => resolveTimesheetRange('2024-01-01', '2026-01-01', now)).toThrow(
+      BadRequestException,
+    );
+  });
+});
+
+describe('buildTimesheet', () => {
+  it('should total logged time per day and week', () => {
+    const range = resolveTimesheetRange('2026-10-18', '2026-10-20', now);
+    const timesheet = buildTimesheet('user-1', range, [
+      { date: '2026-10-18', taskId: 'task-1', title: 'Write docs', seconds: '1800' },
+      { date: '2026-10-19', taskId: 'task-1', title: 'Write docs', seconds: '600' },
+      { date: '2026-10-19', taskId: 'task-2', title: 'Fix bug', seconds: '3600' },
+    ]);
+
+    expect(timesheet.totalSeconds).toBe(6000);
+    expect(timesheet.days.map(day => [day.date, day.totalSeconds])).toEqual([
+      ['2026-10-18', 1800],
+      ['2026-10-19', 4200],
+      ['2026-10-20', 0],
+    ]);
+    expect(timesheet.weeks).toEqual([
+      { weekStart: '2026-10-12', totalSeconds: 1800 },
+      { weekStart: '2026-10-19', totalSeconds: 4200 },
+    ]);
+  });
+});
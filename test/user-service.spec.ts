@@ -32,7 +32,9 @@ const sampleUser = {
   refreshToken: '', // Changed from null to empty string to match type 'string'
   name: 'Test User',
   role: Role.User, // Use the enum for role
+  reminderOffsets: [1440, 60, 15],
   tasks: [],
+  assignedTasks: [],
   createdAt: new Date(),
   updatedAt: new Date(),
 };